@@ -1,142 +1,874 @@
 
-import React, { useState, useEffect } from 'react';
-import { ShotSize, ShotSizeLabels, StoryboardResult, AnalysisStatus, GridLayout, AspectRatio } from './types';
-import { geminiService } from './services/geminiService';
-import { Camera, Image as ImageIcon, Sparkles, Copy, Check, Globe, RefreshCcw, Trash2, Settings2, Grid, LayoutTemplate, Film, ArrowRight } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ShotSpec, ShotVersion, StoryboardResult, TransitionShot, AnalysisStatus, GenerationProgress, GridLayout, AspectRatio, ProviderSettings, PromptTemplateSettings, StoryboardProject, StoryboardScene, SceneTransition, BibleAsset, AssetKindLabels, ShotFramingLabels, LocaleCode, LOCALE_CODES, LocaleLabels, ImageSettings, ImageWarning, UsageEntry, ProviderErrorKind, StoryboardRequest, GeneratorInfo, CachedResult, ConsistencyReview, ConsistencyReviewRequest, ShotReview } from './types';
+import { createProvider, loadProviderSettings, saveProviderSettings, PROVIDERS } from './services/providerRegistry';
+import { generateValidatedStoryboard, repairStoryboard } from './services/storyboardPipeline';
+import { ProviderError } from './services/errors';
+import { addUsage } from './services/usage';
+import { resultCacheKey, getCachedResult, putCachedResult } from './services/resultCache';
+import { validateStoryboardResult } from './services/validation';
+import { createProject, createScene, isScenePristine, loadLastProject, saveProject } from './services/projectStore';
+import { downloadProjectFile, parseProjectFile, downloadText, downloadBlob, safeFilename, FILE_EXTENSION } from './services/projectFile';
+import { listAssets, saveAsset, deleteAsset, mergeAssets } from './services/bible';
+import { loadImageSettings, saveImageSettings, prepareReferenceImages } from './services/referenceImages';
+import { loadPromptTemplateSettings, savePromptTemplateSettings, renderPromptTemplate } from './services/promptTemplates';
+import { addResultVersions, addShotVersion, createShotVersion } from './services/shotHistory';
+import { TextTarget, adjacentTransitions, replaceShotDescription, replaceTransitionPrompt, textTargetKey, getText, setText } from './services/resultEdits';
+import { buildFramesZip } from './services/gridFrames';
+import { reviewConsistency, isLowScoring } from './services/review';
+import { moveShot, insertShot, deleteShot, canChangeShotCount } from './services/shotOrder';
+import { getContinuity, generateSceneTransition, upsertSceneTransition, buildShotListCsv } from './services/sequence';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import ProjectBrowser from './components/ProjectBrowser';
+import LayoutPicker from './components/LayoutPicker';
+import SequenceEditor from './components/SequenceEditor';
+import AssetBible from './components/AssetBible';
+import PromptTemplatePanel from './components/PromptTemplatePanel';
+import ShotSpecEditor from './components/ShotSpecEditor';
+import ShotPresetPicker from './components/ShotPresetPicker';
+import StylePicker from './components/StylePicker';
+import ScriptInput from './components/ScriptInput';
+import ShotHistoryPanel from './components/ShotHistoryPanel';
+import EditableText from './components/EditableText';
+import ImageWarnings from './components/ImageWarnings';
+import ImageSettingsEditor from './components/ImageSettingsEditor';
+import GridSlicer from './components/GridSlicer';
+import ConsistencyReviewPanel from './components/ConsistencyReviewPanel';
+import UsagePanel from './components/UsagePanel';
+import CachePanel from './components/CachePanel';
+import { getShotCount, parseLayout, resizeShots, resizeToLayout, gridColumnsClass, resultGridClass } from './utils/grid';
+import { createShotSpec, describeShotSpec } from './utils/shotSpec';
+import { DEFAULT_LANGUAGES, textIn } from './utils/locale';
+import { Translate, UiStringKey, createTranslator, loadUiLocale, saveUiLocale, LOCALE_TAGS } from './locales';
+import { UndoHistory, createUndoHistory, recordUndoStep, undo, redo } from './utils/undoHistory';
+import { Camera, Image as ImageIcon, Sparkles, Copy, Check, Globe, RefreshCcw, Trash2, Settings2, LayoutTemplate, Film, ArrowRight, AlertTriangle, Wrench, FolderOpen, Download, Upload, X, FileCode2, History, Undo2, Redo2, BarChart3, Database, GripVertical, Plus, Scissors, ScanEye, Clapperboard } from 'lucide-react';
+
+const progressMessage = ({ phase, completed, total }: GenerationProgress, t: Translate): string => {
+  const next = Math.min(completed + 1, total);
+  switch (phase) {
+    case 'scene': return t('progress.scene');
+    case 'shots': return t('progress.shots', { next, total });
+    case 'transitions': return t('progress.transitions', { next, total });
+    case 'repair': return t('progress.repair', { next, total });
+  }
+};
+
+const ERROR_MESSAGES: Record<Exclude<ProviderErrorKind, 'unknown'>, UiStringKey> = {
+  auth: 'error.auth',
+  quota: 'error.quota',
+  safety: 'error.safety',
+  timeout: 'error.timeout',
+  malformed: 'error.malformed',
+  network: 'error.network'
+};
+
+// Why a model request failed, in the interface language
+const errorMessage = (error: unknown, t: Translate): string => {
+  if (error instanceof ProviderError && error.kind !== 'unknown') return t(ERROR_MESSAGES[error.kind]);
+  return t('error.unknown', { detail: error instanceof Error ? error.message : String(error) });
+};
+
+// What undo/redo restores: every scene and the cuts between them
+type SequenceSnapshot = Pick<StoryboardProject, 'scenes' | 'sceneTransitions'>;
 
 const App: React.FC = () => {
-  const [images, setImages] = useState<string[]>([]);
-  // Configuration State
-  const [layout, setLayout] = useState<GridLayout>('3x3');
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
-  
-  // Initialize with 9 shots for 3x3 default
-  const [selectedShots, setSelectedShots] = useState<ShotSize[]>(new Array(9).fill(ShotSize.Medium));
+  // Interface language, independent of the languages the storyboard is written in
+  const [uiLocale, setUiLocale] = useState<LocaleCode>(loadUiLocale);
+  const t = useMemo(() => createTranslator(uiLocale), [uiLocale]);
+
+  useEffect(() => {
+    saveUiLocale(uiLocale);
+    document.documentElement.lang = LOCALE_TAGS[uiLocale];
+  }, [uiLocale]);
+
+  // Identity of the project being edited; its content lives in the states below
+  const [projectInfo, setProjectInfo] = useState(() => {
+    const { id, name, createdAt } = createProject();
+    return { id, name, createdAt };
+  });
+  const [projectLoaded, setProjectLoaded] = useState(false);
+  const [showProjects, setShowProjects] = useState(false);
+  // Output languages of the project; every generated text is written in each of them
+  const [languages, setLanguages] = useState<LocaleCode[]>(() => [...DEFAULT_LANGUAGES]);
+  // Tokens spent on the project, per model
+  const [usage, setUsage] = useState<UsageEntry[]>([]);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showCache, setShowCache] = useState(false);
+
+  // Sequence State: ordered scenes, one of which is being edited
+  const [scenes, setScenes] = useState<StoryboardScene[]>(() => [createScene()]);
+  const [sceneTransitions, setSceneTransitions] = useState<SceneTransition[]>([]);
+  const [activeSceneId, setActiveSceneId] = useState<string | null>(null);
+  const [generatingTransitionIndex, setGeneratingTransitionIndex] = useState<number | null>(null);
+
+  const activeIndex = Math.max(scenes.findIndex(scene => scene.id === activeSceneId), 0);
+  const activeScene = scenes[activeIndex];
+  const { images, layout, aspectRatio, selectedShots, result, generatedBy, assetIds, shotAssets, shotHistory, frames, style, script } = activeScene;
+
+  // Setters bound to the scene that is active when they are called, so async
+  // work started on one scene never lands in another
+  const sceneSetter = <K extends keyof StoryboardScene>(key: K) =>
+    (value: React.SetStateAction<StoryboardScene[K]>) => {
+      const sceneId = activeScene.id;
+      setScenes(prev => prev.map(scene => scene.id !== sceneId ? scene : {
+        ...scene,
+        [key]: typeof value === 'function'
+          ? (value as (current: StoryboardScene[K]) => StoryboardScene[K])(scene[key])
+          : value
+      }));
+    };
+  const setImages = sceneSetter('images');
+  const setLayout = sceneSetter('layout');
+  const setAspectRatio = sceneSetter('aspectRatio');
+  const setSelectedShots = sceneSetter('selectedShots');
+  const setResult = sceneSetter('result');
+  const setGeneratedBy = sceneSetter('generatedBy');
+  const setAssetIds = sceneSetter('assetIds');
+  const setShotAssets = sceneSetter('shotAssets');
+  const setStyle = sceneSetter('style');
+  const setScript = sceneSetter('script');
+  const setShotHistory = sceneSetter('shotHistory');
+  const setFrames = sceneSetter('frames');
+
+  // Character & asset bible, shared by every project
+  const [library, setLibrary] = useState<BibleAsset[]>([]);
+  // Bible entries of the active scene, in the order they were added to it
+  const sceneAssets = assetIds
+    .map(id => library.find(asset => asset.id === id))
+    .filter((asset): asset is BibleAsset => !!asset);
+  const shotAssetsAt = (index: number) => sceneAssets.filter(asset => shotAssets[index]?.includes(asset.id));
+  const referenceCount = images.length + sceneAssets.reduce((count, asset) => count + asset.images.length, 0);
+
+  // Preparation of uploaded references, remembered across sessions
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(loadImageSettings);
+  const [imageWarnings, setImageWarnings] = useState<ImageWarning[]>([]);
+  const [preparingImages, setPreparingImages] = useState(false);
+  const [draggingImages, setDraggingImages] = useState(false);
+
+  useEffect(() => {
+    saveImageSettings(imageSettings);
+  }, [imageSettings]);
   
   const [status, setStatus] = useState<AnalysisStatus>({ step: 'idle', message: '' });
-  const [result, setResult] = useState<StoryboardResult | null>(null);
-  const [language, setLanguage] = useState<'en' | 'cn'>('cn');
+  const isGenerating = status.step === 'analyzing' || status.step === 'generating';
+  // Aborts the in-flight generation when the user cancels it
+  const abortRef = useRef<AbortController | null>(null);
+  // Earlier result for the same inputs, offered before paying for another call
+  const [cacheHit, setCacheHit] = useState<CachedResult | null>(null);
+  const [outputLanguage, setOutputLanguage] = useState<LocaleCode>('cn');
+  // Output language the generated text is shown and edited in; English once the chosen one is dropped
+  const language = languages.includes(outputLanguage) ? outputLanguage : 'en';
   const [copied, setCopied] = useState(false);
+  const [copiedNegative, setCopiedNegative] = useState(false);
   const [copiedTransitionId, setCopiedTransitionId] = useState<number | null>(null);
   
   // Track which specific shot is currently regenerating
   const [regeneratingShotId, setRegeneratingShotId] = useState<number | null>(null);
+  const [repairing, setRepairing] = useState(false);
+  // fromShot of each transition being rewritten; a shot refresh can start two at once
+  const [regeneratingTransitions, setRegeneratingTransitions] = useState<number[]>([]);
+  const [autoRefreshTransitions, setAutoRefreshTransitions] = useState(true);
+  const [historyShotIndex, setHistoryShotIndex] = useState<number | null>(null);
+  const [showSlicer, setShowSlicer] = useState(false);
+  // Latest consistency review, for the scene it was made for; shots fixed since are listed
+  const [review, setReview] = useState<{ sceneId: string; review: ConsistencyReview; fixed: number[] } | null>(null);
+  const [showReview, setShowReview] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  const sceneReview = review?.sceneId === activeScene.id ? review : null;
+  // Result card being dragged to a new position, and the card it's over
+  const [draggedShot, setDraggedShot] = useState<number | null>(null);
+  const [shotDropTarget, setShotDropTarget] = useState<number | null>(null);
+  // Keys (see textTargetKey) of hand-edited texts being re-translated
+  const [syncingTexts, setSyncingTexts] = useState<string[]>([]);
+  // Scene whose description was edited by hand, until its shots are updated or the offer is dismissed
+  const [editedSceneId, setEditedSceneId] = useState<string | null>(null);
+  const [propagating, setPropagating] = useState(false);
+
+  // Undo/redo over the whole sequence. Streamed partials are not recorded,
+  // so a generation is a single step.
+  const [undoHistory, setUndoHistory] = useState(() => createUndoHistory<SequenceSnapshot>({ scenes, sceneTransitions }));
+
+  useEffect(() => {
+    if (isGenerating) return;
+    setUndoHistory(history => recordUndoStep(history, { scenes, sceneTransitions }));
+  }, [scenes, sceneTransitions, isGenerating]);
+
+  const applyUndoStep = (next: UndoHistory<SequenceSnapshot>) => {
+    if (isGenerating || next === undoHistory) return;
+    setUndoHistory(next);
+    setScenes(next.present.scenes);
+    setSceneTransitions(next.present.sceneTransitions);
+  };
+  const handleUndo = () => applyUndoStep(undo(undoHistory));
+  const handleRedo = () => applyUndoStep(redo(undoHistory));
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      // Text fields keep their own undo
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Re-validated on every edit so gaps disappear as soon as they are filled
+  const validation = useMemo(
+    () => result ? validateStoryboardResult(result, result.shots.length, languages) : null,
+    [result, languages]
+  );
+
+  // Model provider selection, remembered across sessions
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const provider = useMemo(
+    () => createProvider(providerSettings, entry => setUsage(prev => addUsage(prev, entry))),
+    [providerSettings]
+  );
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  // The offer no longer matches once any input changes
+  useEffect(() => {
+    setCacheHit(null);
+  }, [images, selectedShots, layout, aspectRatio, languages, assetIds, shotAssets, style, script, providerSettings]);
+
+  // Image generator the final prompt is formatted for
+  const [templateSettings, setTemplateSettings] = useState<PromptTemplateSettings>(loadPromptTemplateSettings);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const promptTemplate = templateSettings.templates.find(template => template.id === templateSettings.target) ?? templateSettings.templates[0];
+
+  useEffect(() => {
+    savePromptTemplateSettings(templateSettings);
+  }, [templateSettings]);
+
+  const applyProject = (project: StoryboardProject) => {
+    setProjectInfo({ id: project.id, name: project.name, createdAt: project.createdAt });
+    setLanguages(project.languages);
+    setUsage(project.usage);
+    setScenes(project.scenes);
+    setSceneTransitions(project.sceneTransitions);
+    setActiveSceneId(project.scenes[0]?.id || null);
+    setStatus({ step: 'idle', message: '' });
+    setUndoHistory(createUndoHistory({ scenes: project.scenes, sceneTransitions: project.sceneTransitions }));
+  };
+
+  const currentProject = (): StoryboardProject => ({
+    ...projectInfo,
+    updatedAt: Date.now(),
+    languages,
+    usage,
+    scenes,
+    sceneTransitions
+  });
+
+  const isPristine = scenes.every(isScenePristine);
+
+  const alertFailure = (message: string, error: unknown) => alert(`${message}\n\n${errorMessage(error, t)}`);
+
+  const refreshLibrary = () => listAssets()
+    .then(setLibrary)
+    .catch(error => console.error("Failed to load asset bible", error));
+
+  useEffect(() => {
+    refreshLibrary();
+  }, []);
+
+  useEffect(() => {
+    loadLastProject()
+      .then(applyProject)
+      .catch(error => console.error("Failed to restore last project", error))
+      .finally(() => setProjectLoaded(true));
+  }, []);
+
+  // Autosave, debounced so rapid edits produce a single write
+  useEffect(() => {
+    if (!projectLoaded || isPristine) return;
+    const timer = setTimeout(() => {
+      saveProject(currentProject()).catch(error => console.error("Autosave failed", error));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [projectLoaded, projectInfo, languages, usage, scenes, sceneTransitions]);
+
+  // Flush pending edits before switching away from the current project
+  const switchProject = async (next: StoryboardProject) => {
+    if (next.id === projectInfo.id) {
+      setShowProjects(false);
+      return;
+    }
+    if (!isPristine) {
+      await saveProject(currentProject()).catch(error => console.error("Save failed", error));
+    }
+    applyProject(next);
+    setShowProjects(false);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProjectFile(await file.text());
+      await mergeAssets(imported.assets);
+      await refreshLibrary();
+      await saveProject(imported.project);
+      await switchProject(imported.project);
+    } catch (error) {
+      console.error("Failed to import storyboard", error);
+      alert(t('error.import', { file: file.name, error: error instanceof Error ? error.message : String(error) }));
+    }
+  };
+
+  // New scenes start after the active one with its framing settings and style
+  const addScene = () => {
+    const scene = {
+      ...createScene(t('scene.defaultName', { number: scenes.length + 1 })),
+      layout,
+      aspectRatio,
+      selectedShots: resizeShots([], layout),
+      style
+    };
+    setScenes(prev => {
+      const index = prev.findIndex(s => s.id === activeScene.id);
+      return [...prev.slice(0, index + 1), scene, ...prev.slice(index + 1)];
+    });
+    setActiveSceneId(scene.id);
+  };
+
+  const selectScene = (id: string) => {
+    setActiveSceneId(id);
+    setImageWarnings([]);
+    setCacheHit(null);
+    // Keep an in-flight generation visible; otherwise the message belongs to the old scene
+    if (!isGenerating) setStatus({ step: 'idle', message: '' });
+  };
+
+  const renameScene = (id: string, name: string) => {
+    setScenes(prev => prev.map(scene => scene.id === id ? { ...scene, name } : scene));
+  };
+
+  const deleteScene = (id: string) => {
+    const scene = scenes.find(s => s.id === id);
+    if (!scene || scenes.length === 1) return;
+    if (!isScenePristine(scene) && !confirm(t('scene.confirmDelete', { name: scene.name }))) return;
+    setScenes(prev => prev.filter(s => s.id !== id));
+    if (id === activeScene.id) {
+      setActiveSceneId(scenes[activeIndex === 0 ? 1 : activeIndex - 1].id);
+    }
+  };
+
+  const moveScene = (index: number, direction: -1 | 1) => {
+    setScenes(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleGenerateSceneTransition = async (index: number) => {
+    setGeneratingTransitionIndex(index);
+    try {
+      const transition = await generateSceneTransition(provider, scenes, index, languages);
+      setSceneTransitions(prev => upsertSceneTransition(prev, scenes, transition));
+    } catch (error) {
+      console.error("Failed to generate scene transition", error);
+      alertFailure(t('error.sceneTransition'), error);
+    } finally {
+      setGeneratingTransitionIndex(null);
+    }
+  };
+
+  // Sequential so a failure stops the batch instead of flooding the API
+  const handleGenerateAllSceneTransitions = async () => {
+    try {
+      for (let i = 0; i < scenes.length - 1; i++) {
+        if (!scenes[i].result || !scenes[i + 1].result) continue;
+        setGeneratingTransitionIndex(i);
+        const transition = await generateSceneTransition(provider, scenes, i, languages);
+        setSceneTransitions(prev => upsertSceneTransition(prev, scenes, transition));
+      }
+    } catch (error) {
+      console.error("Failed to generate scene transitions", error);
+      alertFailure(t('error.sceneTransitions'), error);
+    } finally {
+      setGeneratingTransitionIndex(null);
+    }
+  };
+
+  const hasFrames = frames.some(frame => frame);
+  // Shots whose script beat calls for a different framing than the one set
+  const framingSuggestions = (result?.shots || [])
+    .map((shot, i) => ({ index: i, framing: shot.framing }))
+    .filter(({ index, framing }) => framing && selectedShots[index] && framing !== selectedShots[index].framing);
+
+  const downloadFrames = () => {
+    if (!result) return;
+    downloadBlob(buildFramesZip(result, frames, languages), `${safeFilename(`${projectInfo.name} - ${activeScene.name}`)}.frames.zip`);
+  };
+
+  const exportShotList = () => {
+    downloadText(buildShotListCsv(currentProject()), `${safeFilename(projectInfo.name)}.shotlist.csv`, 'text/csv');
+  };
+
+  const handleSaveAsset = async (asset: BibleAsset) => {
+    const isNew = !library.some(existing => existing.id === asset.id);
+    try {
+      await saveAsset(asset);
+      await refreshLibrary();
+      // A freshly created entity is most likely meant for the scene being edited
+      if (isNew) setAssetIds(prev => [...prev, asset.id]);
+    } catch (error) {
+      console.error("Failed to save bible entry", error);
+      alert(t('error.saveAsset'));
+    }
+  };
+
+  const handleDeleteAsset = async (id: string) => {
+    try {
+      await deleteAsset(id);
+      await refreshLibrary();
+      setScenes(prev => prev.map(scene => ({
+        ...scene,
+        assetIds: scene.assetIds.filter(assetId => assetId !== id),
+        shotAssets: scene.shotAssets.map(ids => ids.filter(assetId => assetId !== id))
+      })));
+    } catch (error) {
+      console.error("Failed to delete bible entry", error);
+    }
+  };
+
+  const toggleSceneAsset = (id: string) => {
+    if (assetIds.includes(id)) {
+      setAssetIds(prev => prev.filter(assetId => assetId !== id));
+      setShotAssets(prev => prev.map(ids => ids.filter(assetId => assetId !== id)));
+    } else {
+      setAssetIds(prev => [...prev, id]);
+    }
+  };
+
+  const toggleShotAsset = (index: number, id: string) => {
+    setShotAssets(prev => resizeToLayout(prev, layout, () => []).map((ids, i) => {
+      if (i !== index) return ids;
+      return ids.includes(id) ? ids.filter(assetId => assetId !== id) : [...ids, id];
+    }));
+  };
+
+  // English stays: it is the fallback for every other language
+  const toggleLanguage = (code: LocaleCode) => {
+    if (code === 'en') return;
+    setLanguages(prev => prev.includes(code)
+      ? prev.filter(c => c !== code)
+      : LOCALE_CODES.filter(c => c === code || prev.includes(c)));
+  };
 
   // Handle Layout Change (Resize shots array)
   const handleLayoutChange = (newLayout: GridLayout) => {
     setLayout(newLayout);
-    const targetCount = newLayout === '3x3' ? 9 : 4;
-    
-    setSelectedShots(prev => {
-      if (prev.length === targetCount) return prev;
-      if (prev.length > targetCount) return prev.slice(0, targetCount);
-      // If growing, pad with Medium Shot
-      return [...prev, ...new Array(targetCount - prev.length).fill(ShotSize.Medium)];
-    });
+    // If growing, pad with Medium Shot
+    setSelectedShots(prev => resizeShots(prev, newLayout));
+    setShotAssets(prev => resizeToLayout(prev, newLayout, () => []));
+    setShotHistory(prev => resizeToLayout(prev, newLayout, () => []));
+    setFrames(prev => resizeToLayout(prev, newLayout, () => ''));
+  };
+
+  const addReferenceFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setPreparingImages(true);
+    try {
+      const prepared = await prepareReferenceImages(files, images, imageSettings);
+      setImages(prev => [...prev, ...prepared.images]);
+      setImageWarnings(prepared.warnings);
+    } catch (error) {
+      console.error("Failed to prepare reference images", error);
+    } finally {
+      setPreparingImages(false);
+    }
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []) as File[];
-    files.forEach(file => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImages(prev => [...prev, reader.result as string]);
-      };
-      reader.readAsDataURL(file);
-    });
+    e.target.value = '';
+    addReferenceFiles(files);
+  };
+
+  const handleImageDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDraggingImages(false);
+    addReferenceFiles(Array.from(e.dataTransfer.files));
   };
 
+  // Pasted images become references of the active scene, wherever the focus is
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []);
+      if (e.defaultPrevented || files.length === 0) return;
+      e.preventDefault();
+      addReferenceFiles(files);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  });
+
   const removeImage = (index: number) => {
     setImages(prev => prev.filter((_, i) => i !== index));
   };
 
-  const handleShotChange = (index: number, size: ShotSize) => {
+  const handleShotChange = (index: number, spec: ShotSpec) => {
     const newShots = [...selectedShots];
-    newShots[index] = size;
+    newShots[index] = spec;
     setSelectedShots(newShots);
   };
 
-  const generateStoryboard = async () => {
-    if (images.length === 0) {
-      alert("Please upload at least one image.");
+  // Takes the framings the model suggested for the script's beats; the
+  // descriptions still follow the old ones until the shots are regenerated
+  const applyFramingSuggestions = (indices: number[]) => {
+    if (!result) return;
+    setSelectedShots(prev => prev.map((spec, i) => {
+      const framing = result.shots[i]?.framing;
+      return indices.includes(i) && framing ? { ...spec, framing } : spec;
+    }));
+  };
+
+  // Applies a stored result instead of calling the provider again
+  const applyCachedResult = (entry: CachedResult) => {
+    setResult(entry.result);
+    setShotHistory(prev => addResultVersions(prev, entry.result, selectedShots, 'generated'));
+    setGeneratedBy(entry.generator);
+    setCacheHit(null);
+    if (sceneReview) setReview(null);
+    setStatus({ step: 'completed', message: t('cache.used') });
+  };
+
+  // `fresh` skips the cache lookup, for a new variant of a cached storyboard
+  const generateStoryboard = async (fresh = false) => {
+    if (referenceCount === 0 && !script.trim()) {
+      alert(t('error.noReferences'));
       return;
     }
+
+    const request: StoryboardRequest = {
+      images,
+      selectedShots,
+      layout,
+      aspectRatio,
+      languages,
+      continuity: getContinuity(scenes, activeIndex),
+      assets: sceneAssets,
+      shotAssets,
+      style,
+      script
+    };
+    const generator: GeneratorInfo = {
+      provider: providerSettings.provider,
+      model: providerSettings.configs[providerSettings.provider].model
+    };
+    setCacheHit(null);
+    let cacheKey: string | null = null;
+    try {
+      cacheKey = await resultCacheKey(request, generator);
+      const cached = fresh ? undefined : await getCachedResult(cacheKey);
+      if (cached) {
+        setCacheHit(cached);
+        return;
+      }
+    } catch (error) {
+      // The cache is an optimization; generate as usual without it
+      console.error("Result cache lookup failed", error);
+    }
     
-    setStatus({ step: 'analyzing', message: 'Analyzing your reference images and generating shots...' });
+    setStatus({ step: 'analyzing', message: t('status.analyzing') });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // Streamed partials replace the result as they arrive; a cancelled run puts this back
+    const previousResult = result;
     
     try {
-      const data = await geminiService.analyzeAndGenerate(images, selectedShots, layout, aspectRatio);
-      setResult(data);
-      setStatus({ step: 'completed', message: 'Generation successful!' });
+      const outcome = await generateValidatedStoryboard(provider, request, {
+        signal: controller.signal,
+        onProgress: (partial, progress) => {
+          setResult(partial.normalized);
+          setStatus({ step: 'generating', message: progressMessage(progress, t), progress });
+        }
+      });
+      setResult(outcome.normalized);
+      setShotHistory(prev => addResultVersions(prev, outcome.normalized, selectedShots, 'generated'));
+      setGeneratedBy(generator);
+      if (sceneReview) setReview(null);
+      setStatus(outcome.issues.length === 0
+        ? { step: 'completed', message: t('status.completed') }
+        : { step: 'partial', message: t('status.partial') });
+      // Only complete storyboards are worth offering again
+      if (cacheKey && outcome.issues.length === 0) {
+        putCachedResult(cacheKey, outcome.normalized, generator, layout)
+          .catch(error => console.error("Failed to cache storyboard", error));
+      }
     } catch (error) {
-      setStatus({ step: 'error', message: 'Failed to generate storyboard. Please check your API key or try again.' });
+      if (controller.signal.aborted) {
+        setResult(previousResult);
+        setStatus({ step: 'idle', message: t('status.cancelled') });
+      } else {
+        setStatus({ step: 'error', message: `${t('status.failed')} ${errorMessage(error, t)}` });
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
-  const handleSingleShotRegenerate = async (index: number) => {
-    if (!result) return;
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  // `fix` is a correction from the consistency review; resolves to whether the shot was rewritten
+  const handleSingleShotRegenerate = async (index: number, fix?: string): Promise<boolean> => {
+    if (!result) return false;
     
     setRegeneratingShotId(index);
     try {
-      // Use the currently selected size for this shot
-      const currentSize = selectedShots[index];
-      const newDescription = await geminiService.regenerateShot(
+      // Use the current camera settings for this shot
+      const currentSpec = selectedShots[index];
+      const newDescription = await provider.regenerateShot(
         result.scenePrompt,
         index + 1, // Shot IDs are usually 1-based in our logic
-        currentSize
+        currentSpec,
+        languages,
+        shotAssetsAt(index),
+        fix,
+        style
       );
 
-      // Update the specific shot in the result state
-      setResult(prev => {
-        if (!prev) return null;
-        const newShots = [...prev.shots];
-        // Ensure we are updating the correct index. 
-        if (newShots[index]) {
-            newShots[index] = {
-                ...newShots[index],
-                description: newDescription
-            };
-        }
-        return {
-            ...prev,
-            shots: newShots
-        };
+      // Update the specific shot; the transitions on either side now point at an old frame
+      setResult(prev => prev && replaceShotDescription(prev, index + 1, newDescription));
+      setShotHistory(prev => {
+        // Results from before history existed: keep the description being replaced
+        const seeded = prev[index]?.length
+          ? prev
+          : addShotVersion(prev, index, createShotVersion(result.shots[index].description, currentSpec, 'generated'));
+        return addShotVersion(seeded, index, createShotVersion(newDescription, currentSpec, 'regenerated'));
       });
+      if (autoRefreshTransitions) {
+        const updated = replaceShotDescription(result, index + 1, newDescription);
+        adjacentTransitions(updated, index + 1).forEach(fromShot => handleTransitionRegenerate(fromShot, updated));
+      }
+      return true;
     } catch (error) {
       console.error("Failed to regenerate shot", error);
-      alert("Failed to regenerate specific shot. Please try again.");
+      alertFailure(t('error.regenerateShot'), error);
+      return false;
     } finally {
       setRegeneratingShotId(null);
     }
   };
 
-  const getFinalPrompt = () => {
-    if (!result) return "";
-    
-    const isCN = language === 'cn';
-    const scene = isCN ? result.scenePrompt.cn : result.scenePrompt.en;
-    const numShots = layout === '3x3' ? 9 : 4;
-    
-    let prompt = isCN 
-      ? `根据[${scene}]，生成一张具有凝聚力的[${layout}]网格图像，包含在同一环境中的[${numShots}]个不同摄像机镜头，严格保持人物/物体、服装和光线的一致性，8K分辨率，${aspectRatio} 画幅，\n`
-      : `Based on [${scene}], generate a cohesive [${layout}] grid image featuring [${numShots}] different camera shots in the same environment, strictly maintaining consistency in character/object, clothing, and lighting, 8K resolution, ${aspectRatio} aspect ratio,\n`;
+  const runReview = async (rendered: ConsistencyReviewRequest['rendered']) => {
+    if (!result) return;
+    const sceneId = activeScene.id;
+    setReviewing(true);
+    try {
+      const outcome = await reviewConsistency(provider, {
+        rendered,
+        result,
+        images,
+        assets: sceneAssets,
+        selectedShots,
+        layout,
+        aspectRatio
+      });
+      setReview({ sceneId, review: outcome, fixed: [] });
+    } catch (error) {
+      console.error("Failed to review consistency", error);
+      alertFailure(t('error.review'), error);
+    } finally {
+      setReviewing(false);
+    }
+  };
 
-    result.shots.forEach((shot, idx) => {
-      const desc = isCN ? shot.description.cn : shot.description.en;
-      prompt += `${isCN ? '镜头' : 'Shot'} ${String(idx + 1).padStart(2, '0')}: ${desc}\n`;
-    });
+  const applyReviewFix = async (shot: ShotReview) => {
+    const fix = shot.fix || shot.issues.join(' ');
+    if (await handleSingleShotRegenerate(shot.shotId - 1, fix)) {
+      setReview(prev => prev && { ...prev, fixed: [...prev.fixed, shot.shotId] });
+    }
+  };
 
-    return prompt;
+  const handleRestoreVersion = (index: number, version: ShotVersion) => {
+    setResult(prev => prev && replaceShotDescription(prev, index + 1, version.description));
+    handleShotChange(index, version.spec);
+    setHistoryShotIndex(null);
   };
 
+  // Keeps the other languages of a hand-edited text in step with the edited one
+  const syncText = async (target: TextTarget, from: LocaleCode, text: string) => {
+    const key = textTargetKey(target);
+    setSyncingTexts(prev => [...prev, key]);
+    try {
+      const translated = await provider.translate(text, from, languages);
+      setResult(prev => {
+        const current = prev && getText(prev, target);
+        // A newer edit replaced this text while it was being translated
+        if (!prev || !current || current.text[from] !== text) return prev;
+        return setText(prev, target, translated, { edited: true });
+      });
+      if (target.kind === 'shot') {
+        const index = target.id - 1;
+        setShotHistory(prev => addShotVersion(prev, index, createShotVersion(translated, selectedShots[index] || createShotSpec(), 'edited')));
+      }
+    } catch (error) {
+      console.error("Failed to translate edited text", error);
+    } finally {
+      setSyncingTexts(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  const handleEditText = (target: TextTarget, text: string) => {
+    const current = result && getText(result, target);
+    if (!current) return;
+    setResult(prev => prev && setText(prev, target, { ...current.text, [language]: text }, { edited: true, pendingSync: language }));
+    if (target.kind === 'scene') setEditedSceneId(activeScene.id);
+    syncText(target, language, text);
+  };
+
+  const handleResync = (target: TextTarget) => {
+    const current = result && getText(result, target);
+    const from = current?.marks?.pendingSync;
+    if (current && from) syncText(target, from, textIn(current.text, from));
+  };
+
+  // Rewrites the shots against a hand-edited scene description; hand-edited shots are kept
+  const propagateScenePrompt = async () => {
+    if (!result) return;
+    setEditedSceneId(null);
+    setPropagating(true);
+    let updated = result;
+    try {
+      for (const shot of result.shots) {
+        if (shot.marks?.edited) continue;
+        const index = shot.id - 1;
+        const spec = selectedShots[index] || createShotSpec();
+        const description = await provider.regenerateShot(result.scenePrompt, shot.id, spec, languages, shotAssetsAt(index), undefined, style);
+        updated = replaceShotDescription(updated, shot.id, description);
+        setResult(prev => prev && replaceShotDescription(prev, shot.id, description));
+        setShotHistory(prev => addShotVersion(prev, index, createShotVersion(description, spec, 'regenerated')));
+      }
+    } catch (error) {
+      console.error("Failed to update shots from the scene description", error);
+      alertFailure(t('error.propagate'), error);
+    } finally {
+      setPropagating(false);
+    }
+    if (autoRefreshTransitions) {
+      updated.transitions.filter(trans => trans.stale).forEach(trans => handleTransitionRegenerate(trans.fromShot, updated));
+    }
+  };
+
+  // `source` and `specs` let a just-changed result be used before the state update lands
+  const handleTransitionRegenerate = async (
+    fromShot: number,
+    source: StoryboardResult | null = result,
+    specs: ShotSpec[] = selectedShots
+  ) => {
+    if (!source) return;
+    const endpoint = (id: number): TransitionShot | undefined => {
+      const shot = source.shots.find(s => s.id === id);
+      return shot && { id, description: shot.description, spec: specs[id - 1] || createShotSpec() };
+    };
+    const from = endpoint(fromShot);
+    const to = endpoint(fromShot + 1);
+    if (!from || !to) return;
+
+    setRegeneratingTransitions(prev => [...prev, fromShot]);
+    try {
+      const prompt = await provider.regenerateTransition(source.scenePrompt, from, to, languages);
+      setResult(prev => prev && replaceTransitionPrompt(prev, fromShot, prompt));
+    } catch (error) {
+      console.error("Failed to regenerate transition", error);
+      alertFailure(t('error.regenerateTransition', { shot: fromShot }), error);
+    } finally {
+      setRegeneratingTransitions(prev => prev.filter(id => id !== fromShot));
+    }
+  };
+
+  // Shots can't be rearranged while a request may still write to one of them by position
+  const shotsLocked = isGenerating || propagating || repairing || regeneratingShotId !== null
+    || regeneratingTransitions.length > 0 || syncingTexts.length > 0;
+
+  // Applies a reorder, insert or delete to the active scene (see services/shotOrder.ts)
+  const rearrangeShots = (change: (scene: StoryboardScene) => StoryboardScene) => {
+    if (shotsLocked) return;
+    const updated = change(activeScene);
+    if (updated === activeScene || !updated.result) return;
+    setScenes(prev => prev.map(scene => scene.id === updated.id ? updated : scene));
+    setHistoryShotIndex(null);
+    // Review entries are by shot number, which no longer matches
+    setReview(null);
+    if (autoRefreshTransitions) {
+      const source = updated.result;
+      // An inserted shot has no description to write a transition from yet
+      const written = (id: number) => !!source.shots[id - 1]?.description.en.trim();
+      source.transitions
+        .filter(trans => trans.stale && written(trans.fromShot) && written(trans.toShot))
+        .forEach(trans => handleTransitionRegenerate(trans.fromShot, source, updated.selectedShots));
+    }
+  };
+
+  const dropShot = (index: number) => {
+    if (draggedShot !== null && draggedShot !== index) {
+      const from = draggedShot;
+      rearrangeShots(scene => moveShot(scene, from, index, languages));
+    }
+    setDraggedShot(null);
+    setShotDropTarget(null);
+  };
+
+  const handleRepair = async () => {
+    if (!validation) return;
+
+    setRepairing(true);
+    try {
+      const repaired = await repairStoryboard(provider, validation, selectedShots, aspectRatio, languages, sceneAssets, script);
+      setResult(repaired.normalized);
+      setShotHistory(prev => addResultVersions(prev, repaired.normalized, selectedShots, 'generated'));
+      if (repaired.issues.length === 0) {
+        setStatus({ step: 'completed', message: t('status.repaired') });
+      }
+    } catch (error) {
+      console.error("Failed to repair storyboard", error);
+      alertFailure(t('error.repair'), error);
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  const finalPrompt = result
+    ? renderPromptTemplate(promptTemplate, { result, layout, aspectRatio, language, style })
+    : null;
+
   const copyToClipboard = () => {
-    const text = getFinalPrompt();
-    navigator.clipboard.writeText(text).then(() => {
+    if (!finalPrompt) return;
+    navigator.clipboard.writeText(finalPrompt.prompt).then(() => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     });
   };
 
+  const copyNegativePrompt = () => {
+    if (!finalPrompt) return;
+    navigator.clipboard.writeText(finalPrompt.negative).then(() => {
+      setCopiedNegative(true);
+      setTimeout(() => setCopiedNegative(false), 2000);
+    });
+  };
+
   const copyTransitionPrompt = (text: string, id: number) => {
     navigator.clipboard.writeText(text).then(() => {
       setCopiedTransitionId(id);
@@ -151,33 +883,228 @@ const App: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent flex items-center gap-2">
             <Camera className="w-8 h-8 text-blue-400" />
-            AI Storyboard Master
+            {t('app.title')}
           </h1>
-          <p className="text-slate-400 mt-1">Generate consistent Midjourney-style storyboard prompts from your images.</p>
+          <p className="text-slate-400 mt-1">{t('app.tagline')}</p>
         </div>
         <div className="flex items-center gap-2">
+           <input
+             value={projectInfo.name}
+             onChange={(e) => setProjectInfo(info => ({ ...info, name: e.target.value }))}
+             title={t('header.projectName')}
+             className="w-44 px-3 py-2 bg-slate-900 rounded-lg border border-slate-800 focus:border-blue-500 text-sm text-slate-200"
+           />
+           <button
+             onClick={handleUndo}
+             disabled={isGenerating || undoHistory.past.length === 0}
+             title={t('header.undo')}
+             className="p-2.5 bg-slate-900 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-slate-900 rounded-lg transition-colors border border-slate-800"
+           >
+             <Undo2 className="w-4 h-4" />
+           </button>
+           <button
+             onClick={handleRedo}
+             disabled={isGenerating || undoHistory.future.length === 0}
+             title={t('header.redo')}
+             className="p-2.5 bg-slate-900 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-slate-900 rounded-lg transition-colors border border-slate-800"
+           >
+             <Redo2 className="w-4 h-4" />
+           </button>
            <button 
-             onClick={() => setLanguage(l => l === 'en' ? 'cn' : 'en')}
+             onClick={() => setShowProjects(true)}
+             title={t('header.projectsTitle')}
              className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors border border-slate-800"
            >
-             <Globe className="w-4 h-4" />
-             {language === 'cn' ? '切换英文 (EN)' : 'Switch to Chinese (CN)'}
+             <FolderOpen className="w-4 h-4" />
+             {t('header.projects')}
+           </button>
+           <label
+             title={t('header.importTitle', { extension: FILE_EXTENSION })}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors border border-slate-800 cursor-pointer"
+           >
+             <Upload className="w-4 h-4" />
+             {t('header.import')}
+             <input type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+           </label>
+           <button 
+             onClick={() => downloadProjectFile(currentProject(), library)}
+             title={t('header.exportTitle', { extension: FILE_EXTENSION })}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors border border-slate-800"
+           >
+             <Download className="w-4 h-4" />
+             {t('header.export')}
+           </button>
+           <button
+             onClick={() => setShowUsage(v => !v)}
+             title={t('header.usageTitle')}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors border border-slate-800"
+           >
+             <BarChart3 className="w-4 h-4" />
+             {t('header.usage')}
+           </button>
+           <button
+             onClick={() => setShowCache(v => !v)}
+             title={t('header.cacheTitle')}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors border border-slate-800"
+           >
+             <Database className="w-4 h-4" />
+             {t('header.cache')}
+           </button>
+           <button 
+             onClick={() => setShowSettings(v => !v)}
+             title={t('header.providerTitle')}
+             className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors border border-slate-800"
+           >
+             <Settings2 className="w-4 h-4" />
+             {PROVIDERS[providerSettings.provider].label}
            </button>
+           <label
+             title={t('header.uiLanguage')}
+             className="flex items-center gap-2 px-3 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors border border-slate-800"
+           >
+             <Globe className="w-4 h-4" />
+             <select
+               value={uiLocale}
+               onChange={(e) => setUiLocale(e.target.value as LocaleCode)}
+               className="bg-transparent text-sm text-slate-200 focus:outline-none"
+             >
+               {LOCALE_CODES.map(code => (
+                 <option key={code} value={code} className="bg-slate-900">{LocaleLabels[code].native}</option>
+               ))}
+             </select>
+           </label>
         </div>
       </header>
 
+      {showReview && result && (
+        <ConsistencyReviewPanel
+          review={sceneReview?.review ?? null}
+          fixed={sceneReview?.fixed ?? []}
+          frames={frames}
+          reviewing={reviewing}
+          fixingShotId={regeneratingShotId === null ? null : regeneratingShotId + 1}
+          uiLocale={uiLocale}
+          onRun={runReview}
+          onFix={applyReviewFix}
+          onClose={() => setShowReview(false)}
+          t={t}
+        />
+      )}
+
+      {showSlicer && (
+        <GridSlicer
+          layout={layout}
+          quality={imageSettings.quality}
+          onApply={(sliced) => {
+            setFrames(sliced);
+            setShowSlicer(false);
+          }}
+          onClose={() => setShowSlicer(false)}
+          t={t}
+        />
+      )}
+
+      {historyShotIndex !== null && result?.shots[historyShotIndex] && (
+        <ShotHistoryPanel
+          shotId={historyShotIndex + 1}
+          versions={shotHistory[historyShotIndex] || []}
+          current={result.shots[historyShotIndex].description}
+          language={language}
+          uiLocale={uiLocale}
+          t={t}
+          onRestore={(version) => handleRestoreVersion(historyShotIndex, version)}
+          onClose={() => setHistoryShotIndex(null)}
+        />
+      )}
+
+      {showProjects && (
+        <ProjectBrowser
+          currentProjectId={projectInfo.id}
+          onOpen={switchProject}
+          onNew={() => switchProject(createProject())}
+          onDeleted={(id) => {
+            if (id === projectInfo.id) applyProject(createProject());
+          }}
+          onRenamed={(project) => {
+            if (project.id === projectInfo.id) setProjectInfo(info => ({ ...info, name: project.name }));
+          }}
+          onClose={() => setShowProjects(false)}
+          uiLocale={uiLocale}
+          t={t}
+        />
+      )}
+
+      <SequenceEditor
+        scenes={scenes}
+        activeSceneId={activeScene.id}
+        sceneTransitions={sceneTransitions}
+        language={language}
+        generatingTransitionIndex={generatingTransitionIndex}
+        onSelect={selectScene}
+        onAdd={addScene}
+        onRename={renameScene}
+        onDelete={deleteScene}
+        onMove={moveScene}
+        onGenerateTransition={handleGenerateSceneTransition}
+        onGenerateAllTransitions={handleGenerateAllSceneTransitions}
+        onExportShotList={exportShotList}
+        t={t}
+      />
+
+      {showUsage && (
+        <UsagePanel
+          usage={usage}
+          uiLocale={uiLocale}
+          onReset={() => setUsage([])}
+          onClose={() => setShowUsage(false)}
+          t={t}
+        />
+      )}
+
+      {showCache && (
+        <CachePanel
+          uiLocale={uiLocale}
+          language={language}
+          onClose={() => setShowCache(false)}
+          t={t}
+        />
+      )}
+
+      {showSettings && (
+        <ProviderSettingsPanel
+          settings={providerSettings}
+          onChange={setProviderSettings}
+          onClose={() => setShowSettings(false)}
+          t={t}
+        />
+      )}
+
       <main className="grid grid-cols-1 lg:grid-cols-12 gap-8">
         {/* Left Column: Upload & Config */}
         <div className="lg:col-span-5 space-y-6">
-          <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
+          <section
+            onDragOver={(e) => {
+              // A result card being reordered is not a reference
+              if (draggedShot !== null) return;
+              e.preventDefault();
+              setDraggingImages(true);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDraggingImages(false);
+            }}
+            onDrop={handleImageDrop}
+            className={`bg-slate-900/50 p-6 rounded-2xl border space-y-4 transition-colors ${
+              draggingImages ? 'border-blue-400 bg-blue-500/5' : 'border-slate-800'
+            }`}
+          >
             <h2 className="text-xl font-semibold flex items-center gap-2">
               <ImageIcon className="w-5 h-5 text-blue-400" />
-              1. Reference Images
+              {t('references.title')}
             </h2>
             <div className="flex flex-wrap gap-4">
               {images.map((img, i) => (
                 <div key={i} className="relative group w-24 h-24 rounded-lg overflow-hidden border border-slate-700">
-                  <img src={img} alt={`Ref ${i}`} className="w-full h-full object-cover" />
+                  <img src={img} alt={t('references.alt', { number: i + 1 })} className="w-full h-full object-cover" />
                   <button 
                     onClick={() => removeImage(i)}
                     className="absolute top-1 right-1 p-1 bg-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
@@ -187,91 +1114,158 @@ const App: React.FC = () => {
                 </div>
               ))}
               <label className="w-24 h-24 flex flex-col items-center justify-center border-2 border-dashed border-slate-700 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-slate-800/50 transition-all">
-                <span className="text-xs text-slate-400">Upload</span>
-                <input type="file" multiple accept="image/*" onChange={handleImageUpload} className="hidden" />
+                {preparingImages
+                  ? <RefreshCcw className="w-4 h-4 text-slate-400 animate-spin" />
+                  : <span className="text-xs text-slate-400">{t('references.upload')}</span>}
+                <input type="file" multiple accept="image/*" onChange={handleImageUpload} disabled={preparingImages} className="hidden" />
               </label>
             </div>
-            <p className="text-xs text-slate-500 italic">Upload images of your character, outfit, or environment.</p>
+            <ImageWarnings warnings={imageWarnings} settings={imageSettings} onDismiss={() => setImageWarnings([])} t={t} />
+            <p className="text-xs text-slate-500 italic">
+              {draggingImages ? t('references.drop') : preparingImages ? t('images.preparing') : t('references.hint')}
+            </p>
+            <ImageSettingsEditor settings={imageSettings} onChange={setImageSettings} t={t} />
           </section>
 
+          <ScriptInput script={script} disabled={isGenerating} onChange={setScript} t={t} />
+
+          <AssetBible
+            library={library}
+            sceneAssetIds={assetIds}
+            language={uiLocale}
+            imageSettings={imageSettings}
+            onToggleInScene={toggleSceneAsset}
+            onSave={handleSaveAsset}
+            onDelete={handleDeleteAsset}
+            t={t}
+          />
+
           <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
             <h2 className="text-xl font-semibold flex items-center gap-2">
               <Sparkles className="w-5 h-5 text-purple-400" />
-              2. Storyboard Settings
+              {t('settings.title')}
             </h2>
 
+            <div className="space-y-2 pb-2 border-b border-slate-800">
+              <label className="text-xs text-slate-400 font-medium flex items-center gap-1">
+                <Globe className="w-3 h-3" /> {t('settings.outputLanguages')}
+              </label>
+              <div className="flex flex-wrap gap-3">
+                {LOCALE_CODES.map(code => (
+                  <label key={code} className="flex items-center gap-1.5 text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={languages.includes(code)}
+                      disabled={code === 'en' || isGenerating}
+                      onChange={() => toggleLanguage(code)}
+                      className="accent-blue-500"
+                    />
+                    {LocaleLabels[code].native}
+                  </label>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500">{t('settings.outputLanguagesHint')}</p>
+            </div>
+
+            <StylePicker style={style} uiLocale={uiLocale} onChange={setStyle} t={t} />
+
             {/* Layout & Ratio Selectors */}
             <div className="grid grid-cols-2 gap-4 pb-2 border-b border-slate-800 mb-2">
+               <LayoutPicker layout={layout} onChange={handleLayoutChange} t={t} />
                <div className="space-y-2">
                  <label className="text-xs text-slate-400 font-medium flex items-center gap-1">
-                   <Grid className="w-3 h-3" /> Grid Layout
-                 </label>
-                 <select 
-                   value={layout}
-                   onChange={(e) => handleLayoutChange(e.target.value as GridLayout)}
-                   className="w-full bg-slate-950 text-sm p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200"
-                 >
-                   <option value="3x3">3x3 (9 Shots)</option>
-                   <option value="2x2">2x2 (4 Shots)</option>
-                 </select>
-               </div>
-               <div className="space-y-2">
-                 <label className="text-xs text-slate-400 font-medium flex items-center gap-1">
-                   <LayoutTemplate className="w-3 h-3" /> Aspect Ratio
+                   <LayoutTemplate className="w-3 h-3" /> {t('settings.aspectRatio')}
                  </label>
                  <select 
                    value={aspectRatio}
                    onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
                    className="w-full bg-slate-950 text-sm p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200"
                  >
-                   <option value="16:9">16:9 (Cinematic)</option>
-                   <option value="9:16">9:16 (Portrait)</option>
-                   <option value="4:3">4:3 (TV)</option>
-                   <option value="3:4">3:4 (Poster)</option>
-                   <option value="1:1">1:1 (Square)</option>
+                   <option value="16:9">16:9 ({t('aspect.cinematic')})</option>
+                   <option value="9:16">9:16 ({t('aspect.portrait')})</option>
+                   <option value="4:3">4:3 ({t('aspect.tv')})</option>
+                   <option value="3:4">3:4 ({t('aspect.poster')})</option>
+                   <option value="1:1">1:1 ({t('aspect.square')})</option>
                  </select>
                </div>
             </div>
 
-            <div className={`grid gap-3 ${layout === '3x3' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            <ShotPresetPicker layout={layout} shots={selectedShots} onApply={setSelectedShots} uiLocale={uiLocale} t={t} />
+
+            <div className={`grid gap-3 ${gridColumnsClass(parseLayout(layout).columns)}`}>
               {selectedShots.map((shot, i) => (
                 <div key={i} className="space-y-1">
-                  <label className="text-[10px] text-slate-500 uppercase tracking-wider font-bold">Shot {i+1}</label>
-                  <select 
-                    value={shot}
-                    onChange={(e) => handleShotChange(i, e.target.value as ShotSize)}
-                    className="w-full bg-slate-950 text-xs p-2 rounded border border-slate-800 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-slate-300"
-                  >
-                    {Object.values(ShotSize).map(size => (
-                      <option key={size} value={size}>
-                        {language === 'cn' ? ShotSizeLabels[size].cn : ShotSizeLabels[size].en}
-                      </option>
-                    ))}
-                  </select>
+                  <label className="text-[10px] text-slate-500 uppercase tracking-wider font-bold">{t('settings.shot', { number: i + 1 })}</label>
+                  <ShotSpecEditor
+                    spec={shot}
+                    language={uiLocale}
+                    onChange={(spec) => handleShotChange(i, spec)}
+                    t={t}
+                  />
+                  {sceneAssets.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {sceneAssets.map(asset => (
+                        <button
+                          key={asset.id}
+                          onClick={() => toggleShotAsset(i, asset.id)}
+                          title={t('settings.shotAsset', { name: asset.name, number: i + 1 })}
+                          className={`px-1.5 py-0.5 rounded text-[10px] border transition-colors max-w-full truncate ${
+                            shotAssets[i]?.includes(asset.id)
+                              ? 'bg-blue-600/30 border-blue-500 text-blue-200'
+                              : 'border-slate-800 text-slate-500 hover:text-slate-300'
+                          }`}
+                        >
+                          {asset.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
             <button 
-              disabled={status.step === 'analyzing' || images.length === 0}
-              onClick={generateStoryboard}
+              disabled={isGenerating || (referenceCount === 0 && !script.trim())}
+              onClick={() => generateStoryboard()}
               className={`w-full py-4 rounded-xl font-bold flex items-center justify-center gap-2 transition-all ${
-                status.step === 'analyzing' 
+                isGenerating 
                 ? 'bg-slate-800 cursor-not-allowed text-slate-500' 
                 : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white shadow-lg hover:shadow-blue-500/25'
               }`}
             >
-              {status.step === 'analyzing' ? (
+              {isGenerating ? (
                 <>
                   <RefreshCcw className="w-5 h-5 animate-spin" />
-                  Generating...
+                  {t('settings.generating')}
                 </>
               ) : (
                 <>
                   <Sparkles className="w-5 h-5" />
-                  Generate Storyboard Prompt
+                  {t('settings.generate')}
                 </>
               )}
             </button>
+            {isGenerating && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+                  <span>{status.message}</span>
+                  <button
+                    onClick={cancelGeneration}
+                    className="flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-red-600 rounded border border-slate-700 text-slate-300 hover:text-white transition-colors"
+                  >
+                    <X className="w-3 h-3" />
+                    {t('common.cancel')}
+                  </button>
+                </div>
+                {status.progress && status.progress.total > 0 && (
+                  <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${Math.round(status.progress.completed / status.progress.total * 100)}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
           </section>
 
           {status.step === 'error' && (
@@ -279,6 +1273,68 @@ const App: React.FC = () => {
               {status.message}
             </div>
           )}
+
+          {cacheHit && !isGenerating && (
+            <div className="p-4 bg-blue-900/20 border border-blue-500/50 rounded-xl text-blue-200 text-sm space-y-3">
+              <div className="flex items-start gap-2">
+                <Database className="w-4 h-4 mt-0.5 shrink-0" />
+                <p className="flex-1">{t('cache.hit', { date: new Date(cacheHit.createdAt).toLocaleString(LOCALE_TAGS[uiLocale]) })}</p>
+                <button onClick={() => setCacheHit(null)} className="p-0.5 hover:bg-blue-900/40 rounded text-blue-300" title={t('common.dismiss')}>
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => applyCachedResult(cacheHit)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-xs font-medium"
+                >
+                  <Check className="w-3 h-3" />
+                  {t('cache.use')}
+                </button>
+                <button
+                  onClick={() => generateStoryboard(true)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 text-slate-200 text-xs font-medium"
+                >
+                  <Sparkles className="w-3 h-3" />
+                  {t('cache.fresh')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!isGenerating && validation && validation.issues.length > 0 && (
+            <div className="p-4 bg-amber-900/20 border border-amber-500/50 rounded-xl text-amber-300 text-sm space-y-3">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <div className="space-y-1">
+                  <p className="font-semibold">{t('partial.title')}</p>
+                  {validation.sceneMissing && <p>{t('partial.sceneMissing')}</p>}
+                  {validation.missingShotIds.length > 0 && (
+                    <p>{t('partial.missingShots', { shots: validation.missingShotIds.join(', ') })}</p>
+                  )}
+                  {validation.missingTransitions.length > 0 && (
+                    <p>{t('partial.missingTransitions', { transitions: validation.missingTransitions.map(from => `${from}→${from + 1}`).join(', ') })}</p>
+                  )}
+                </div>
+              </div>
+              <details className="text-xs text-amber-200/70">
+                <summary className="cursor-pointer">{t('partial.issues', { count: validation.issues.length })}</summary>
+                <ul className="mt-2 space-y-1 font-mono">
+                  {validation.issues.map((issue, i) => (
+                    <li key={i}>{issue.path}: {issue.message}</li>
+                  ))}
+                </ul>
+              </details>
+              <button
+                onClick={handleRepair}
+                disabled={repairing}
+                className="flex items-center gap-2 px-3 py-1.5 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 rounded text-white text-xs font-medium transition-all"
+              >
+                {repairing ? <RefreshCcw className="w-3.5 h-3.5 animate-spin" /> : <Wrench className="w-3.5 h-3.5" />}
+                {t('partial.repair')}
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Right Column: Result */}
@@ -287,61 +1343,328 @@ const App: React.FC = () => {
             {/* Main Prompt Section */}
             <div className="space-y-4">
               <div className="flex items-center justify-between border-b border-slate-800 pb-4">
-                <h2 className="text-xl font-semibold">Generated Prompt Output</h2>
-                {result && (
-                  <button 
-                    onClick={copyToClipboard}
-                    className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded text-sm font-medium transition-all"
+                <h2 className="text-xl font-semibold">{t('output.title')}</h2>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={language}
+                    onChange={(e) => setOutputLanguage(e.target.value as LocaleCode)}
+                    title={t('output.language')}
+                    className="bg-slate-900 text-sm p-1.5 rounded border border-slate-700 focus:border-blue-500 text-slate-300"
+                  >
+                    {languages.map(code => (
+                      <option key={code} value={code}>{LocaleLabels[code].native}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={promptTemplate.id}
+                    onChange={(e) => setTemplateSettings(settings => ({ ...settings, target: e.target.value }))}
+                    title={t('output.target')}
+                    className="bg-slate-900 text-sm p-1.5 rounded border border-slate-700 focus:border-blue-500 text-slate-300"
+                  >
+                    {templateSettings.templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setShowTemplates(show => !show)}
+                    title={t('output.editTemplates')}
+                    className={`p-2 rounded border border-slate-700 transition-colors ${showTemplates ? 'bg-blue-600 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
                   >
-                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                    {copied ? 'Copied!' : 'Copy Prompt'}
+                    <FileCode2 className="w-4 h-4" />
                   </button>
-                )}
+                  {finalPrompt && (
+                    <button 
+                      onClick={copyToClipboard}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded text-sm font-medium transition-all"
+                    >
+                      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      {copied ? t('output.copied') : t('output.copyFor', { name: promptTemplate.name })}
+                    </button>
+                  )}
+                </div>
               </div>
 
-              {result ? (
+              {showTemplates && (
+                <PromptTemplatePanel
+                  settings={templateSettings}
+                  language={language}
+                  onChange={setTemplateSettings}
+                  onClose={() => setShowTemplates(false)}
+                  t={t}
+                />
+              )}
+
+              {result && finalPrompt ? (
                 <div className="flex-grow overflow-auto">
                   <pre className="text-sm text-slate-300 whitespace-pre-wrap font-mono leading-relaxed bg-slate-950/50 p-4 rounded-xl border border-slate-800">
-                    {getFinalPrompt()}
+                    {finalPrompt.prompt}
                   </pre>
+                  {finalPrompt.truncated && (
+                    <p className="mt-2 text-xs text-amber-400 flex items-center gap-1.5">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {t('output.truncated', { limit: promptTemplate.maxLength ?? 0, name: promptTemplate.name })}
+                    </p>
+                  )}
+                  {finalPrompt.negative && (
+                    <div className="mt-4 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-semibold text-slate-400 uppercase">{t('output.negative')}</span>
+                        <button
+                          onClick={copyNegativePrompt}
+                          className="text-xs flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 transition-colors"
+                        >
+                          {copiedNegative ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
+                          {copiedNegative ? t('common.copied') : t('common.copy')}
+                        </button>
+                      </div>
+                      <pre className="text-sm text-slate-400 whitespace-pre-wrap font-mono bg-slate-950/50 p-3 rounded-xl border border-slate-800">
+                        {finalPrompt.negative}
+                      </pre>
+                    </div>
+                  )}
                   
+                  {/* Scene Description */}
+                  <div className="mt-8 space-y-3">
+                    <h3 className="text-lg font-medium text-slate-100 border-l-4 border-blue-500 pl-3">{t('output.scene')}</h3>
+                    <div className="p-4 bg-slate-950/40 rounded-lg border border-slate-800/50">
+                      <EditableText
+                        value={textIn(result.scenePrompt, language)}
+                        marks={result.sceneMarks}
+                        syncing={syncingTexts.includes('scene')}
+                        disabled={isGenerating || propagating}
+                        className="text-sm text-slate-300 leading-relaxed"
+                        onSave={(text) => handleEditText({ kind: 'scene' }, text)}
+                        onResync={() => handleResync({ kind: 'scene' })}
+                        t={t}
+                      />
+                    </div>
+                    {(editedSceneId === activeScene.id || propagating) && (
+                      <div className="p-3 bg-blue-900/20 border border-blue-500/40 rounded-lg text-sm text-blue-200 flex flex-wrap items-center justify-between gap-2">
+                        <span>{t('output.sceneEdited')}</span>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => setEditedSceneId(null)}
+                            disabled={propagating}
+                            className="px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-xs transition-colors"
+                          >
+                            {t('common.dismiss')}
+                          </button>
+                          <button
+                            onClick={propagateScenePrompt}
+                            disabled={propagating || syncingTexts.includes('scene')}
+                            className="flex items-center gap-1 px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded text-white text-xs transition-colors"
+                          >
+                            <RefreshCcw className={`w-3 h-3 ${propagating ? 'animate-spin' : ''}`} />
+                            {t('output.updateShots')}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Visual Breakdown */}
                   <div className="mt-8 space-y-6">
-                    <div className="flex items-center justify-between">
-                      <h3 className="text-lg font-medium text-slate-100 border-l-4 border-blue-500 pl-3">Visual Breakdown & Tuning</h3>
-                      <p className="text-xs text-slate-500">Change shot size and click refresh to update description</p>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <h3 className="text-lg font-medium text-slate-100 border-l-4 border-blue-500 pl-3">{t('output.breakdown')}</h3>
+                      <div className="flex items-center gap-2">
+                        <p className="text-xs text-slate-500">{t('output.breakdownHint')}</p>
+                        {framingSuggestions.length > 0 && (
+                          <button
+                            onClick={() => applyFramingSuggestions(framingSuggestions.map(s => s.index))}
+                            disabled={isGenerating}
+                            title={t('script.applyAllTitle')}
+                            className="text-xs flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded border border-slate-700 transition-colors"
+                          >
+                            <Clapperboard className="w-3 h-3" />
+                            {t('script.applyAll', { count: framingSuggestions.length })}
+                          </button>
+                        )}
+                        {hasFrames && (
+                          <button
+                            onClick={() => confirm(t('frames.confirmClear')) && setFrames(prev => prev.map(() => ''))}
+                            className="text-xs flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 transition-colors"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                            {t('frames.clear')}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setShowReview(true)}
+                          disabled={isGenerating}
+                          title={t('review.openTitle')}
+                          className="text-xs flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded border border-slate-700 transition-colors"
+                        >
+                          <ScanEye className="w-3 h-3" />
+                          {t('review.open')}
+                        </button>
+                        <button
+                          onClick={() => setShowSlicer(true)}
+                          disabled={isGenerating}
+                          title={t('frames.importTitle')}
+                          className="text-xs flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded border border-slate-700 transition-colors"
+                        >
+                          <Scissors className="w-3 h-3" />
+                          {t('frames.import')}
+                        </button>
+                      </div>
                     </div>
                     
-                    <div className={`grid gap-4 ${layout === '3x3' ? 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3' : 'grid-cols-1 md:grid-cols-2'}`}>
+                    <div className={`grid gap-4 ${resultGridClass(parseLayout(layout).columns)}`}>
                       {result.shots.map((shot, i) => (
-                        <div key={i} className="p-4 bg-slate-950/40 rounded-lg border border-slate-800/50 flex flex-col gap-3 group hover:border-blue-500/30 transition-all">
+                        <div
+                          key={i}
+                          data-shot-card
+                          onDragOver={(e) => {
+                            if (draggedShot === null) return;
+                            e.preventDefault();
+                            e.dataTransfer.dropEffect = 'move';
+                            setShotDropTarget(i);
+                          }}
+                          onDragLeave={() => setShotDropTarget(target => target === i ? null : target)}
+                          onDrop={(e) => {
+                            if (draggedShot === null) return;
+                            e.preventDefault();
+                            dropShot(i);
+                          }}
+                          className={`p-4 bg-slate-950/40 rounded-lg border flex flex-col gap-3 group hover:border-blue-500/30 transition-all ${
+                            shotDropTarget === i && draggedShot !== i ? 'border-blue-500 ring-1 ring-blue-500/50' : 'border-slate-800/50'
+                          } ${draggedShot === i ? 'opacity-40' : ''}`}
+                        >
                           <div className="flex items-center justify-between">
-                            <span className="text-xs font-bold text-blue-400 uppercase">Shot {i+1}</span>
+                            <div className="flex items-center gap-1.5">
+                              <span
+                                draggable={!shotsLocked}
+                                onDragStart={(e) => {
+                                  e.dataTransfer.effectAllowed = 'move';
+                                  e.dataTransfer.setData('text/plain', String(i + 1));
+                                  const card = e.currentTarget.closest('[data-shot-card]');
+                                  if (card) e.dataTransfer.setDragImage(card, 16, 16);
+                                  setDraggedShot(i);
+                                }}
+                                onDragEnd={() => {
+                                  setDraggedShot(null);
+                                  setShotDropTarget(null);
+                                }}
+                                title={t('output.dragShot')}
+                                className={shotsLocked ? 'text-slate-700' : 'cursor-grab text-slate-500 hover:text-slate-300'}
+                              >
+                                <GripVertical className="w-3.5 h-3.5" />
+                              </span>
+                              <span className="text-xs font-bold text-blue-400 uppercase">{t('output.shot', { number: i + 1 })}</span>
+                              {sceneReview?.review.shots.some(entry => entry.shotId === shot.id && isLowScoring(entry)) && !sceneReview.fixed.includes(shot.id) && (
+                                <button
+                                  onClick={() => setShowReview(true)}
+                                  title={t('review.flaggedTitle')}
+                                  className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-900/40 text-[10px] font-medium text-amber-300"
+                                >
+                                  <ScanEye className="w-3 h-3" />
+                                  {t('review.flagged')}
+                                </button>
+                              )}
+                            </div>
                             <div className="flex items-center gap-2">
-                              <select 
-                                value={selectedShots[i]}
-                                onChange={(e) => handleShotChange(i, e.target.value as ShotSize)}
-                                className="bg-slate-900 text-[10px] p-1.5 rounded border border-slate-700 focus:border-blue-500 text-slate-300 max-w-[120px]"
+                              <button
+                                onClick={() => rearrangeShots(scene => insertShot(scene, i + 1, languages))}
+                                disabled={shotsLocked || !canChangeShotCount(activeScene, 1)}
+                                title={canChangeShotCount(activeScene, 1)
+                                  ? t('output.insertShot')
+                                  : t('output.shotCountUnsupported', { count: result.shots.length + 1 })}
+                                className="p-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 rounded text-slate-300 transition-colors border border-slate-700"
+                              >
+                                <Plus className="w-3.5 h-3.5" />
+                              </button>
+                              <button
+                                onClick={() => rearrangeShots(scene => deleteShot(scene, i, languages))}
+                                disabled={shotsLocked || !canChangeShotCount(activeScene, -1)}
+                                title={canChangeShotCount(activeScene, -1)
+                                  ? t('output.deleteShot')
+                                  : t('output.shotCountUnsupported', { count: result.shots.length - 1 })}
+                                className="p-1.5 bg-slate-800 hover:bg-red-600 disabled:opacity-40 disabled:hover:bg-slate-800 rounded text-slate-300 hover:text-white transition-colors border border-slate-700"
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                              <button
+                                onClick={() => setHistoryShotIndex(i)}
+                                title={t('output.history')}
+                                className="flex items-center gap-1 p-1.5 bg-slate-800 hover:bg-slate-700 rounded text-slate-300 transition-colors border border-slate-700 text-[10px]"
                               >
-                                {Object.values(ShotSize).map(size => (
-                                  <option key={size} value={size}>
-                                    {language === 'cn' ? ShotSizeLabels[size].cn : ShotSizeLabels[size].en}
-                                  </option>
-                                ))}
-                              </select>
+                                <History className="w-3.5 h-3.5" />
+                                {shotHistory[i]?.length || 0}
+                              </button>
                               <button 
                                 onClick={() => handleSingleShotRegenerate(i)}
                                 disabled={regeneratingShotId === i}
-                                title="Regenerate this shot description"
+                                title={t('output.regenerateShot')}
                                 className="p-1.5 bg-slate-800 hover:bg-blue-600 rounded text-slate-300 hover:text-white transition-colors border border-slate-700"
                               >
                                 <RefreshCcw className={`w-3.5 h-3.5 ${regeneratingShotId === i ? 'animate-spin' : ''}`} />
                               </button>
                             </div>
                           </div>
-                          <p className={`text-sm text-slate-300 transition-opacity ${regeneratingShotId === i ? 'opacity-50' : 'opacity-100'}`}>
-                            {language === 'cn' ? shot.description.cn : shot.description.en}
-                          </p>
+                          {frames[i] && (
+                            <img src={frames[i]} alt={t('output.shot', { number: i + 1 })} className="w-full rounded border border-slate-800" />
+                          )}
+                          {selectedShots[i] && (
+                            <details className="text-[10px] text-slate-400">
+                              <summary className="cursor-pointer hover:text-slate-200">{describeShotSpec(selectedShots[i], uiLocale)}</summary>
+                              <div className="mt-2">
+                                <ShotSpecEditor
+                                  spec={selectedShots[i]}
+                                  language={uiLocale}
+                                  onChange={(spec) => handleShotChange(i, spec)}
+                                  t={t}
+                                />
+                              </div>
+                            </details>
+                          )}
+                          {shotAssetsAt(i).length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {shotAssetsAt(i).map(asset => (
+                                <span key={asset.id} className="px-1.5 py-0.5 rounded bg-slate-800 text-[10px] text-slate-400">
+                                  {AssetKindLabels[asset.kind][uiLocale]}: {asset.name}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {(shot.dialogue || shot.action) && (
+                            <div className="space-y-1 px-2 py-1.5 rounded bg-slate-900/60 border-l-2 border-emerald-500/50 text-[11px]">
+                              {shot.action && <p className="text-slate-400 italic">{shot.action}</p>}
+                              {shot.dialogue && <p className="text-emerald-200/90">{shot.dialogue}</p>}
+                            </div>
+                          )}
+                          {framingSuggestions.some(s => s.index === i) && shot.framing && (
+                            <button
+                              onClick={() => applyFramingSuggestions([i])}
+                              disabled={isGenerating}
+                              title={t('script.applyTitle')}
+                              className="self-start flex items-center gap-1 px-1.5 py-0.5 rounded bg-emerald-900/30 hover:bg-emerald-900/60 text-[10px] text-emerald-300 transition-colors"
+                            >
+                              <Clapperboard className="w-3 h-3" />
+                              {t('script.suggested', { framing: ShotFramingLabels[shot.framing][uiLocale] })}
+                            </button>
+                          )}
+                          {validation?.missingShotIds.includes(shot.id) ? (
+                            isGenerating ? (
+                              <p className="text-sm text-slate-500 italic animate-pulse">{t('output.waitingShot', { number: shot.id })}</p>
+                            ) : (
+                            <p className="text-sm text-amber-400/80 italic">
+                              {t('output.missingShot')}
+                            </p>
+                            )
+                          ) : (
+                            <div className={`transition-opacity ${regeneratingShotId === i ? 'opacity-50' : 'opacity-100'}`}>
+                              <EditableText
+                                value={textIn(shot.description, language)}
+                                marks={shot.marks}
+                                syncing={syncingTexts.includes(`shot:${shot.id}`)}
+                                disabled={isGenerating || propagating || regeneratingShotId === i}
+                                className="text-sm text-slate-300"
+                                onSave={(text) => handleEditText({ kind: 'shot', id: shot.id }, text)}
+                                onResync={() => handleResync({ kind: 'shot', id: shot.id })}
+                                t={t}
+                              />
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -351,37 +1674,111 @@ const App: React.FC = () => {
                   <div className="mt-10 space-y-6">
                      <div className="flex items-center gap-2 border-b border-slate-800 pb-2 mb-4">
                        <Film className="w-5 h-5 text-purple-400" />
-                       <h3 className="text-lg font-medium text-slate-100">Video Generation Prompts (Img 2 Video)</h3>
+                       <h3 className="text-lg font-medium text-slate-100">{t('output.transitions')}</h3>
+                       {hasFrames && (
+                         <button
+                           onClick={downloadFrames}
+                           title={t('frames.downloadTitle')}
+                           className="ml-auto text-xs flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 transition-colors"
+                         >
+                           <Download className="w-3 h-3" />
+                           {t('frames.download')}
+                         </button>
+                       )}
                      </div>
                      <p className="text-sm text-slate-500 mb-4">
-                        Use these detailed prompts when generating video transitions (e.g., Luma, Runway, Veo) using Shot N as Start Frame and Shot N+1 as End Frame.
+                        {t('output.transitionsHint')}
                      </p>
+                     <label className="flex items-center gap-2 text-xs text-slate-400">
+                       <input
+                         type="checkbox"
+                         checked={autoRefreshTransitions}
+                         onChange={(e) => setAutoRefreshTransitions(e.target.checked)}
+                         className="accent-purple-500"
+                       />
+                       {t('output.autoRefresh')}
+                     </label>
                      
                      <div className="space-y-4">
                        {result.transitions?.map((trans, i) => (
                          <div key={i} className="p-4 bg-slate-900/30 rounded-xl border border-slate-800 flex flex-col gap-2">
                            <div className="flex items-center justify-between">
                              <div className="flex items-center gap-2 text-sm font-semibold text-purple-400">
-                               <span>Shot {trans.fromShot}</span>
+                               <span>{t('output.shot', { number: trans.fromShot })}</span>
                                <ArrowRight className="w-4 h-4" />
-                               <span>Shot {trans.toShot}</span>
+                               <span>{t('output.shot', { number: trans.toShot })}</span>
+                               {trans.stale && (
+                                 <span
+                                   title={t('output.outdatedTitle')}
+                                   className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-900/40 text-[10px] font-medium text-amber-300"
+                                 >
+                                   <AlertTriangle className="w-3 h-3" />
+                                   {t('output.outdated')}
+                                 </span>
+                               )}
+                             </div>
+                             <div className="flex items-center gap-2">
+                               <button
+                                 onClick={() => handleTransitionRegenerate(trans.fromShot)}
+                                 disabled={isGenerating || regeneratingTransitions.includes(trans.fromShot)}
+                                 title={t('output.regenerateTransition')}
+                                 className="p-1.5 bg-slate-800 hover:bg-purple-600 rounded text-slate-300 hover:text-white transition-colors border border-slate-700"
+                               >
+                                 <RefreshCcw className={`w-3 h-3 ${regeneratingTransitions.includes(trans.fromShot) ? 'animate-spin' : ''}`} />
+                               </button>
+                               <button 
+                                 onClick={() => copyTransitionPrompt(textIn(trans.prompt, language), i)}
+                                 className="text-xs flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 transition-colors"
+                               >
+                                 {copiedTransitionId === i ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
+                                 {copiedTransitionId === i ? t('common.copied') : t('common.copy')}
+                               </button>
                              </div>
-                             <button 
-                               onClick={() => copyTransitionPrompt(language === 'cn' ? trans.prompt.cn : trans.prompt.en, i)}
-                               className="text-xs flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 transition-colors"
-                             >
-                               {copiedTransitionId === i ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
-                               {copiedTransitionId === i ? 'Copied' : 'Copy'}
-                             </button>
                            </div>
-                           <p className="text-sm text-slate-300 leading-relaxed">
-                             {language === 'cn' ? trans.prompt.cn : trans.prompt.en}
-                           </p>
+                           {(frames[trans.fromShot - 1] || frames[trans.toShot - 1]) && (
+                             <div className="flex items-center gap-2">
+                               {[trans.fromShot, trans.toShot].map((id, end) => (
+                                 <React.Fragment key={id}>
+                                   {end === 1 && <ArrowRight className="w-4 h-4 text-slate-500 shrink-0" />}
+                                   <figure className="w-32 space-y-1">
+                                     {frames[id - 1] ? (
+                                       <img src={frames[id - 1]} alt={t('output.shot', { number: id })} className="w-full rounded border border-slate-800" />
+                                     ) : (
+                                       <div className="aspect-video rounded border border-dashed border-slate-700" />
+                                     )}
+                                     <figcaption className="text-[10px] text-slate-500">{end === 0 ? t('frames.start') : t('frames.end')}</figcaption>
+                                   </figure>
+                                 </React.Fragment>
+                               ))}
+                             </div>
+                           )}
+                           {validation?.missingTransitions.includes(trans.fromShot) ? (
+                             isGenerating ? (
+                               <p className="text-sm text-slate-500 italic animate-pulse">{t('output.waitingTransition')}</p>
+                             ) : (
+                             <p className="text-sm text-amber-400/80 italic">
+                               {t('output.missingTransition')}
+                             </p>
+                             )
+                           ) : (
+                             <div className={`transition-opacity ${regeneratingTransitions.includes(trans.fromShot) ? 'opacity-50' : 'opacity-100'}`}>
+                               <EditableText
+                                 value={textIn(trans.prompt, language)}
+                                 marks={trans.marks}
+                                 syncing={syncingTexts.includes(`transition:${trans.fromShot}`)}
+                                 disabled={isGenerating || regeneratingTransitions.includes(trans.fromShot)}
+                                 className="text-sm text-slate-300 leading-relaxed"
+                                 onSave={(text) => handleEditText({ kind: 'transition', fromShot: trans.fromShot }, text)}
+                                 onResync={() => handleResync({ kind: 'transition', fromShot: trans.fromShot })}
+                                 t={t}
+                               />
+                             </div>
+                           )}
                          </div>
                        ))}
                        {(!result.transitions || result.transitions.length === 0) && (
                          <div className="text-center text-slate-500 py-4 text-sm">
-                           No transitions generated.
+                           {t('output.noTransitions')}
                          </div>
                        )}
                      </div>
@@ -389,15 +1786,15 @@ const App: React.FC = () => {
                 </div>
               ) : (
                 <div className="flex-grow flex flex-col items-center justify-center text-slate-600 space-y-4 italic min-h-[400px]">
-                  {status.step === 'analyzing' ? (
+                  {isGenerating ? (
                     <div className="text-center">
                       <RefreshCcw className="w-12 h-12 animate-spin mx-auto mb-4 text-blue-500" />
-                      <p className="not-italic text-slate-400">AI is imagining your storyboard...</p>
+                      <p className="not-italic text-slate-400">{t('output.imagining')}</p>
                     </div>
                   ) : (
                     <>
                       <Camera className="w-16 h-16 opacity-10" />
-                      <p>Upload references and click Generate to see the magic.</p>
+                      <p>{t('output.empty')}</p>
                     </>
                   )}
                 </div>
@@ -410,7 +1807,7 @@ const App: React.FC = () => {
       {/* Footer Instructions */}
       <footer className="mt-12 p-6 bg-slate-900/50 rounded-2xl border border-slate-900 text-center">
         <p className="text-slate-500 text-sm">
-          Tip: For best results, use "--stylize 250" or "--chaos 10" in Midjourney. This tool ensures that your character and environment details stay consistent across the grid.
+          {t('app.footerTip')}
         </p>
       </footer>
     </div>
@@ -0,0 +1,247 @@
+import { mkdir, readFile, rename, writeFile, access } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { ProviderId, ProviderSettings, StoryboardRequest, UsageEntry } from "../types";
+import { PROVIDERS, createProvider, defaultProviderSettings } from "../services/providerRegistry";
+import { generateValidatedStoryboard } from "../services/storyboardPipeline";
+import { renderPromptTemplate } from "../services/promptTemplates";
+import { addUsage, totalUsage } from "../services/usage";
+import { BatchJob, JobSource, loadReferenceImages, readManifest, resolveJob, uniqueNames } from "./jobs";
+
+// Headless batch runs: `npm run batch -- <images-dir> [options]`,
+// `npm run batch -- --script scene.fountain` or `npm run batch -- --manifest jobs.json`. Each job writes into its own folder
+// under --out; a job whose result.json exists is skipped, so an interrupted
+// run picks up where it stopped when started again.
+
+const USAGE = `Usage:
+  npm run batch -- <images-dir> [options]
+  npm run batch -- --script <scene.fountain> [<images-dir>] [options]
+  npm run batch -- --manifest <jobs.json> [options]
+
+Options:
+  --out <dir>            Output folder (default: storyboards)
+  --script <file>        Scene as prose or Fountain; image folders become optional
+  --layout <RxC>         Grid layout, e.g. 3x3 (default: 3x3)
+  --aspect <ratio>       16:9, 9:16, 4:3, 3:4 or 1:1 (default: 16:9)
+  --shots <list>         Comma-separated framings or angles, e.g. "Wide Shot,Close-up"
+  --shot-preset <id>     Built-in shot sequence, e.g. dialogue-3x3
+  --style <id>           Built-in visual style, e.g. film-noir
+  --languages <list>     Output languages, e.g. en,cn (default: en,cn)
+  --template <id>        Prompt template: generic, midjourney, sdxl or dalle (default: generic)
+  --provider <id>        gemini, openai, ollama, mock or server (default: gemini)
+  --model <name>         Analysis model of the provider
+  --fast-model <name>    Model for repairs of incomplete answers
+  --base-url <url>       Endpoint of the provider, e.g. http://localhost:8787 for server
+  --concurrency <n>      Jobs run at the same time (default: 2)
+  --force                Run jobs again even if their result exists
+
+API keys are read from GEMINI_API_KEY (or API_KEY) and OPENAI_API_KEY.`;
+
+const RESULT_FILE = 'result.json';
+// Written instead of result.json when gaps remain, so the next run retries the job
+const PARTIAL_FILE = 'result.partial.json';
+const SUMMARY_FILE = 'batch-summary.json';
+
+type JobStatus = 'done' | 'partial' | 'failed' | 'skipped';
+
+interface JobOutcome {
+  name: string;
+  status: JobStatus;
+  error?: string;
+}
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+// Written next to the target and renamed, so a killed run never leaves half a file
+const writeAtomic = async (file: string, content: string) => {
+  await writeFile(`${file}.tmp`, content);
+  await rename(`${file}.tmp`, file);
+};
+
+// Runs `worker` over `items` with at most `limit` in flight
+const runPool = async <T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+};
+
+const providerSettingsFrom = (values: Record<string, string | boolean | undefined>): ProviderSettings => {
+  const settings = defaultProviderSettings();
+  // The browser defaults to the app server; the CLI holds its own key
+  const provider = (values.provider ?? 'gemini') as ProviderId;
+  if (!(provider in PROVIDERS)) {
+    throw new Error(`Unknown provider "${provider}", expected one of ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  const apiKey = provider === 'gemini'
+    ? process.env.GEMINI_API_KEY || process.env.API_KEY
+    : provider === 'openai' ? process.env.OPENAI_API_KEY : undefined;
+  const config = settings.configs[provider];
+  settings.provider = provider;
+  settings.configs[provider] = {
+    ...config,
+    model: typeof values.model === 'string' ? values.model : config.model,
+    fastModel: typeof values['fast-model'] === 'string' ? values['fast-model'] : config.fastModel,
+    baseUrl: typeof values['base-url'] === 'string' ? values['base-url'] : config.baseUrl,
+    apiKey: apiKey || config.apiKey
+  };
+  if (PROVIDERS[provider].usesApiKey && !settings.configs[provider].apiKey) {
+    throw new Error(`No API key for ${PROVIDERS[provider].label}; set ${provider === 'gemini' ? 'GEMINI_API_KEY' : 'OPENAI_API_KEY'}.`);
+  }
+  return settings;
+};
+
+const runJob = async (
+  job: BatchJob,
+  settings: ProviderSettings,
+  outDir: string,
+  force: boolean,
+  signal: AbortSignal,
+  onUsage: (usage: Omit<UsageEntry, 'requests'>) => void
+): Promise<JobOutcome> => {
+  const jobDir = path.join(outDir, job.name);
+  if (!force && await exists(path.join(jobDir, RESULT_FILE))) {
+    console.log(`- ${job.name}: already done, skipped`);
+    return { name: job.name, status: 'skipped' };
+  }
+  try {
+    const images = job.imagesDir ? await loadReferenceImages(job.imagesDir, message => console.warn(`  ${message}`)) : [];
+    const script = job.scriptFile ? await readFile(job.scriptFile, 'utf8') : '';
+    if (images.length === 0 && !script.trim()) {
+      throw new Error(job.imagesDir ? `No JPEG, PNG or WebP images in ${job.imagesDir}.` : `${job.scriptFile} is empty.`);
+    }
+    const request: StoryboardRequest = {
+      images,
+      selectedShots: job.selectedShots,
+      layout: job.layout,
+      aspectRatio: job.aspectRatio,
+      languages: job.languages,
+      style: job.style,
+      script
+    };
+    console.log(`- ${job.name}: ${images.length} reference(s)${script ? ', script' : ''}, ${job.layout}, ${job.aspectRatio}`);
+    const validation = await generateValidatedStoryboard(createProvider(settings, onUsage), request, { signal });
+    const { normalized: result, issues } = validation;
+
+    await mkdir(jobDir, { recursive: true });
+    for (const language of job.languages) {
+      const rendered = renderPromptTemplate(job.template, { result, layout: job.layout, aspectRatio: job.aspectRatio, language, style: job.style });
+      await writeAtomic(path.join(jobDir, `prompt.${language}.txt`), rendered.negative
+        ? `${rendered.prompt}\n\nNegative prompt: ${rendered.negative}\n`
+        : `${rendered.prompt}\n`);
+    }
+    const output = {
+      result,
+      issues,
+      generator: { provider: settings.provider, model: settings.configs[settings.provider].model },
+      layout: job.layout,
+      aspectRatio: job.aspectRatio,
+      selectedShots: job.selectedShots,
+      languages: job.languages,
+      style: job.style,
+      script: job.scriptFile,
+      createdAt: new Date().toISOString()
+    };
+    await writeAtomic(path.join(jobDir, issues.length > 0 ? PARTIAL_FILE : RESULT_FILE), JSON.stringify(output, null, 2));
+    if (issues.length > 0) {
+      console.warn(`- ${job.name}: incomplete (${issues.length} gap(s)), will be retried on the next run`);
+      return { name: job.name, status: 'partial' };
+    }
+    console.log(`- ${job.name}: done`);
+    return { name: job.name, status: 'done' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`- ${job.name}: failed: ${message}`);
+    return { name: job.name, status: 'failed', error: message };
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      manifest: { type: 'string' },
+      script: { type: 'string' },
+      out: { type: 'string', default: 'storyboards' },
+      layout: { type: 'string' },
+      aspect: { type: 'string' },
+      shots: { type: 'string' },
+      'shot-preset': { type: 'string' },
+      style: { type: 'string' },
+      languages: { type: 'string' },
+      template: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'fast-model': { type: 'string' },
+      'base-url': { type: 'string' },
+      concurrency: { type: 'string', default: '2' },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help || (!values.manifest && !values.script && positionals.length === 0)) {
+    console.log(USAGE);
+    return;
+  }
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`--concurrency must be a whole number of at least 1.`);
+  }
+  const defaults: JobSource = {
+    layout: values.layout,
+    aspectRatio: values.aspect,
+    shots: values.shots,
+    shotPreset: values['shot-preset'],
+    style: values.style,
+    languages: values.languages,
+    template: values.template,
+    // Absolute, so a manifest elsewhere doesn't resolve it against its own folder
+    script: values.script && path.resolve(values.script)
+  };
+  const jobs = values.manifest
+    ? await readManifest(values.manifest, defaults)
+    : positionals.length > 0
+      ? uniqueNames(positionals.map((dir, i) => resolveJob({ ...defaults, images: dir }, process.cwd(), i)))
+      : [resolveJob(defaults, process.cwd(), 0)];
+  const settings = providerSettingsFrom(values);
+  const outDir = path.resolve(values.out!);
+  await mkdir(outDir, { recursive: true });
+
+  // Ctrl+C stops the requests in flight; finished jobs are already on disk
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.warn('Stopping; run the same command again to resume.');
+    controller.abort();
+  });
+
+  let usage: UsageEntry[] = [];
+  console.log(`${jobs.length} job(s) with ${PROVIDERS[settings.provider].label}, ${concurrency} at a time, into ${outDir}`);
+  const outcomes = await runPool(jobs, concurrency, job => controller.signal.aborted
+    ? Promise.resolve<JobOutcome>({ name: job.name, status: 'failed', error: 'Stopped' })
+    : runJob(job, settings, outDir, values.force!, controller.signal, entry => { usage = addUsage(usage, entry); }));
+
+  const previous = await readFile(path.join(outDir, SUMMARY_FILE), 'utf8').then(JSON.parse, () => ({}));
+  await writeAtomic(path.join(outDir, SUMMARY_FILE), JSON.stringify({
+    ...previous,
+    updatedAt: new Date().toISOString(),
+    jobs: { ...previous.jobs, ...Object.fromEntries(outcomes.filter(o => o.status !== 'skipped').map(({ name, ...rest }) => [name, rest])) }
+  }, null, 2));
+
+  const count = (status: JobStatus) => outcomes.filter(o => o.status === status).length;
+  const totals = totalUsage(usage);
+  console.log(`Done: ${count('done')}, incomplete: ${count('partial')}, failed: ${count('failed')}, skipped: ${count('skipped')}`);
+  console.log(`Usage: ${totals.requests} request(s), ${totals.inputTokens} input / ${totals.outputTokens} output tokens, ~$${totals.cost.toFixed(2)}${totals.costIncomplete ? ' (some models unpriced)' : ''}`);
+  if (count('partial') + count('failed') > 0) process.exitCode = 1;
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,212 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import {
+  ASPECT_RATIOS, AspectRatio, GridLayout, LocaleCode, LOCALE_CODES, PromptTemplate, ShotSpec, VisualStyle,
+  ShotFramingLabels, CameraAngleLabels, LensLabels, CameraMovementLabels
+} from "../types";
+import { DEFAULT_LAYOUT, getShotCount, isValidLayout, resizeShots } from "../utils/grid";
+import { upgradeShotSpec } from "../utils/shotSpec";
+import { DEFAULT_LANGUAGES, isLocaleCode, normalizeLanguages } from "../utils/locale";
+import { BUILT_IN_SHOT_PRESETS, adaptShots } from "../services/shotPresets";
+import { BUILT_IN_STYLES } from "../services/stylePresets";
+import { BUILT_IN_TEMPLATES } from "../services/promptTemplates";
+import { DEFAULT_IMAGE_SETTINGS } from "../services/referenceImages";
+import { isRecord } from "../services/validation";
+
+// Batch jobs for the command line: one storyboard per folder of references.
+// Jobs come from the command-line flags, or from a manifest where each entry
+// overrides the manifest's defaults, which override the flags.
+
+// One job as written in a manifest or assembled from flags; all fields optional
+// except an image folder or a script
+export interface JobSource {
+  name?: string;
+  // Folder of reference images, relative to the manifest
+  images?: string;
+  // Prose or Fountain file of the scene, relative to the manifest
+  script?: string;
+  layout?: string;
+  aspectRatio?: string;
+  // ShotSpec records, or framing/angle names such as "Close-up" or "Low Angle"
+  shots?: unknown[] | string;
+  // Id of a built-in shot sequence, adapted to the layout; ignored when `shots` is set
+  shotPreset?: string;
+  // Id of a built-in visual style
+  style?: string;
+  languages?: string[] | string;
+  // Id of a built-in prompt template
+  template?: string;
+}
+
+export interface BatchJob {
+  // Output folder name, unique within the run
+  name: string;
+  imagesDir: string | null;
+  scriptFile: string | null;
+  layout: GridLayout;
+  aspectRatio: AspectRatio;
+  selectedShots: ShotSpec[];
+  languages: LocaleCode[];
+  style: VisualStyle | null;
+  template: PromptTemplate;
+}
+
+// Files the providers accept as references
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+};
+
+const list = (value: unknown[] | string | undefined): unknown[] | undefined =>
+  typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value;
+
+// Fields of a ShotSpec record and the values each accepts
+const SPEC_FIELDS: Record<string, Record<string, unknown>> = {
+  framing: ShotFramingLabels,
+  angle: CameraAngleLabels,
+  lens: LensLabels,
+  movement: CameraMovementLabels
+};
+
+// Why `shot` can't be read as a ShotSpec, or null when it can
+const shotProblem = (shot: unknown): string | null => {
+  if (typeof shot === 'string') {
+    return shot in ShotFramingLabels || shot in CameraAngleLabels ? null
+      : `unknown shot "${shot}", expected one of ${[...Object.keys(ShotFramingLabels), ...Object.keys(CameraAngleLabels)].join(', ')}`;
+  }
+  if (!isRecord(shot)) return `shot ${JSON.stringify(shot)} is neither a name nor a ShotSpec record`;
+  for (const [field, values] of Object.entries(SPEC_FIELDS)) {
+    const value = shot[field];
+    if (value !== undefined && !(typeof value === 'string' && value in values)) {
+      return `unknown ${field} ${JSON.stringify(value)}, expected one of ${Object.keys(values).join(', ')}`;
+    }
+  }
+  return null;
+};
+
+// Resolves one job; `baseDir` is where relative image folders start from.
+// Unknown ids and values are errors rather than silent defaults, so a typo
+// doesn't cost a night of wrong storyboards.
+export const resolveJob = (source: JobSource, baseDir: string, index: number): BatchJob => {
+  if (!source.images && !source.script) {
+    throw new Error(`Job ${index + 1} has neither an image folder nor a script.`);
+  }
+  const imagesDir = source.images ? path.resolve(baseDir, source.images) : null;
+  const scriptFile = source.script ? path.resolve(baseDir, source.script) : null;
+  const label = source.name || (imagesDir ? path.basename(imagesDir) : path.parse(scriptFile!).name);
+
+  const layout = source.layout ?? DEFAULT_LAYOUT;
+  if (!isValidLayout(layout)) {
+    throw new Error(`${label}: invalid layout "${layout}", expected e.g. 3x3.`);
+  }
+  const aspectRatio = (source.aspectRatio ?? '16:9') as AspectRatio;
+  if (!ASPECT_RATIOS.includes(aspectRatio)) {
+    throw new Error(`${label}: invalid aspect ratio "${aspectRatio}", expected one of ${ASPECT_RATIOS.join(', ')}.`);
+  }
+
+  const shots = list(source.shots);
+  const badShot = shots?.map(shotProblem).find(problem => problem);
+  if (badShot) {
+    throw new Error(`${label}: ${badShot}.`);
+  }
+  let selectedShots = resizeShots([], layout);
+  if (shots) {
+    selectedShots = resizeShots(shots.map(upgradeShotSpec), layout);
+  } else if (source.shotPreset) {
+    const preset = BUILT_IN_SHOT_PRESETS.find(p => p.id === source.shotPreset);
+    if (!preset) {
+      throw new Error(`${label}: unknown shot preset "${source.shotPreset}", expected one of ${BUILT_IN_SHOT_PRESETS.map(p => p.id).join(', ')}.`);
+    }
+    selectedShots = adaptShots(preset.shots, getShotCount(layout));
+  }
+
+  const style = source.style ? BUILT_IN_STYLES.find(s => s.id === source.style) : null;
+  if (style === undefined) {
+    throw new Error(`${label}: unknown style "${source.style}", expected one of ${BUILT_IN_STYLES.map(s => s.id).join(', ')}.`);
+  }
+  const template = BUILT_IN_TEMPLATES.find(t => t.id === (source.template ?? BUILT_IN_TEMPLATES[0].id));
+  if (!template) {
+    throw new Error(`${label}: unknown template "${source.template}", expected one of ${BUILT_IN_TEMPLATES.map(t => t.id).join(', ')}.`);
+  }
+
+  const languages = list(source.languages);
+  const badLanguage = languages?.find(language => !isLocaleCode(language));
+  if (badLanguage !== undefined) {
+    throw new Error(`${label}: unknown language ${JSON.stringify(badLanguage)}, expected one of ${LOCALE_CODES.join(', ')}.`);
+  }
+
+  return {
+    name: label,
+    imagesDir,
+    scriptFile,
+    layout,
+    aspectRatio,
+    selectedShots,
+    languages: languages ? normalizeLanguages(languages) : [...DEFAULT_LANGUAGES],
+    style,
+    template
+  };
+};
+
+// Manifest: { "defaults": { ...JobSource }, "jobs": [ { ...JobSource }, ... ] }
+export const readManifest = async (file: string, defaults: JobSource): Promise<BatchJob[]> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read manifest ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isRecord(data) || !Array.isArray(data.jobs) || data.jobs.length === 0) {
+    throw new Error(`Manifest ${file} has no "jobs" list.`);
+  }
+  const entries: unknown[] = data.jobs;
+  const invalid = entries.findIndex(job => !isRecord(job));
+  if (invalid !== -1) {
+    throw new Error(`Manifest ${file}: job ${invalid + 1} is not an object.`);
+  }
+  if (data.defaults !== undefined && !isRecord(data.defaults)) {
+    throw new Error(`Manifest ${file}: "defaults" is not an object.`);
+  }
+  // Field values are checked by resolveJob
+  const manifestDefaults = (data.defaults ?? {}) as JobSource;
+  const baseDir = path.dirname(path.resolve(file));
+  const jobs = (entries as JobSource[]).map((job, i) => resolveJob({ ...defaults, ...manifestDefaults, ...job }, baseDir, i));
+  return uniqueNames(jobs);
+};
+
+// Two jobs may share a folder name; later ones get "-2", "-3", ...
+export const uniqueNames = (jobs: BatchJob[]): BatchJob[] => {
+  const seen = new Map<string, number>();
+  return jobs.map(job => {
+    const count = (seen.get(job.name) ?? 0) + 1;
+    seen.set(job.name, count);
+    return count === 1 ? job : { ...job, name: `${job.name}-${count}` };
+  });
+};
+
+// Every supported image of the folder as a data URL, in file name order.
+// Node has no canvas, so images are sent as they are instead of downscaled;
+// oversized files and anything past the per-scene limit are skipped.
+export const loadReferenceImages = async (dir: string, warn: (message: string) => void): Promise<string[]> => {
+  const files = (await readdir(dir))
+    .filter(file => path.extname(file).toLowerCase() in IMAGE_TYPES)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const images: string[] = [];
+  for (const file of files) {
+    if (images.length >= DEFAULT_IMAGE_SETTINGS.maxImages) {
+      warn(`${dir}: only the first ${DEFAULT_IMAGE_SETTINGS.maxImages} images are used.`);
+      break;
+    }
+    const fullPath = path.join(dir, file);
+    const { size } = await stat(fullPath);
+    if (size > DEFAULT_IMAGE_SETTINGS.maxFileMb * 1024 * 1024) {
+      warn(`${fullPath}: larger than ${DEFAULT_IMAGE_SETTINGS.maxFileMb} MB, skipped.`);
+      continue;
+    }
+    const data = await readFile(fullPath);
+    images.push(`data:${IMAGE_TYPES[path.extname(file).toLowerCase()]};base64,${data.toString('base64')}`);
+  }
+  return images;
+};
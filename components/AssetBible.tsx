@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { BibleAsset, AssetKind, AssetKindLabels, LocaleCode, ImageSettings, ImageWarning } from '../types';
+import { Translate } from '../locales';
+import { createAsset } from '../services/bible';
+import { prepareReferenceImages } from '../services/referenceImages';
+import ImageWarnings from './ImageWarnings';
+import { BookUser, Plus, Pencil, Trash2, Lock, X, RefreshCcw } from 'lucide-react';
+
+interface AssetBibleProps {
+  library: BibleAsset[];
+  sceneAssetIds: string[];
+  language: LocaleCode;
+  imageSettings: ImageSettings;
+  onToggleInScene: (id: string) => void;
+  onSave: (asset: BibleAsset) => void;
+  onDelete: (id: string) => void;
+  t: Translate;
+}
+
+const inputClass = "w-full bg-slate-950 text-sm p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200";
+
+const AssetEditor: React.FC<{
+  asset: BibleAsset;
+  language: LocaleCode;
+  imageSettings: ImageSettings;
+  onSave: (asset: BibleAsset) => void;
+  onCancel: () => void;
+  t: Translate;
+}> = ({ asset, language, imageSettings, onSave, onCancel, t }) => {
+  const [draft, setDraft] = useState(asset);
+  const [preparing, setPreparing] = useState(false);
+  const [warnings, setWarnings] = useState<ImageWarning[]>([]);
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setPreparing(true);
+    try {
+      const prepared = await prepareReferenceImages(files, draft.images, imageSettings);
+      setDraft(prev => ({ ...prev, images: [...prev.images, ...prepared.images] }));
+      setWarnings(prepared.warnings);
+    } catch (error) {
+      console.error("Failed to prepare bible images", error);
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const handleImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    addFiles(files);
+  };
+
+  // Files pasted or dropped here belong to this entry, not to the scene
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    addFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div
+      onPaste={handlePaste}
+      onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }}
+      onDrop={handleDrop}
+      className="p-3 bg-slate-950/60 rounded-xl border border-blue-500/40 space-y-3"
+    >
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={draft.kind}
+          onChange={(e) => setDraft({ ...draft, kind: e.target.value as AssetKind })}
+          className={inputClass}
+        >
+          {(Object.keys(AssetKindLabels) as AssetKind[]).map(kind => (
+            <option key={kind} value={kind}>{AssetKindLabels[kind][language]}</option>
+          ))}
+        </select>
+        <input
+          autoFocus
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder={t('bible.namePlaceholder')}
+          className={`${inputClass} col-span-2`}
+        />
+      </div>
+      <textarea
+        value={draft.description}
+        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        placeholder={t('bible.descriptionPlaceholder')}
+        rows={3}
+        className={inputClass}
+      />
+      <div className="flex flex-wrap gap-2">
+        {draft.images.map((img, i) => (
+          <div key={i} className="relative group w-14 h-14 rounded overflow-hidden border border-slate-700">
+            <img src={img} alt="" className="w-full h-full object-cover" />
+            <button
+              onClick={() => setDraft({ ...draft, images: draft.images.filter((_, j) => j !== i) })}
+              className="absolute top-0.5 right-0.5 p-0.5 bg-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <X className="w-2.5 h-2.5 text-white" />
+            </button>
+          </div>
+        ))}
+        <label className="w-14 h-14 flex items-center justify-center border-2 border-dashed border-slate-700 rounded cursor-pointer hover:border-blue-400 transition-all">
+          {preparing
+            ? <RefreshCcw className="w-4 h-4 text-slate-500 animate-spin" />
+            : <Plus className="w-4 h-4 text-slate-500" />}
+          <input type="file" multiple accept="image/*" onChange={handleImages} disabled={preparing} className="hidden" />
+        </label>
+      </div>
+      <ImageWarnings warnings={warnings} settings={imageSettings} onDismiss={() => setWarnings([])} t={t} />
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1.5 text-xs text-slate-400 hover:text-white">{t('common.cancel')}</button>
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={!draft.name.trim() || preparing}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 rounded text-xs font-medium"
+        >
+          {t('bible.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const AssetBible: React.FC<AssetBibleProps> = ({ library, sceneAssetIds, language, imageSettings, onToggleInScene, onSave, onDelete, t }) => {
+  const [editing, setEditing] = useState<BibleAsset | null>(null);
+
+  return (
+    <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <BookUser className="w-5 h-5 text-blue-400" />
+          {t('bible.title')}
+        </h2>
+        <button
+          onClick={() => setEditing(createAsset())}
+          className="flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs border border-slate-700"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          {t('bible.new')}
+        </button>
+      </div>
+
+      {editing && !library.some(asset => asset.id === editing.id) && (
+        <AssetEditor
+          asset={editing}
+          language={language}
+          imageSettings={imageSettings}
+          t={t}
+          onSave={(asset) => { onSave(asset); setEditing(null); }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <div className="space-y-2">
+        {library.map(asset => editing?.id === asset.id ? (
+          <AssetEditor
+            key={asset.id}
+            asset={editing}
+            language={language}
+            imageSettings={imageSettings}
+            t={t}
+            onSave={(updated) => { onSave(updated); setEditing(null); }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <div
+            key={asset.id}
+            className={`flex items-center gap-3 p-2 rounded-lg border transition-all ${
+              sceneAssetIds.includes(asset.id) ? 'border-blue-500/50 bg-blue-500/5' : 'border-slate-800'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={sceneAssetIds.includes(asset.id)}
+              onChange={() => onToggleInScene(asset.id)}
+              title={t('bible.useInScene')}
+              className="accent-blue-500"
+            />
+            <div className="w-10 h-10 shrink-0 rounded overflow-hidden border border-slate-700 bg-slate-950">
+              {asset.images[0] && <img src={asset.images[0]} alt="" className="w-full h-full object-cover" />}
+            </div>
+            <div className="flex-grow min-w-0">
+              <p className="text-sm text-slate-100 truncate">
+                <span className="text-[10px] uppercase tracking-wider text-blue-400 mr-2">{AssetKindLabels[asset.kind][language]}</span>
+                {asset.name}
+              </p>
+              <p className="text-xs text-slate-500 truncate flex items-center gap-1">
+                {asset.description && <Lock className="w-3 h-3 shrink-0" />}
+                {asset.description || t('bible.noDescription')} · {t('bible.imageCount', { count: asset.images.length })}
+              </p>
+            </div>
+            <button onClick={() => setEditing(asset)} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('common.edit')}>
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => { if (confirm(t('bible.confirmDelete', { name: asset.name }))) onDelete(asset.id); }}
+              className="p-1.5 hover:bg-red-900/40 rounded text-slate-400 hover:text-red-400"
+              title={t('bible.delete')}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {library.length === 0 && !editing && (
+          <p className="text-xs text-slate-500 italic">
+            {t('bible.empty')}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AssetBible;
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { CachedResult, LocaleCode } from '../types';
+import { PROVIDERS } from '../services/providerRegistry';
+import { listCachedResults, deleteCachedResult, clearResultCache } from '../services/resultCache';
+import { textIn } from '../utils/locale';
+import { LOCALE_TAGS, Translate } from '../locales';
+import { Database, Trash2, X } from 'lucide-react';
+
+interface CachePanelProps {
+  uiLocale: LocaleCode;
+  // Output language the cached scene prompts are previewed in
+  language: LocaleCode;
+  onClose: () => void;
+  t: Translate;
+}
+
+const formatSize = (bytes: number, uiLocale: LocaleCode): string => {
+  const format = (value: number) => value.toLocaleString(LOCALE_TAGS[uiLocale], { maximumFractionDigits: 1 });
+  if (bytes < 1024) return `${format(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${format(bytes / 1024)} KB`;
+  return `${format(bytes / (1024 * 1024))} MB`;
+};
+
+const CachePanel: React.FC<CachePanelProps> = ({ uiLocale, language, onClose, t }) => {
+  const [entries, setEntries] = useState<CachedResult[] | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCachedResults());
+    } catch (error) {
+      console.error("Failed to list cached storyboards", error);
+      setEntries([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteCachedResult(id);
+    } catch (error) {
+      console.error("Failed to delete cached storyboard", error);
+    }
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!confirm(t('cache.confirmClear'))) return;
+    try {
+      await clearResultCache();
+    } catch (error) {
+      console.error("Failed to clear result cache", error);
+    }
+    refresh();
+  };
+
+  const totalSize = (entries || []).reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Database className="w-5 h-5 text-blue-400" />
+          {t('cache.title')}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleClear}
+            disabled={!entries || entries.length === 0}
+            className="flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-red-600 disabled:opacity-40 disabled:hover:bg-slate-800 rounded text-xs border border-slate-700"
+          >
+            <Trash2 className="w-3 h-3" />
+            {t('cache.clear')}
+          </button>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('cache.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {entries === null ? (
+        <p className="text-sm text-slate-500 italic">{t('cache.loading')}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">{t('cache.empty')}</p>
+      ) : (
+        <>
+          <p className="text-sm text-slate-300">
+            {t('cache.summary', { count: entries.length, size: formatSize(totalSize, uiLocale) })}
+          </p>
+          <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-start gap-3 p-3 bg-slate-950/60 rounded-lg border border-slate-800">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-xs text-slate-500">
+                    {new Date(entry.createdAt).toLocaleString(LOCALE_TAGS[uiLocale])}
+                    {' · '}<span className="font-mono">{entry.generator.model}</span>
+                    {' · '}{PROVIDERS[entry.generator.provider].label}
+                    {' · '}{entry.layout}
+                    {' · '}{formatSize(entry.size, uiLocale)}
+                  </p>
+                  <p className="text-sm text-slate-300 truncate">{textIn(entry.result.scenePrompt, language)}</p>
+                </div>
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  className="p-1.5 hover:bg-slate-800 rounded text-slate-400 hover:text-red-400"
+                  title={t('cache.delete')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <p className="text-xs text-slate-500 italic">{t('cache.note')}</p>
+    </section>
+  );
+};
+
+export default CachePanel;
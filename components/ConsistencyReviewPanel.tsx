@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { ConsistencyReview, ConsistencyReviewRequest, LocaleCode, ReviewAspect, REVIEW_ASPECTS, ShotReview } from '../types';
+import { LOW_SCORE, isLowScoring } from '../services/review';
+import { loadGridImage } from '../services/gridFrames';
+import { canvasToDataUrl } from '../utils/image';
+import { LOCALE_TAGS, Translate, UiStringKey } from '../locales';
+import { ScanEye, Upload, Wand2, Check, RefreshCcw, X } from 'lucide-react';
+
+interface ConsistencyReviewPanelProps {
+  review: ConsistencyReview | null;
+  // Shots whose fix has been applied since the review
+  fixed: number[];
+  // Frames cut from the rendered grid, by shot ('' when missing)
+  frames: string[];
+  reviewing: boolean;
+  // Shot being rewritten, if any; one rewrite runs at a time
+  fixingShotId: number | null;
+  uiLocale: LocaleCode;
+  onRun: (rendered: ConsistencyReviewRequest['rendered']) => void;
+  onFix: (review: ShotReview) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const ASPECT_KEYS: Record<ReviewAspect, UiStringKey> = {
+  character: 'review.character',
+  costume: 'review.costume',
+  lighting: 'review.lighting',
+  framing: 'review.framing'
+};
+
+// Quality of the grid image sent for review
+const GRID_QUALITY = 0.85;
+
+const ConsistencyReviewPanel: React.FC<ConsistencyReviewPanelProps> = ({
+  review, fixed, frames, reviewing, fixingShotId, uiLocale, onRun, onFix, onClose, t
+}) => {
+  const [opening, setOpening] = useState(false);
+  const hasFrames = frames.some(frame => frame);
+
+  const reviewGridFile = async (file: File | undefined) => {
+    if (!file) return;
+    setOpening(true);
+    try {
+      const grid = await loadGridImage(file);
+      onRun({ kind: 'grid', image: canvasToDataUrl(grid, GRID_QUALITY) });
+    } catch (error) {
+      console.error("Failed to open grid image", error);
+      alert(t('slicer.notImage', { file: file.name }));
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const busy = reviewing || opening;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[85vh] overflow-auto bg-slate-900 rounded-2xl border border-slate-800 p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-slate-800 pb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <ScanEye className="w-5 h-5 text-blue-400" />
+            {t('review.title')}
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('review.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400">{t('review.hint')}</p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => onRun({ kind: 'frames', frames })}
+            disabled={busy || !hasFrames}
+            title={hasFrames ? undefined : t('review.noFrames')}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 rounded-lg text-white text-sm font-medium"
+          >
+            <ScanEye className="w-4 h-4" />
+            {t('review.runFrames')}
+          </button>
+          <label className={`flex items-center gap-2 px-3 py-2 bg-slate-800 rounded-lg border border-slate-700 text-sm ${
+            busy ? 'opacity-40' : 'hover:bg-slate-700 cursor-pointer'
+          }`}>
+            <Upload className="w-4 h-4" />
+            {t('review.runGrid')}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              disabled={busy}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                reviewGridFile(file);
+              }}
+            />
+          </label>
+          {busy && (
+            <span className="flex items-center gap-2 text-xs text-slate-400">
+              <RefreshCcw className="w-3 h-3 animate-spin" />
+              {t('review.running')}
+            </span>
+          )}
+        </div>
+
+        {review && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+              <span>{t('review.reviewedAt', { date: new Date(review.createdAt).toLocaleString(LOCALE_TAGS[uiLocale]) })}</span>
+              <span>{t('review.threshold', { score: LOW_SCORE })}</span>
+            </div>
+            {review.summary && <p className="text-sm text-slate-300">{review.summary}</p>}
+            <ul className="space-y-2">
+              {review.shots.map(shot => {
+                const low = isLowScoring(shot);
+                return (
+                  <li
+                    key={shot.shotId}
+                    className={`flex gap-3 p-3 rounded-lg border ${low ? 'border-amber-500/40 bg-amber-900/10' : 'border-slate-800 bg-slate-950/40'}`}
+                  >
+                    {frames[shot.shotId - 1] && (
+                      <img src={frames[shot.shotId - 1]} alt="" className="w-24 h-fit rounded border border-slate-800" />
+                    )}
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs font-bold text-blue-400 uppercase">{t('output.shot', { number: shot.shotId })}</span>
+                        {REVIEW_ASPECTS.map(aspect => {
+                          const score = shot.scores[aspect];
+                          return (
+                            <span
+                              key={aspect}
+                              className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${
+                                score === 0 ? 'bg-slate-800 text-slate-500'
+                                : score <= LOW_SCORE ? 'bg-amber-900/40 text-amber-300'
+                                : 'bg-emerald-900/40 text-emerald-300'
+                              }`}
+                            >
+                              {t(ASPECT_KEYS[aspect])} {score === 0 ? '?' : score}
+                            </span>
+                          );
+                        })}
+                      </div>
+                      {shot.issues.length > 0 ? (
+                        <ul className="list-disc list-inside text-sm text-slate-300 space-y-0.5">
+                          {shot.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-slate-500 italic">{t('review.noIssues')}</p>
+                      )}
+                      {shot.fix && <p className="text-xs text-slate-400">{t('review.fix', { fix: shot.fix })}</p>}
+                    </div>
+                    {low && (
+                      fixed.includes(shot.shotId) ? (
+                        <span className="self-start flex items-center gap-1 text-xs text-emerald-400 whitespace-nowrap">
+                          <Check className="w-3 h-3" />
+                          {t('review.fixed')}
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => onFix(shot)}
+                          disabled={fixingShotId !== null}
+                          className="self-start flex items-center gap-1 px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 rounded text-white text-xs whitespace-nowrap"
+                        >
+                          {fixingShotId === shot.shotId
+                            ? <RefreshCcw className="w-3 h-3 animate-spin" />
+                            : <Wand2 className="w-3 h-3" />}
+                          {t('review.applyFix')}
+                        </button>
+                      )
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConsistencyReviewPanel;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { TextMarks } from '../types';
+import { Translate } from '../locales';
+import { Pencil, Check, X, RefreshCcw, Languages } from 'lucide-react';
+
+interface EditableTextProps {
+  value: string;
+  marks?: TextMarks;
+  // Re-translation of this text is in flight
+  syncing?: boolean;
+  disabled?: boolean;
+  className?: string;
+  onSave: (text: string) => void;
+  onResync: () => void;
+  t: Translate;
+}
+
+// Read-only text with a pencil to edit it in place, plus the hand-edit markers
+const EditableText: React.FC<EditableTextProps> = ({ value, marks, syncing, disabled, className = '', onSave, onResync, t }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const save = () => {
+    const text = draft?.trim();
+    if (text && text !== value) onSave(text);
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <div className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setDraft(null);
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save();
+          }}
+          autoFocus
+          rows={4}
+          className="w-full bg-slate-950 text-sm p-2 rounded-lg border border-blue-500 text-slate-200"
+        />
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setDraft(null)}
+            className="flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-xs transition-colors"
+          >
+            <X className="w-3 h-3" />
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={save}
+            title={t('edit.saveTitle')}
+            className="flex items-center gap-1 px-2 py-1 bg-blue-600 hover:bg-blue-500 rounded text-white text-xs transition-colors"
+          >
+            <Check className="w-3 h-3" />
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-start gap-2 group/edit">
+        <p className={`flex-1 ${className}`}>{value}</p>
+        {!disabled && (
+          <button
+            onClick={() => setDraft(value)}
+            title={t('edit.title')}
+            className="p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-800 opacity-0 group-hover/edit:opacity-100 focus:opacity-100 transition-opacity"
+          >
+            <Pencil className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {(marks?.edited || marks?.pendingSync) && (
+        <div className="flex flex-wrap items-center gap-1.5 text-[10px]">
+          {marks.edited && (
+            <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-900/40 text-blue-300">
+              <Pencil className="w-2.5 h-2.5" />
+              {t('edit.edited')}
+            </span>
+          )}
+          {marks.pendingSync && (
+            <button
+              onClick={onResync}
+              disabled={syncing}
+              title={t('edit.outOfSyncTitle')}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-900/40 text-amber-300 hover:bg-amber-800/50 disabled:hover:bg-amber-900/40"
+            >
+              {syncing ? <RefreshCcw className="w-2.5 h-2.5 animate-spin" /> : <Languages className="w-2.5 h-2.5" />}
+              {syncing ? t('edit.translating') : t('edit.outOfSync')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EditableText;
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { GridLayout, GridSlice } from '../types';
+import { DEFAULT_GRID_SLICE, loadGridImage, panelRects, sliceGridImage } from '../services/gridFrames';
+import { Translate } from '../locales';
+import { Scissors, Upload, X } from 'lucide-react';
+
+interface GridSlicerProps {
+  layout: GridLayout;
+  // JPEG quality of the cut frames, 0-1
+  quality: number;
+  onApply: (frames: string[]) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const inputClass = "w-full bg-slate-950 text-xs p-1.5 rounded border border-slate-800 focus:border-blue-500 text-slate-200";
+
+const GridSlicer: React.FC<GridSlicerProps> = ({ layout, quality, onApply, onClose, t }) => {
+  const [grid, setGrid] = useState<HTMLCanvasElement | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [slice, setSlice] = useState<GridSlice>(DEFAULT_GRID_SLICE);
+  const [loading, setLoading] = useState(false);
+
+  // Object URLs hold the file in memory until revoked
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview);
+  }, [preview]);
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      alert(t('slicer.notImage', { file: file.name }));
+      return;
+    }
+    setLoading(true);
+    try {
+      setGrid(await loadGridImage(file));
+      setPreview(URL.createObjectURL(file));
+    } catch (error) {
+      console.error("Failed to open grid image", error);
+      alert(t('slicer.notImage', { file: file.name }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Empty or invalid input keeps the previous value
+  const updateSlice = (key: keyof GridSlice, value: string) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed) && parsed >= 0) setSlice(prev => ({ ...prev, [key]: parsed }));
+  };
+
+  const apply = () => {
+    if (!grid) return;
+    try {
+      onApply(sliceGridImage(grid, layout, slice, quality));
+    } catch (error) {
+      console.error("Failed to slice grid image", error);
+      alert(t('slicer.failed'));
+    }
+  };
+
+  const rects = grid ? panelRects(grid.width, grid.height, layout, slice) : [];
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[85vh] overflow-auto bg-slate-900 rounded-2xl border border-slate-800 p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          openFile(e.dataTransfer.files[0]);
+        }}
+      >
+        <div className="flex items-center justify-between border-b border-slate-800 pb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Scissors className="w-5 h-5 text-blue-400" />
+            {t('slicer.title', { layout })}
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('slicer.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400">{t('slicer.hint')}</p>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 text-sm cursor-pointer">
+            <Upload className="w-4 h-4" />
+            {loading ? t('slicer.loading') : t('slicer.upload')}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                openFile(file);
+              }}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-400 w-28">
+            <span>{t('slicer.margin')}</span>
+            <input type="number" min={0} value={slice.margin} onChange={(e) => updateSlice('margin', e.target.value)} className={inputClass} />
+          </label>
+          <label className="space-y-1 text-xs text-slate-400 w-28">
+            <span>{t('slicer.gutter')}</span>
+            <input type="number" min={0} value={slice.gutter} onChange={(e) => updateSlice('gutter', e.target.value)} className={inputClass} />
+          </label>
+          {grid && <span className="text-xs text-slate-500">{t('slicer.size', { width: grid.width, height: grid.height })}</span>}
+        </div>
+
+        {grid && preview ? (
+          <div className="relative w-fit max-w-full mx-auto">
+            <img src={preview} alt="" className="block max-h-[50vh] max-w-full" />
+            {rects.map((rect, i) => (
+              <div
+                key={i}
+                className="absolute border-2 border-blue-400 bg-blue-400/10 text-[10px] font-bold text-white"
+                style={{
+                  left: percent(rect.x, grid.width),
+                  top: percent(rect.y, grid.height),
+                  width: percent(rect.width, grid.width),
+                  height: percent(rect.height, grid.height)
+                }}
+              >
+                <span className="px-1 bg-blue-500">{i + 1}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="h-48 border-2 border-dashed border-slate-700 rounded-xl flex items-center justify-center text-sm text-slate-500">
+            {t('slicer.drop')}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 text-sm">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={apply}
+            disabled={!grid}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 rounded-lg text-white text-sm font-medium"
+          >
+            <Scissors className="w-4 h-4" />
+            {t('slicer.apply', { count: rects.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GridSlicer;
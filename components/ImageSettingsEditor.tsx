@@ -0,0 +1,79 @@
+import React from 'react';
+import { ImageSettings } from '../types';
+import { MAX_DIMENSION_OPTIONS } from '../services/referenceImages';
+import { Translate } from '../locales';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface ImageSettingsEditorProps {
+  settings: ImageSettings;
+  onChange: (settings: ImageSettings) => void;
+  t: Translate;
+}
+
+const inputClass = "w-full bg-slate-950 text-xs p-1.5 rounded border border-slate-800 focus:border-blue-500 text-slate-200";
+
+const ImageSettingsEditor: React.FC<ImageSettingsEditorProps> = ({ settings, onChange, t }) => {
+  // Empty or invalid input keeps the previous value
+  const updateNumber = (key: keyof ImageSettings, value: string, max = Infinity) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed) && parsed > 0) onChange({ ...settings, [key]: Math.min(parsed, max) });
+  };
+
+  return (
+    <details className="text-xs text-slate-400">
+      <summary className="cursor-pointer flex items-center gap-1 hover:text-slate-200">
+        <SlidersHorizontal className="w-3 h-3" />
+        {t('images.settings')}
+      </summary>
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span>{t('images.maxDimension')}</span>
+          <select
+            value={settings.maxDimension}
+            onChange={(e) => updateNumber('maxDimension', e.target.value)}
+            className={inputClass}
+          >
+            {MAX_DIMENSION_OPTIONS.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>{t('images.quality')}</span>
+          <input
+            type="number"
+            min={10}
+            max={100}
+            step={5}
+            value={Math.round(settings.quality * 100)}
+            onChange={(e) => updateNumber('quality', String(Number(e.target.value) / 100), 1)}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>{t('images.maxFileMb')}</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.maxFileMb}
+            onChange={(e) => updateNumber('maxFileMb', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>{t('images.maxImages')}</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.maxImages}
+            onChange={(e) => updateNumber('maxImages', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <p className="mt-2 text-[10px] text-slate-500">{t('images.settingsHint')}</p>
+    </details>
+  );
+};
+
+export default ImageSettingsEditor;
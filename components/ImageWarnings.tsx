@@ -0,0 +1,45 @@
+import React from 'react';
+import { ImageSettings, ImageWarning, ImageWarningCode } from '../types';
+import { Translate, UiStringKey } from '../locales';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface ImageWarningsProps {
+  warnings: ImageWarning[];
+  settings: ImageSettings;
+  onDismiss: () => void;
+  t: Translate;
+}
+
+const MESSAGES: Record<ImageWarningCode, UiStringKey> = {
+  unsupported: 'images.unsupported',
+  too_large: 'images.tooLarge',
+  duplicate: 'images.duplicate',
+  limit: 'images.limit'
+};
+
+// Refused uploads, one line per reason
+const ImageWarnings: React.FC<ImageWarningsProps> = ({ warnings, settings, onDismiss, t }) => {
+  if (warnings.length === 0) return null;
+  const codes = (Object.keys(MESSAGES) as ImageWarningCode[]).filter(code => warnings.some(w => w.code === code));
+
+  return (
+    <div className="flex items-start gap-2 p-2 bg-amber-900/20 border border-amber-500/40 rounded-lg text-xs text-amber-300">
+      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+      <div className="flex-grow space-y-0.5 min-w-0">
+        {codes.map(code => (
+          <p key={code} className="break-words">
+            {t(MESSAGES[code], {
+              files: warnings.filter(w => w.code === code).map(w => w.file).join(', '),
+              limit: code === 'limit' ? settings.maxImages : settings.maxFileMb
+            })}
+          </p>
+        ))}
+      </div>
+      <button onClick={onDismiss} className="p-0.5 hover:text-white" title={t('common.dismiss')}>
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+export default ImageWarnings;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { GridLayout } from '../types';
+import { LAYOUT_PRESETS, MAX_GRID_DIMENSION, formatLayout, getShotCount, parseLayout, gridColumnsClass } from '../utils/grid';
+import { Translate, UiStringKey } from '../locales';
+import { Grid } from 'lucide-react';
+
+interface LayoutPickerProps {
+  layout: GridLayout;
+  onChange: (layout: GridLayout) => void;
+  t: Translate;
+}
+
+const clampDimension = (value: number) => Math.min(Math.max(Math.round(value) || 1, 1), MAX_GRID_DIMENSION);
+
+const LayoutPicker: React.FC<LayoutPickerProps> = ({ layout, onChange, t }) => {
+  const { rows, columns } = parseLayout(layout);
+  const isPreset = LAYOUT_PRESETS.some(preset => preset.layout === layout);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs text-slate-400 font-medium flex items-center gap-1">
+        <Grid className="w-3 h-3" /> {t('layout.title')}
+      </label>
+      <select
+        value={isPreset ? layout : 'custom'}
+        onChange={(e) => {
+          if (e.target.value !== 'custom') onChange(e.target.value as GridLayout);
+        }}
+        className="w-full bg-slate-950 text-sm p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200"
+      >
+        {LAYOUT_PRESETS.map(preset => (
+          <option key={preset.layout} value={preset.layout}>
+            {t('layout.preset', { label: t(`layoutPreset.${preset.layout}` as UiStringKey), count: getShotCount(preset.layout) })}
+          </option>
+        ))}
+        <option value="custom">{t('layout.custom', { layout })}</option>
+      </select>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={1}
+          max={MAX_GRID_DIMENSION}
+          value={rows}
+          onChange={(e) => onChange(formatLayout(clampDimension(Number(e.target.value)), columns))}
+          title={t('layout.rows')}
+          className="w-14 bg-slate-950 text-xs p-1.5 rounded border border-slate-800 focus:border-blue-500 text-slate-200"
+        />
+        <span className="text-xs text-slate-500">{t('layout.rowsSuffix')}</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_GRID_DIMENSION}
+          value={columns}
+          onChange={(e) => onChange(formatLayout(rows, clampDimension(Number(e.target.value))))}
+          title={t('layout.columns')}
+          className="w-14 bg-slate-950 text-xs p-1.5 rounded border border-slate-800 focus:border-blue-500 text-slate-200"
+        />
+        <span className="text-xs text-slate-500">{t('layout.columnsSuffix')}</span>
+        {/* Miniature preview of the grid */}
+        <div className={`ml-auto grid gap-0.5 w-10 ${gridColumnsClass(columns)}`}>
+          {Array.from({ length: rows * columns }, (_, i) => (
+            <div key={i} className="aspect-square bg-slate-700 rounded-[1px]" />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LayoutPicker;
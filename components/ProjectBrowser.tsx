@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { StoryboardProject, LocaleCode } from '../types';
+import { Translate, LOCALE_TAGS } from '../locales';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectStore';
+import { FolderOpen, Plus, Copy, Pencil, Trash2, X, Check, Image as ImageIcon } from 'lucide-react';
+
+interface ProjectBrowserProps {
+  currentProjectId: string;
+  onOpen: (project: StoryboardProject) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  onRenamed: (project: StoryboardProject) => void;
+  onClose: () => void;
+  uiLocale: LocaleCode;
+  t: Translate;
+}
+
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ currentProjectId, onOpen, onNew, onDeleted, onRenamed, onClose, uiLocale, t }) => {
+  const [projects, setProjects] = useState<StoryboardProject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to list projects", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (project: StoryboardProject) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = draftName.trim();
+    if (name) {
+      const renamed = await renameProject(editingId, name);
+      if (renamed) onRenamed(renamed);
+    }
+    setEditingId(null);
+    refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateProject(id);
+    refresh();
+  };
+
+  const handleDelete = async (project: StoryboardProject) => {
+    if (!confirm(t('projects.confirmDelete', { name: project.name }))) return;
+    await deleteProject(project.id);
+    onDeleted(project.id);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[80vh] overflow-auto bg-slate-900 rounded-2xl border border-slate-800 p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-slate-800 pb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-blue-400" />
+            {t('projects.title')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNew}
+              className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded text-sm font-medium transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              {t('projects.new')}
+            </button>
+            <button onClick={onClose} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('common.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-slate-500 text-center py-8">{t('projects.loading')}</p>
+        ) : projects.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-8 italic">
+            {t('projects.empty')}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {projects.map(project => (
+              <li
+                key={project.id}
+                className={`flex items-center gap-4 p-3 rounded-xl border transition-all ${
+                  project.id === currentProjectId ? 'border-blue-500/50 bg-blue-500/5' : 'border-slate-800 hover:border-slate-700'
+                }`}
+              >
+                <div className="w-16 h-16 shrink-0 rounded-lg overflow-hidden border border-slate-700 bg-slate-950 flex items-center justify-center">
+                  {project.scenes[0]?.images[0]
+                    ? <img src={project.scenes[0].images[0]} alt="" className="w-full h-full object-cover" />
+                    : <ImageIcon className="w-6 h-6 text-slate-700" />}
+                </div>
+                <div className="flex-grow min-w-0">
+                  {editingId === project.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-grow bg-slate-950 text-sm p-1.5 rounded border border-slate-700 focus:border-blue-500 text-slate-200"
+                      />
+                      <button onClick={commitRename} className="p-1.5 bg-slate-800 hover:bg-blue-600 rounded text-slate-300" title={t('projects.saveName')}>
+                        <Check className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ) : (
+                    <button onClick={() => onOpen(project)} className="text-left w-full">
+                      <p className="font-medium text-slate-100 truncate">{project.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {project.scenes.length === 1 ? t('projects.sceneCountOne') : t('projects.sceneCount', { count: project.scenes.length })}
+                        {' · '}{t('projects.generatedCount', { count: project.scenes.filter(scene => scene.result).length })}
+                        {' · '}{new Date(project.updatedAt).toLocaleString(LOCALE_TAGS[uiLocale])}
+                      </p>
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button onClick={() => startRename(project)} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('common.rename')}>
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => handleDuplicate(project.id)} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('common.duplicate')}>
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => handleDelete(project)} className="p-1.5 hover:bg-red-900/40 rounded text-slate-400 hover:text-red-400" title={t('common.delete')}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBrowser;
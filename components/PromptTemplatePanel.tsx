@@ -0,0 +1,150 @@
+import React from 'react';
+import { PromptTemplate, PromptTemplateSettings, LocaleCode, LocaleLabels } from '../types';
+import { Translate, UiStringKey } from '../locales';
+import { PLACEHOLDERS, createPromptTemplate, getBuiltInTemplate } from '../services/promptTemplates';
+import { FileCode2, X, Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface PromptTemplatePanelProps {
+  settings: PromptTemplateSettings;
+  // Output language whose template is edited; empty ones fall back to English
+  language: LocaleCode;
+  onChange: (settings: PromptTemplateSettings) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const inputClass = "w-full bg-slate-950 text-sm p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200";
+
+const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ settings, language, onChange, onClose, t }) => {
+  const template = settings.templates.find(t => t.id === settings.target) ?? settings.templates[0];
+
+  const updateTemplate = (patch: Partial<PromptTemplate>) => {
+    onChange({
+      ...settings,
+      templates: settings.templates.map(t => t.id === template.id ? { ...t, ...patch } : t)
+    });
+  };
+
+  const duplicateTemplate = () => {
+    const copy = createPromptTemplate(template);
+    onChange({ target: copy.id, templates: [...settings.templates, copy] });
+  };
+
+  const deleteTemplate = () => {
+    if (!confirm(t('templates.confirmDelete', { name: template.name }))) return;
+    const templates = settings.templates.filter(t => t.id !== template.id);
+    onChange({ target: templates[0].id, templates });
+  };
+
+  const resetTemplate = () => {
+    const original = getBuiltInTemplate(template.id);
+    if (original) updateTemplate({ ...original, template: { ...original.template } });
+  };
+
+  return (
+    <section className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <FileCode2 className="w-4 h-4 text-blue-400" />
+          {t('templates.title')}
+        </h3>
+        <button onClick={onClose} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('templates.close')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={template.id}
+          onChange={(e) => onChange({ ...settings, target: e.target.value })}
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+        >
+          {settings.templates.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={duplicateTemplate}
+          className="flex items-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-xs transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          {t('common.duplicate')}
+        </button>
+        {template.builtIn ? (
+          <button
+            onClick={resetTemplate}
+            className="flex items-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-xs transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" />
+            {t('common.reset')}
+          </button>
+        ) : (
+          <button
+            onClick={deleteTemplate}
+            className="flex items-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-red-600 rounded border border-slate-700 text-xs transition-colors"
+          >
+            <Trash2 className="w-3 h-3" />
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+
+      {!template.builtIn && (
+        <div className="space-y-2">
+          <label className="text-xs text-slate-400 font-medium">{t('common.name')}</label>
+          <input
+            value={template.name}
+            onChange={(e) => updateTemplate({ name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      )}
+      <div className="space-y-2">
+        <label className="text-xs text-slate-400 font-medium">
+          {t('templates.template', { language: LocaleLabels[language].native })}
+        </label>
+        <textarea
+          value={template.template[language] ?? ''}
+          placeholder={language === 'en' ? undefined : template.template.en}
+          onChange={(e) => updateTemplate({ template: { ...template.template, [language]: e.target.value } })}
+          rows={5}
+          className={`${inputClass} font-mono text-xs`}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2 md:col-span-2">
+          <label className="text-xs text-slate-400 font-medium">{t('output.negative')}</label>
+          <input
+            value={template.negative}
+            onChange={(e) => updateTemplate({ negative: e.target.value })}
+            placeholder={t('templates.negativePlaceholder')}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs text-slate-400 font-medium">{t('templates.maxLength')}</label>
+          <input
+            type="number"
+            min={1}
+            value={template.maxLength ?? ''}
+            onChange={(e) => updateTemplate({ maxLength: Number(e.target.value) || undefined })}
+            placeholder={t('templates.noLimit')}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="text-xs text-slate-500 space-y-1">
+        <p>
+          {t('templates.placeholders')} {PLACEHOLDERS.map(p => (
+            <code key={p.name} title={t(`placeholder.${p.name}` as UiStringKey)} className="mr-1.5 text-slate-400">{`{{${p.name}}}`}</code>
+          ))}
+        </p>
+        <p className="italic">
+          {t('templates.sectionHint', { section: '{{#negative}}...{{/negative}}', placeholder: '{{negative}}' })}
+        </p>
+      </div>
+    </section>
+  );
+};
+
+export default PromptTemplatePanel;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { ProviderId, ProviderConfig, ProviderSettings } from '../types';
+import { PROVIDERS } from '../services/providerRegistry';
+import { Translate } from '../locales';
+import { Settings2, X } from 'lucide-react';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const inputClass = "w-full bg-slate-950 text-sm p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200";
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, onClose, t }) => {
+  const definition = PROVIDERS[settings.provider];
+  const config = settings.configs[settings.provider];
+
+  const updateConfig = (patch: Partial<ProviderConfig>) => {
+    onChange({
+      ...settings,
+      configs: { ...settings.configs, [settings.provider]: { ...config, ...patch } }
+    });
+  };
+
+  return (
+    <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Settings2 className="w-5 h-5 text-blue-400" />
+          {t('provider.title')}
+        </h2>
+        <button onClick={onClose} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('provider.close')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-xs text-slate-400 font-medium">{t('provider.provider')}</label>
+          <select
+            value={settings.provider}
+            onChange={(e) => onChange({ ...settings, provider: e.target.value as ProviderId })}
+            className={inputClass}
+          >
+            {Object.values(PROVIDERS).map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        {definition.usesModels && (
+          <>
+            <div className="space-y-2">
+              <label className="text-xs text-slate-400 font-medium">{t('provider.analysisModel')}</label>
+              <input
+                value={config.model}
+                onChange={(e) => updateConfig({ model: e.target.value })}
+                placeholder={definition.defaults.model}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs text-slate-400 font-medium">{t('provider.fastModel')}</label>
+              <input
+                value={config.fastModel}
+                onChange={(e) => updateConfig({ fastModel: e.target.value })}
+                placeholder={definition.defaults.fastModel}
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+        {definition.usesBaseUrl && (
+          <div className="space-y-2">
+            <label className="text-xs text-slate-400 font-medium">{t('provider.baseUrl')}</label>
+            <input
+              value={config.baseUrl}
+              onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+              placeholder={definition.defaults.baseUrl || t('provider.sameOrigin')}
+              className={inputClass}
+            />
+          </div>
+        )}
+        {definition.usesApiKey && (
+          <div className="space-y-2">
+            <label className="text-xs text-slate-400 font-medium">{t('provider.apiKey')}</label>
+            <input
+              type="password"
+              value={config.apiKey}
+              onChange={(e) => updateConfig({ apiKey: e.target.value })}
+              placeholder={settings.provider === 'gemini' ? t('provider.geminiKeyPlaceholder') : 'sk-...'}
+              className={inputClass}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <label className="text-xs text-slate-400 font-medium">{t('provider.timeout')}</label>
+          <input
+            type="number"
+            min={5}
+            value={settings.timeoutSeconds}
+            onChange={(e) => Number(e.target.value) > 0 && onChange({ ...settings, timeoutSeconds: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs text-slate-400 font-medium">{t('provider.retries')}</label>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={settings.maxRetries}
+            onChange={(e) => e.target.value !== '' && onChange({ ...settings, maxRetries: Math.max(0, Math.round(Number(e.target.value))) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 italic">
+        {t('provider.note')}
+      </p>
+    </section>
+  );
+};
+
+export default ProviderSettingsPanel;
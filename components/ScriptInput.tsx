@@ -0,0 +1,94 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { parseScript } from '../utils/script';
+import { Translate } from '../locales';
+import { FileText, Trash2, Upload } from 'lucide-react';
+
+interface ScriptInputProps {
+  // Script of the active scene, as prose or Fountain
+  script: string;
+  disabled?: boolean;
+  onChange: (script: string) => void;
+  t: Translate;
+}
+
+const buttonClass = "flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded border border-slate-700 text-xs transition-colors";
+
+// Scene text to plan the shots from. Typing stays local until the field loses
+// focus, so a paragraph is one undo step rather than one per key.
+const ScriptInput: React.FC<ScriptInputProps> = ({ script, disabled, onChange, t }) => {
+  const [draft, setDraft] = useState(script);
+
+  // Another scene, an undo or an opened project replaced the script
+  useEffect(() => {
+    setDraft(script);
+  }, [script]);
+
+  const parsed = useMemo(() => parseScript(draft), [draft]);
+  const beatCount = parsed.beats.filter(beat => beat.kind === 'action' || beat.kind === 'dialogue').length;
+
+  const commit = () => {
+    if (draft !== script) onChange(draft);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setDraft(text);
+      onChange(text);
+    } catch (error) {
+      console.error("Failed to read script file", error);
+      alert(t('script.readFailed', { name: file.name }));
+    }
+  };
+
+  return (
+    <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <FileText className="w-5 h-5 text-emerald-400" />
+          {t('script.title')}
+        </h2>
+        {beatCount > 0 && (
+          <span className="px-1.5 py-0.5 rounded bg-slate-800 text-[10px] text-slate-400">
+            {t(parsed.format === 'fountain' ? 'script.fountain' : 'script.prose', { count: beatCount })}
+          </span>
+        )}
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        disabled={disabled}
+        rows={8}
+        placeholder={t('script.placeholder')}
+        className="w-full bg-slate-950 text-xs font-mono p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200 disabled:opacity-60"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500 italic">{t('script.hint')}</p>
+        <div className="flex items-center gap-2 shrink-0">
+          <label className={`${buttonClass} ${disabled ? 'pointer-events-none opacity-40' : 'cursor-pointer'}`}>
+            <Upload className="w-3 h-3" />
+            {t('script.load')}
+            <input type="file" accept=".fountain,.txt,.md,text/plain" onChange={handleFile} disabled={disabled} className="hidden" />
+          </label>
+          <button
+            onClick={() => {
+              setDraft('');
+              onChange('');
+            }}
+            disabled={disabled || !draft}
+            className={buttonClass}
+          >
+            <Trash2 className="w-3 h-3" />
+            {t('script.clear')}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ScriptInput;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { StoryboardScene, SceneTransition, LocaleCode } from '../types';
+import { findSceneTransition } from '../services/sequence';
+import { textIn } from '../utils/locale';
+import { Translate } from '../locales';
+import { Clapperboard, Plus, ChevronLeft, ChevronRight, Trash2, Pencil, RefreshCcw, ArrowRight, Copy, Check, FileSpreadsheet } from 'lucide-react';
+
+interface SequenceEditorProps {
+  scenes: StoryboardScene[];
+  activeSceneId: string;
+  sceneTransitions: SceneTransition[];
+  language: LocaleCode;
+  generatingTransitionIndex: number | null;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (index: number, direction: -1 | 1) => void;
+  onGenerateTransition: (index: number) => void;
+  onGenerateAllTransitions: () => void;
+  onExportShotList: () => void;
+  t: Translate;
+}
+
+const SequenceEditor: React.FC<SequenceEditorProps> = ({
+  scenes,
+  activeSceneId,
+  sceneTransitions,
+  language,
+  generatingTransitionIndex,
+  onSelect,
+  onAdd,
+  onRename,
+  onDelete,
+  onMove,
+  onGenerateTransition,
+  onGenerateAllTransitions,
+  onExportShotList,
+  t
+}) => {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const copyPrompt = (text: string, index: number) => {
+    navigator.clipboard.writeText(text).then(() => {
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(null), 2000);
+    });
+  };
+
+  const renameScene = (scene: StoryboardScene) => {
+    const name = prompt(t('sequence.namePrompt'), scene.name)?.trim();
+    if (name) onRename(scene.id, name);
+  };
+
+  return (
+    <section className="bg-slate-900/50 p-4 rounded-2xl border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Clapperboard className="w-5 h-5 text-blue-400" />
+          {t('sequence.title')}
+        </h2>
+        <button
+          onClick={onExportShotList}
+          title={t('sequence.exportTitle')}
+          className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded text-xs font-medium border border-slate-700 transition-colors"
+        >
+          <FileSpreadsheet className="w-3.5 h-3.5" />
+          {t('sequence.export')}
+        </button>
+      </div>
+
+      <div className="flex items-stretch gap-2 overflow-x-auto pb-1">
+        {scenes.map((scene, i) => (
+          <div
+            key={scene.id}
+            className={`group shrink-0 flex items-center gap-1 pl-3 pr-1 py-1.5 rounded-lg border transition-all ${
+              scene.id === activeSceneId ? 'border-blue-500 bg-blue-500/10' : 'border-slate-800 hover:border-slate-700'
+            }`}
+          >
+            <button onClick={() => onSelect(scene.id)} className="text-left">
+              <p className="text-sm font-medium text-slate-100">{i + 1}. {scene.name}</p>
+              <p className="text-[10px] text-slate-500">{scene.layout} · {scene.result ? t('sequence.generated') : t('sequence.draft')}</p>
+            </button>
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => onMove(i, -1)} disabled={i === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" title={t('sequence.moveEarlier')}>
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => onMove(i, 1)} disabled={i === scenes.length - 1} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" title={t('sequence.moveLater')}>
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => renameScene(scene)} className="p-1 text-slate-400 hover:text-white" title={t('sequence.rename')}>
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onDelete(scene.id)}
+                disabled={scenes.length === 1}
+                className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-30"
+                title={t('sequence.delete')}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={onAdd}
+          className="shrink-0 flex items-center gap-1 px-3 py-1.5 border-2 border-dashed border-slate-700 rounded-lg text-xs text-slate-400 hover:border-blue-400 hover:text-blue-300 transition-all"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          {t('sequence.add')}
+        </button>
+      </div>
+
+      {scenes.length > 1 && (
+        <details className="group/transitions">
+          <summary className="cursor-pointer text-sm text-slate-400 hover:text-slate-200 select-none">
+            {t('sequence.transitions', { count: scenes.length - 1 })}
+          </summary>
+          <div className="mt-3 space-y-3">
+            <button
+              onClick={onGenerateAllTransitions}
+              disabled={generatingTransitionIndex !== null}
+              className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 rounded text-xs font-medium transition-all"
+            >
+              <RefreshCcw className={`w-3.5 h-3.5 ${generatingTransitionIndex !== null ? 'animate-spin' : ''}`} />
+              {t('sequence.generateAll')}
+            </button>
+            {scenes.slice(0, -1).map((scene, i) => {
+              const next = scenes[i + 1];
+              const transition = findSceneTransition(sceneTransitions, scene, next);
+              const text = transition ? textIn(transition.prompt, language) : '';
+              return (
+                <div key={`${scene.id}-${next.id}`} className="p-3 bg-slate-900/30 rounded-xl border border-slate-800 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-xs font-semibold text-purple-400">
+                      <span>{t('sequence.lastShot', { name: scene.name })}</span>
+                      <ArrowRight className="w-3.5 h-3.5" />
+                      <span>{t('sequence.firstShot', { name: next.name })}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {transition && (
+                        <button
+                          onClick={() => copyPrompt(text, i)}
+                          className="p-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700"
+                          title={t('common.copy')}
+                        >
+                          {copiedIndex === i ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onGenerateTransition(i)}
+                        disabled={generatingTransitionIndex !== null || !scene.result || !next.result}
+                        title={!scene.result || !next.result ? t('sequence.needsScenes') : t('sequence.generateTransition')}
+                        className="p-1.5 bg-slate-800 hover:bg-purple-600 disabled:opacity-40 rounded border border-slate-700"
+                      >
+                        <RefreshCcw className={`w-3 h-3 ${generatingTransitionIndex === i ? 'animate-spin' : ''}`} />
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-sm text-slate-300 leading-relaxed">
+                    {text || <span className="italic text-slate-500">{t('sequence.notGenerated')}</span>}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </details>
+      )}
+    </section>
+  );
+};
+
+export default SequenceEditor;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ShotVersion, LocalizedText, LocaleCode } from '../types';
+import { Translate, UiStringKey, LOCALE_TAGS } from '../locales';
+import { diffText, DiffPart } from '../utils/textDiff';
+import { describeShotSpec } from '../utils/shotSpec';
+import { textIn } from '../utils/locale';
+import { History, X, RotateCcw } from 'lucide-react';
+
+interface ShotHistoryPanelProps {
+  shotId: number;
+  versions: ShotVersion[];
+  // Description currently shown on the shot card
+  current: LocalizedText;
+  // Output language the descriptions are shown and compared in
+  language: LocaleCode;
+  uiLocale: LocaleCode;
+  onRestore: (version: ShotVersion) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const SOURCE_LABELS: Record<ShotVersion['source'], UiStringKey> = {
+  generated: 'history.generated',
+  regenerated: 'history.regenerated',
+  edited: 'history.edited'
+};
+
+const DiffText: React.FC<{ parts: DiffPart[]; side: 'before' | 'after' }> = ({ parts, side }) => (
+  <p className="text-sm text-slate-300 leading-relaxed whitespace-pre-wrap">
+    {parts.map((part, i) => {
+      if (part.type === 'same') return <span key={i}>{part.text}</span>;
+      if (side === 'before' && part.type === 'removed') {
+        return <span key={i} className="bg-red-900/50 text-red-200 line-through decoration-red-400/60">{part.text}</span>;
+      }
+      if (side === 'after' && part.type === 'added') {
+        return <span key={i} className="bg-green-900/50 text-green-200">{part.text}</span>;
+      }
+      return null;
+    })}
+  </p>
+);
+
+const ShotHistoryPanel: React.FC<ShotHistoryPanelProps> = ({ shotId, versions, current, language, uiLocale, onRestore, onClose, t }) => {
+  // Newest first; compare the latest version with the one before it by default
+  const ordered = [...versions].reverse();
+  const [left, setLeft] = useState(Math.min(1, ordered.length - 1));
+  const [right, setRight] = useState(0);
+
+  const before = ordered[left];
+  const after = ordered[right];
+  const parts = before && after ? diffText(textIn(before.description, language), textIn(after.description, language)) : [];
+  const isCurrent = (version: ShotVersion) =>
+    Object.keys({ ...version.description, ...current }).every(code =>
+      version.description[code as LocaleCode] === current[code as LocaleCode]
+    );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[85vh] overflow-auto bg-slate-900 rounded-2xl border border-slate-800 p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-slate-800 pb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-400" />
+            {t('history.title', { number: shotId })}
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('history.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {ordered.length === 0 ? (
+          <p className="text-sm text-slate-500 italic">{t('history.empty')}</p>
+        ) : (
+          <>
+            {before && after && left !== right && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="p-3 bg-slate-950/50 rounded-xl border border-red-900/40 space-y-2">
+                  <p className="text-xs text-slate-500">A · {new Date(before.createdAt).toLocaleString(LOCALE_TAGS[uiLocale])}</p>
+                  <DiffText parts={parts} side="before" />
+                </div>
+                <div className="p-3 bg-slate-950/50 rounded-xl border border-green-900/40 space-y-2">
+                  <p className="text-xs text-slate-500">B · {new Date(after.createdAt).toLocaleString(LOCALE_TAGS[uiLocale])}</p>
+                  <DiffText parts={parts} side="after" />
+                </div>
+              </div>
+            )}
+
+            <ul className="space-y-2">
+              {ordered.map((version, i) => (
+                <li key={`${version.createdAt}-${i}`} className="p-3 bg-slate-950/40 rounded-lg border border-slate-800 flex gap-3">
+                  <div className="flex flex-col gap-1 text-[10px] text-slate-400 shrink-0">
+                    <label className="flex items-center gap-1 cursor-pointer">
+                      <input type="radio" checked={left === i} onChange={() => setLeft(i)} className="accent-red-500" />
+                      A
+                    </label>
+                    <label className="flex items-center gap-1 cursor-pointer">
+                      <input type="radio" checked={right === i} onChange={() => setRight(i)} className="accent-green-500" />
+                      B
+                    </label>
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                      <span className="font-medium text-slate-300">{t(SOURCE_LABELS[version.source])}</span>
+                      <span>{new Date(version.createdAt).toLocaleString(LOCALE_TAGS[uiLocale])}</span>
+                      <span>{describeShotSpec(version.spec, uiLocale)}</span>
+                      {isCurrent(version) && <span className="px-1.5 py-0.5 rounded bg-blue-600/30 text-blue-200">{t('history.current')}</span>}
+                    </div>
+                    <p className="text-sm text-slate-300 line-clamp-3">{textIn(version.description, language)}</p>
+                  </div>
+                  <button
+                    onClick={() => onRestore(version)}
+                    disabled={isCurrent(version)}
+                    title={t('history.useTitle')}
+                    className="self-start flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-blue-600 disabled:opacity-40 disabled:hover:bg-slate-800 rounded border border-slate-700 text-xs transition-colors"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    {t('history.use')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShotHistoryPanel;
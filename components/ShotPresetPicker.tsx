@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { GridLayout, LocaleCode, ShotPreset, ShotSpec } from '../types';
+import { adaptShots, createShotPreset, exportShotPresets, loadShotPresets, parseShotPresetFile, saveShotPresets } from '../services/shotPresets';
+import { downloadText } from '../services/projectFile';
+import { getShotCount } from '../utils/grid';
+import { textIn } from '../utils/locale';
+import { Translate } from '../locales';
+import { ListOrdered, Check, Plus, Trash2, Upload, Download } from 'lucide-react';
+
+interface ShotPresetPickerProps {
+  layout: GridLayout;
+  // Current shot plan, saved as a new preset
+  shots: ShotSpec[];
+  onApply: (shots: ShotSpec[]) => void;
+  uiLocale: LocaleCode;
+  t: Translate;
+}
+
+const buttonClass = "flex items-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded border border-slate-700 text-xs transition-colors";
+
+const ShotPresetPicker: React.FC<ShotPresetPickerProps> = ({ layout, shots, onApply, uiLocale, t }) => {
+  const [presets, setPresets] = useState<ShotPreset[]>(loadShotPresets);
+  const [selectedId, setSelectedId] = useState('');
+
+  useEffect(() => {
+    saveShotPresets(presets);
+  }, [presets]);
+
+  const matching = presets.filter(preset => preset.layout === layout);
+  const others = presets.filter(preset => preset.layout !== layout);
+  // Falls back to the first preset written for this layout
+  const preset = presets.find(p => p.id === selectedId) ?? matching[0] ?? presets[0];
+
+  const presetName = (p: ShotPreset) => textIn(p.name, uiLocale);
+
+  const applyPreset = () => {
+    if (preset) onApply(adaptShots(preset.shots, getShotCount(layout)));
+  };
+
+  const savePreset = () => {
+    const name = prompt(t('shotPresets.namePrompt'))?.trim();
+    if (!name) return;
+    const created = createShotPreset(name, layout, shots);
+    setPresets(prev => [...prev, created]);
+    setSelectedId(created.id);
+  };
+
+  const deletePreset = () => {
+    if (!preset || preset.builtIn) return;
+    if (!confirm(t('shotPresets.confirmDelete', { name: presetName(preset) }))) return;
+    setPresets(prev => prev.filter(p => p.id !== preset.id));
+    setSelectedId('');
+  };
+
+  const importPresets = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseShotPresetFile(await file.text());
+      setPresets(prev => [...prev, ...imported]);
+      setSelectedId(imported[0].id);
+      alert(t('shotPresets.imported', { count: imported.length }));
+    } catch (error) {
+      console.error("Failed to import shot presets", error);
+      alert(t('shotPresets.importFailed', { file: file.name, error: error instanceof Error ? error.message : String(error) }));
+    }
+  };
+
+  const custom = presets.filter(p => !p.builtIn);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs text-slate-400 font-medium flex items-center gap-1">
+        <ListOrdered className="w-3 h-3" /> {t('shotPresets.title')}
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={preset?.id ?? ''}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-1 min-w-[10rem] bg-slate-950 text-sm p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200"
+        >
+          {matching.length > 0 && (
+            <optgroup label={t('shotPresets.forLayout', { layout })}>
+              {matching.map(p => <option key={p.id} value={p.id}>{presetName(p)}</option>)}
+            </optgroup>
+          )}
+          {others.length > 0 && (
+            <optgroup label={t('shotPresets.otherLayouts', { count: getShotCount(layout) })}>
+              {others.map(p => <option key={p.id} value={p.id}>{presetName(p)} ({p.layout})</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={applyPreset} disabled={!preset} className={buttonClass}>
+          <Check className="w-3 h-3" />
+          {t('shotPresets.apply')}
+        </button>
+        <button onClick={savePreset} className={buttonClass} title={t('shotPresets.saveTitle')}>
+          <Plus className="w-3 h-3" />
+          {t('common.save')}
+        </button>
+        {preset && !preset.builtIn && (
+          <button onClick={deletePreset} className={`${buttonClass} hover:bg-red-600`}>
+            <Trash2 className="w-3 h-3" />
+            {t('common.delete')}
+          </button>
+        )}
+        <label className={`${buttonClass} cursor-pointer`} title={t('shotPresets.importTitle')}>
+          <Upload className="w-3 h-3" />
+          {t('shotPresets.import')}
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              importPresets(file);
+            }}
+          />
+        </label>
+        <button
+          onClick={() => downloadText(exportShotPresets(custom), 'shot-presets.json', 'application/json')}
+          disabled={custom.length === 0}
+          className={buttonClass}
+          title={t('shotPresets.exportTitle')}
+        >
+          <Download className="w-3 h-3" />
+          {t('shotPresets.export')}
+        </button>
+      </div>
+      {preset && preset.layout !== layout && (
+        <p className="text-[10px] text-slate-500">
+          {t('shotPresets.adaptHint', { from: preset.shots.length, to: getShotCount(layout) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ShotPresetPicker;
@@ -0,0 +1,78 @@
+import React from 'react';
+import {
+  ShotSpec, ShotFraming, ShotFramingLabels, CameraAngle, CameraAngleLabels,
+  Lens, LensLabels, CameraMovement, CameraMovementLabels, LocaleCode
+} from '../types';
+import { Translate } from '../locales';
+
+interface ShotSpecEditorProps {
+  spec: ShotSpec;
+  language: LocaleCode;
+  onChange: (spec: ShotSpec) => void;
+  t: Translate;
+}
+
+const selectClass = "w-full bg-slate-950 text-xs p-1.5 rounded border border-slate-800 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-slate-300";
+
+const ShotSpecEditor: React.FC<ShotSpecEditorProps> = ({ spec, language, onChange, t }) => {
+  const update = (patch: Partial<ShotSpec>) => onChange({ ...spec, ...patch });
+
+  return (
+    <div className="space-y-1">
+      <select
+        value={spec.framing}
+        onChange={(e) => update({ framing: e.target.value as ShotFraming })}
+        title={t('spec.framing')}
+        className={selectClass}
+      >
+        {Object.values(ShotFraming).map(value => (
+          <option key={value} value={value}>{ShotFramingLabels[value][language]}</option>
+        ))}
+      </select>
+      <select
+        value={spec.angle}
+        onChange={(e) => update({ angle: e.target.value as CameraAngle })}
+        title={t('spec.angle')}
+        className={selectClass}
+      >
+        {Object.values(CameraAngle).map(value => (
+          <option key={value} value={value}>{CameraAngleLabels[value][language]}</option>
+        ))}
+      </select>
+      <select
+        value={spec.lens}
+        onChange={(e) => update({ lens: e.target.value as Lens })}
+        title={t('spec.lens')}
+        className={selectClass}
+      >
+        {Object.values(Lens).map(value => (
+          <option key={value} value={value}>{LensLabels[value][language]}</option>
+        ))}
+      </select>
+      <div className="flex gap-1">
+        <select
+          value={spec.movement}
+          onChange={(e) => update({ movement: e.target.value as CameraMovement })}
+          title={t('spec.movement')}
+          className={`${selectClass} flex-1 min-w-0`}
+        >
+          {Object.values(CameraMovement).map(value => (
+            <option key={value} value={value}>{CameraMovementLabels[value][language]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={spec.duration ?? ''}
+          onChange={(e) => update({ duration: Number(e.target.value) || undefined })}
+          placeholder={t('spec.durationUnit')}
+          title={t('spec.duration')}
+          className={`${selectClass} w-12 shrink-0`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ShotSpecEditor;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { LocaleCode, VisualStyle } from '../types';
+import { createStyle, loadStyles, saveStyles } from '../services/stylePresets';
+import { textIn } from '../utils/locale';
+import { Translate, UiStringKey } from '../locales';
+import { Palette, Plus, Trash2 } from 'lucide-react';
+
+interface StylePickerProps {
+  // Style of the active scene; a copy of a preset, so it survives the preset being deleted
+  style: VisualStyle | null;
+  uiLocale: LocaleCode;
+  onChange: (style: VisualStyle | null) => void;
+  t: Translate;
+}
+
+const FIELDS: { key: 'palette' | 'lighting' | 'filmStock' | 'era'; label: UiStringKey }[] = [
+  { key: 'palette', label: 'style.palette' },
+  { key: 'lighting', label: 'style.lighting' },
+  { key: 'filmStock', label: 'style.filmStock' },
+  { key: 'era', label: 'style.era' }
+];
+
+const inputClass = "w-full bg-slate-950 text-xs p-1.5 rounded border border-slate-800 focus:border-blue-500 text-slate-200";
+const buttonClass = "flex items-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-xs transition-colors";
+
+const StylePicker: React.FC<StylePickerProps> = ({ style, uiLocale, onChange, t }) => {
+  const [styles, setStyles] = useState<VisualStyle[]>(loadStyles);
+
+  useEffect(() => {
+    saveStyles(styles);
+  }, [styles]);
+
+  // A scene opened from a file may carry a style this browser doesn't have
+  const fromProject = style && !styles.some(s => s.id === style.id) ? style : null;
+
+  const selectStyle = (id: string) => {
+    const picked = styles.find(s => s.id === id);
+    onChange(picked ? { ...picked, name: { ...picked.name } } : null);
+  };
+
+  const duplicateStyle = () => {
+    if (!style) return;
+    const name = prompt(t('style.namePrompt'), t('style.copyName', { name: textIn(style.name, uiLocale) }))?.trim();
+    if (!name) return;
+    const copy = createStyle(style, name);
+    setStyles(prev => [...prev, copy]);
+    onChange(copy);
+  };
+
+  const deleteStyle = () => {
+    if (!style || style.builtIn) return;
+    if (!confirm(t('style.confirmDelete', { name: style.name.en }))) return;
+    setStyles(prev => prev.filter(s => s.id !== style.id));
+    onChange(null);
+  };
+
+  // Edits apply to the scene and to the saved style of the same id
+  const updateStyle = (patch: Partial<VisualStyle>) => {
+    if (!style || style.builtIn) return;
+    const updated = { ...style, ...patch };
+    setStyles(prev => prev.map(s => s.id === updated.id ? updated : s));
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-2 pb-2 border-b border-slate-800">
+      <label className="text-xs text-slate-400 font-medium flex items-center gap-1">
+        <Palette className="w-3 h-3" /> {t('style.title')}
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={style?.id ?? ''}
+          onChange={(e) => selectStyle(e.target.value)}
+          className="flex-1 min-w-[10rem] bg-slate-950 text-sm p-2 rounded-lg border border-slate-800 focus:border-blue-500 text-slate-200"
+        >
+          <option value="">{t('style.none')}</option>
+          {styles.map(s => <option key={s.id} value={s.id}>{textIn(s.name, uiLocale)}</option>)}
+          {fromProject && (
+            <option value={fromProject.id}>{t('style.fromProject', { name: textIn(fromProject.name, uiLocale) })}</option>
+          )}
+        </select>
+        {style && (
+          <button onClick={duplicateStyle} className={buttonClass}>
+            <Plus className="w-3 h-3" />
+            {t('common.duplicate')}
+          </button>
+        )}
+        {style && !style.builtIn && styles.some(s => s.id === style.id) && (
+          <button onClick={deleteStyle} className={`${buttonClass} hover:bg-red-600`}>
+            <Trash2 className="w-3 h-3" />
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+      {style && (style.builtIn ? (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-[11px]">
+          {FIELDS.map(({ key, label }) => style[key].trim() && (
+            <React.Fragment key={key}>
+              <dt className="text-slate-500">{t(label)}</dt>
+              <dd className="text-slate-300">{style[key]}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="col-span-2 space-y-1 text-[11px] text-slate-500">
+            <span>{t('common.name')}</span>
+            <input value={style.name.en} onChange={(e) => updateStyle({ name: { en: e.target.value } })} className={inputClass} />
+          </label>
+          {FIELDS.map(({ key, label }) => (
+            <label key={key} className="space-y-1 text-[11px] text-slate-500">
+              <span>{t(label)}</span>
+              <input value={style[key]} onChange={(e) => updateStyle({ [key]: e.target.value })} className={inputClass} />
+            </label>
+          ))}
+        </div>
+      ))}
+      <p className="text-[10px] text-slate-500">{t('style.hint')}</p>
+    </div>
+  );
+};
+
+export default StylePicker;
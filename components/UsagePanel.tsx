@@ -0,0 +1,88 @@
+import React from 'react';
+import { LocaleCode, UsageEntry } from '../types';
+import { PROVIDERS } from '../services/providerRegistry';
+import { estimateCost, totalUsage } from '../services/usage';
+import { LOCALE_TAGS, Translate } from '../locales';
+import { BarChart3, RotateCcw, X } from 'lucide-react';
+
+interface UsagePanelProps {
+  usage: UsageEntry[];
+  uiLocale: LocaleCode;
+  onReset: () => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ usage, uiLocale, onReset, onClose, t }) => {
+  const totals = totalUsage(usage);
+  const formatNumber = (value: number) => value.toLocaleString(LOCALE_TAGS[uiLocale]);
+  const formatCost = (value: number | null) => value === null
+    ? t('usage.unknownPrice')
+    : value.toLocaleString(LOCALE_TAGS[uiLocale], { style: 'currency', currency: 'USD', maximumFractionDigits: 4 });
+
+  return (
+    <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-blue-400" />
+          {t('usage.title')}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => confirm(t('usage.confirmReset')) && onReset()}
+            disabled={usage.length === 0}
+            className="flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded text-xs border border-slate-700"
+          >
+            <RotateCcw className="w-3 h-3" />
+            {t('usage.reset')}
+          </button>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-800 rounded text-slate-400" title={t('usage.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {usage.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">{t('usage.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-400 border-b border-slate-800">
+                <th className="text-left font-medium py-2">{t('usage.model')}</th>
+                <th className="text-right font-medium py-2">{t('usage.requests')}</th>
+                <th className="text-right font-medium py-2">{t('usage.input')}</th>
+                <th className="text-right font-medium py-2">{t('usage.output')}</th>
+                <th className="text-right font-medium py-2">{t('usage.cost')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.map(entry => (
+                <tr key={`${entry.provider}:${entry.model}`} className="border-b border-slate-800/50 text-slate-300">
+                  <td className="py-2">
+                    <span className="font-mono">{entry.model}</span>
+                    <span className="ml-2 text-xs text-slate-500">{PROVIDERS[entry.provider].label}</span>
+                  </td>
+                  <td className="py-2 text-right">{formatNumber(entry.requests)}</td>
+                  <td className="py-2 text-right">{formatNumber(entry.inputTokens)}</td>
+                  <td className="py-2 text-right">{formatNumber(entry.outputTokens)}</td>
+                  <td className="py-2 text-right">{formatCost(estimateCost(entry))}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold text-slate-100">
+                <td className="py-2">{t('usage.total')}</td>
+                <td className="py-2 text-right">{formatNumber(totals.requests)}</td>
+                <td className="py-2 text-right">{formatNumber(totals.inputTokens)}</td>
+                <td className="py-2 text-right">{formatNumber(totals.outputTokens)}</td>
+                <td className="py-2 text-right">{formatCost(totals.cost)}{totals.costIncomplete ? '+' : ''}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-xs text-slate-500 italic">{t('usage.note')}</p>
+    </section>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,368 @@
+import { UiCatalog } from './en';
+
+// Simplified Chinese
+export const cn: UiCatalog = {
+  'app.title': 'AI 分镜大师',
+  'app.tagline': '根据你的图片，为 Midjourney、SDXL 和 DALL·E 生成风格一致的分镜提示词。',
+  'app.footerTip': '提示：在提示词输出上方选择你使用的图像生成器，或编辑其模板来修改 "--stylize"、"--chaos" 等参数。本工具确保人物与环境细节在整个网格中保持一致。',
+
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'common.close': '关闭',
+  'common.edit': '编辑',
+  'common.delete': '删除',
+  'common.rename': '重命名',
+  'common.duplicate': '复制',
+  'common.reset': '重置',
+  'common.dismiss': '忽略',
+  'common.copy': '复制',
+  'common.copied': '已复制',
+  'common.name': '名称',
+
+  'header.projectName': '项目名称',
+  'header.undo': '撤销 (Ctrl+Z)',
+  'header.redo': '重做 (Ctrl+Shift+Z)',
+  'header.projects': '项目',
+  'header.projectsTitle': '浏览已保存的项目',
+  'header.import': '导入',
+  'header.importTitle': '导入 {extension} 文件',
+  'header.export': '导出',
+  'header.exportTitle': '将此分镜导出为 {extension} 文件',
+  'header.providerTitle': '模型服务设置',
+  'header.uiLanguage': '界面语言',
+  'header.usage': '用量',
+  'header.usageTitle': '本项目的 token 用量与预估费用',
+  'header.cache': '缓存',
+  'header.cacheTitle': '已缓存的分镜',
+
+  'progress.scene': '正在撰写场景描述...',
+  'progress.shots': '正在撰写第 {next}/{total} 个镜头...',
+  'progress.transitions': '正在撰写第 {next}/{total} 个转场...',
+  'progress.repair': '正在请求缺失部分（第 {next}/{total} 次尝试）...',
+
+  'status.analyzing': '正在分析参考图与剧本并生成镜头...',
+  'status.completed': '生成成功！',
+  'status.partial': '模型返回的分镜不完整，缺失部分已在下方标出。',
+  'status.cancelled': '已取消生成。',
+  'status.failed': '分镜生成失败。',
+  'status.repaired': '分镜已修复。',
+
+  'error.import': '无法导入“{file}”：{error}',
+  'error.noReferences': '请至少上传一张图片、添加带图片的设定条目，或填写场景剧本。',
+  'error.sceneTransition': '场景转场生成失败，请重试。',
+  'error.sceneTransitions': '场景转场生成失败，请重试。',
+  'error.saveAsset': '设定条目保存失败，请重试。',
+  'error.regenerateShot': '镜头重新生成失败，请重试。',
+  'error.review': '审查生成的分镜失败。',
+  'error.regenerateTransition': '从镜头 {shot} 出发的转场重新生成失败，请重试。',
+  'error.propagate': '未能更新全部镜头，已更新的镜头会保留。',
+  'error.repair': '补全缺失部分失败，请重试。',
+  'error.auth': 'API 密钥被拒绝，请在模型服务设置中检查。',
+  'error.quota': '超出速率限制或配额。请稍后重试，或检查你的套餐。',
+  'error.safety': '模型出于安全原因拒绝了请求。请调整参考图或描述后重试。',
+  'error.timeout': '模型未能及时响应。请重试，或在模型服务设置中调高超时时间。',
+  'error.malformed': '模型返回的内容无法解析，请重试。',
+  'error.network': '无法连接模型服务。请检查服务地址和网络连接。',
+  'error.unknown': '请求失败：{detail}',
+
+  'scene.defaultName': '场景 {number}',
+  'scene.confirmDelete': '删除“{name}”及其分镜？',
+
+  'references.title': '1. 参考图片',
+  'references.upload': '上传',
+  'references.alt': '参考图 {number}',
+  'references.hint': '上传、拖入或粘贴人物、服装或环境的图片。',
+  'references.drop': '松开以添加图片',
+
+  'images.preparing': '正在处理图片...',
+  'images.unsupported': '不支持的图片：{files}',
+  'images.tooLarge': '超过 {limit} MB：{files}',
+  'images.duplicate': '已添加过：{files}',
+  'images.limit': '超出 {limit} 张图片的上限：{files}',
+  'images.settings': '图片处理',
+  'images.maxDimension': '最长边（像素）',
+  'images.quality': 'JPEG 质量（%）',
+  'images.maxFileMb': '单张上传上限（MB）',
+  'images.maxImages': '每个场景或条目的图片数',
+  'images.settingsHint': '上传的图片会先校正方向、缩小并重新编码再保存。与已添加图片相同的图片会被跳过。',
+
+  'settings.title': '2. 分镜设置',
+  'settings.aspectRatio': '画幅比例',
+  'settings.outputLanguages': '输出语言',
+  'settings.outputLanguagesHint': '本项目生成的所有文本都会使用这些语言。英文始终包含；缺少新添加语言的文本会列为待补全的缺口。',
+  'settings.shot': '镜头 {number}',
+  'settings.shotAsset': '{name} 出现在镜头 {number}',
+  'settings.generate': '生成分镜提示词',
+  'settings.generating': '生成中...',
+
+  'aspect.cinematic': '电影',
+  'aspect.portrait': '竖屏',
+  'aspect.tv': '电视',
+  'aspect.poster': '海报',
+  'aspect.square': '方形',
+
+  'layout.title': '网格布局',
+  'layout.preset': '{label}（{count} 个镜头）',
+  'layout.custom': '自定义（{layout}）',
+  'layout.rows': '行数',
+  'layout.columns': '列数',
+  'layout.rowsSuffix': '行 ×',
+  'layout.columnsSuffix': '列',
+  'layoutPreset.3x3': '3x3 经典',
+  'layoutPreset.2x2': '2x2 四格',
+  'layoutPreset.1x3': '1x3 三联',
+  'layoutPreset.2x3': '2x3 分镜表',
+  'layoutPreset.3x2': '3x2 分镜表',
+  'layoutPreset.4x4': '4x4 联系表',
+  'layoutPreset.1x4': '1x4 条漫',
+  'layoutPreset.1x5': '1x5 条漫',
+
+  'shotPresets.title': '镜头序列预设',
+  'shotPresets.forLayout': '适用于 {layout}',
+  'shotPresets.otherLayouts': '其他布局（调整为 {count} 个镜头）',
+  'shotPresets.apply': '应用',
+  'shotPresets.saveTitle': '将当前镜头计划保存为预设',
+  'shotPresets.namePrompt': '预设名称',
+  'shotPresets.confirmDelete': '删除预设“{name}”？',
+  'shotPresets.import': '导入',
+  'shotPresets.importTitle': '从 JSON 文件导入预设',
+  'shotPresets.imported': '已导入 {count} 个预设。',
+  'shotPresets.importFailed': '无法从 {file} 导入预设：{error}',
+  'shotPresets.export': '导出',
+  'shotPresets.exportTitle': '将已保存的预设导出为 JSON 文件',
+  'shotPresets.adaptHint': '原为 {from} 个镜头设计；应用时保留首尾镜头，其余均匀分布到 {to} 个镜头。',
+
+  'style.title': '视觉风格',
+  'style.none': '无风格（沿用参考图）',
+  'style.fromProject': '{name}（来自此项目）',
+  'style.palette': '色板 / 调色',
+  'style.lighting': '布光风格',
+  'style.filmStock': '胶片与镜头质感',
+  'style.era': '年代',
+  'style.namePrompt': '风格名称',
+  'style.copyName': '{name} 副本',
+  'style.confirmDelete': '删除风格“{name}”？',
+  'style.hint': '应用于分析、镜头重写和最终图像提示词。复制一个风格即可编辑。',
+
+  'script.title': '场景剧本',
+  'script.placeholder': '粘贴散文描述或 Fountain 格式的场景，例如\n\nINT. ROOFTOP BAR - NIGHT\n\nRain streaks the glass. MARA nurses a drink.\n\nJONAS\nYou came.',
+  'script.hint': '可选。动作与对白会分配到各个镜头；有剧本时参考图片可不上传。',
+  'script.fountain': '剧本 · {count} 个节拍',
+  'script.prose': '散文 · {count} 个节拍',
+  'script.load': '载入文件',
+  'script.clear': '清空',
+  'script.readFailed': '无法读取“{name}”。',
+  'script.suggested': '建议：{framing}',
+  'script.applyTitle': '采用为该节拍建议的景别；重新生成镜头以改写描述',
+  'script.applyAll': '采用 {count} 个建议景别',
+  'script.applyAllTitle': '采用为剧本节拍建议的景别；重新生成镜头以改写描述',
+
+  'spec.framing': '景别',
+  'spec.angle': '机位角度',
+  'spec.lens': '镜头焦段',
+  'spec.movement': '运镜',
+  'spec.duration': '时长（秒）',
+  'spec.durationUnit': '秒',
+
+  'partial.title': '结果不完整',
+  'partial.sceneMissing': '缺少场景提示词。',
+  'partial.missingShots': '缺失镜头：{shots}',
+  'partial.missingTransitions': '缺失转场：{transitions}',
+  'partial.issues': '{count} 个校验问题',
+  'partial.repair': '请求缺失部分',
+
+  'output.title': '生成的提示词',
+  'output.language': '下方生成文本的显示语言',
+  'output.target': '提示词所适配的图像生成器',
+  'output.editTemplates': '编辑提示词模板',
+  'output.copyFor': '复制用于 {name}',
+  'output.copied': '已复制！',
+  'output.truncated': '已截断至 {name} 的 {limit} 字符上限。',
+  'output.negative': '反向提示词',
+  'output.scene': '场景描述',
+  'output.sceneEdited': '场景描述已被修改。是否按新描述重写镜头？手动编辑过的镜头会保留。',
+  'output.updateShots': '更新镜头',
+  'output.breakdown': '镜头拆解与调整',
+  'output.breakdownHint': '修改机位设置后点击刷新即可更新描述',
+  'output.shot': '镜头 {number}',
+  'output.history': '版本历史',
+  'output.regenerateShot': '重新生成此镜头描述',
+  'output.dragShot': '拖动以调整顺序',
+  'output.insertShot': '在此镜头后插入镜头',
+  'output.deleteShot': '删除此镜头',
+  'output.shotCountUnsupported': '不超过 8x8 的网格无法容纳 {count} 个镜头',
+  'output.waitingShot': '等待镜头 {number}...',
+  'output.missingShot': '模型响应中缺少此镜头。点击刷新以生成。',
+  'output.transitions': '视频生成提示词（图生视频）',
+  'output.transitionsHint': '以镜头 N 为首帧、镜头 N+1 为尾帧生成视频转场（如 Luma、Runway、Veo）时，使用这些详细提示词。',
+  'output.autoRefresh': '重新生成镜头时刷新相邻转场',
+  'output.outdated': '已过期',
+  'output.outdatedTitle': '此转场连接的镜头在撰写后已被修改',
+  'output.regenerateTransition': '根据当前镜头重新生成此转场',
+  'output.waitingTransition': '等待此转场...',
+  'output.missingTransition': '模型响应中缺少此转场。点击刷新或使用“请求缺失部分”来补全。',
+  'output.noTransitions': '未生成转场。',
+  'output.imagining': 'AI 正在构思你的分镜...',
+  'output.empty': '上传参考图或填写场景剧本，然后点击生成，见证奇迹。',
+
+  'edit.title': '编辑此文本',
+  'edit.saveTitle': '保存 (Ctrl+Enter)',
+  'edit.edited': '已手动编辑',
+  'edit.outOfSync': '未同步',
+  'edit.outOfSyncTitle': '其他语言尚未同步更新。点击重新翻译。',
+  'edit.translating': '翻译中...',
+
+  'history.title': '镜头 {number} 历史',
+  'history.close': '关闭历史',
+  'history.empty': '此镜头还没有记录的版本。',
+  'history.generated': '生成',
+  'history.regenerated': '重新生成',
+  'history.edited': '编辑',
+  'history.current': '当前',
+  'history.use': '使用',
+  'history.useTitle': '使用此版本及其机位设置',
+
+  'bible.title': '角色与素材设定',
+  'bible.new': '新建条目',
+  'bible.namePlaceholder': '名称，例如 Mia',
+  'bible.descriptionPlaceholder': '锁定描述，原样发送（例如“二十多岁，银色短发波波头，带白虎刺绣的红色飞行夹克”）',
+  'bible.save': '保存到设定',
+  'bible.useInScene': '在此场景中使用',
+  'bible.noDescription': '无锁定描述',
+  'bible.imageCount': '{count} 张图片',
+  'bible.delete': '从设定中删除',
+  'bible.confirmDelete': '从设定中移除“{name}”？',
+  'bible.empty': '一次性添加角色、服装、地点、道具和风格参考，之后可在任意分镜中复用。',
+
+  'projects.title': '项目',
+  'projects.new': '新建项目',
+  'projects.loading': '正在加载项目...',
+  'projects.empty': '还没有保存的分镜。添加参考图或剧本后项目会自动保存。',
+  'projects.saveName': '保存名称',
+  'projects.sceneCount': '{count} 个场景',
+  'projects.sceneCountOne': '1 个场景',
+  'projects.generatedCount': '已生成 {count} 个',
+  'projects.confirmDelete': '删除“{name}”？此操作无法撤销。',
+
+  'sequence.title': '序列',
+  'sequence.export': '导出镜头表',
+  'sequence.exportTitle': '将所有场景下载为一份按顺序排列的镜头表（CSV）',
+  'sequence.generated': '已生成',
+  'sequence.draft': '草稿',
+  'sequence.moveEarlier': '前移',
+  'sequence.moveLater': '后移',
+  'sequence.rename': '重命名场景',
+  'sequence.namePrompt': '场景名称',
+  'sequence.delete': '删除场景',
+  'sequence.add': '添加场景',
+  'sequence.transitions': '场景转场（{count}）',
+  'sequence.generateAll': '生成全部场景转场',
+  'sequence.lastShot': '{name}（最后一个镜头）',
+  'sequence.firstShot': '{name}（第一个镜头）',
+  'sequence.generateTransition': '生成此转场',
+  'sequence.needsScenes': '请先生成两个场景',
+  'sequence.notGenerated': '尚未生成。',
+
+  'templates.title': '提示词模板',
+  'templates.close': '关闭模板',
+  'templates.confirmDelete': '删除模板“{name}”？',
+  'templates.template': '模板（{language}输出）',
+  'templates.negativePlaceholder': '要避免的词，用逗号分隔',
+  'templates.maxLength': '最大长度',
+  'templates.noLimit': '不限',
+  'templates.placeholders': '占位符：',
+  'templates.sectionHint': '用 {section} 包裹的文本会在值为空时省略。模板中不含 {placeholder} 时，反向提示词会单独显示。',
+  'placeholder.scene': '场景描述',
+  'placeholder.shots': '每个镜头一行“镜头 01: ...”',
+  'placeholder.shotsInline': '所有镜头写在一行，用分号分隔',
+  'placeholder.layout': '网格布局，例如 3x3',
+  'placeholder.rows': '网格行数',
+  'placeholder.columns': '网格列数',
+  'placeholder.shotCount': '网格中的镜头数',
+  'placeholder.aspectRatio': '画幅比例，例如 16:9',
+  'placeholder.negative': '模板的反向提示词',
+
+  'provider.title': '模型服务',
+  'provider.close': '关闭设置',
+  'provider.provider': '服务商',
+  'provider.analysisModel': '分析模型',
+  'provider.fastModel': '镜头改写模型',
+  'provider.baseUrl': '接口地址',
+  'provider.sameOrigin': '与应用同源',
+  'provider.apiKey': 'API 密钥',
+  'provider.geminiKeyPlaceholder': '你的 Gemini API 密钥，保存在此浏览器中',
+  'provider.timeout': '超时（秒）',
+  'provider.retries': '重试次数',
+  'provider.note': '设置保存在此浏览器中。应用服务器在服务端保管模型 API 密钥；模拟服务返回固定的分镜，无需联网。',
+
+  'usage.title': '用量与费用',
+  'usage.close': '关闭用量',
+  'usage.model': '模型',
+  'usage.requests': '请求数',
+  'usage.input': '输入 token',
+  'usage.output': '输出 token',
+  'usage.cost': '预估费用',
+  'usage.total': '合计',
+  'usage.unknownPrice': '未知',
+  'usage.empty': '本项目还没有模型请求。',
+  'usage.note': 'token 数来自每次响应。费用按公开价格估算；价格未知的模型不计入合计。',
+  'usage.reset': '清零',
+  'usage.confirmReset': '清零本项目的用量统计？',
+
+  'cache.title': '结果缓存',
+  'cache.close': '关闭缓存',
+  'cache.loading': '正在加载缓存...',
+  'cache.summary': '已缓存 {count} 个分镜 · {size}',
+  'cache.empty': '暂无缓存。完整生成的分镜会自动缓存。',
+  'cache.delete': '从缓存中移除',
+  'cache.clear': '清空缓存',
+  'cache.confirmClear': '移除所有缓存的分镜？项目不受影响。',
+  'cache.note': '当参考图、镜头、布局、画幅、语言、视觉风格、剧本、设定集条目、模型和提示词版本全部一致时，会提供缓存的分镜。',
+  'cache.hit': '使用相同参考图和设置的分镜已于 {date} 生成过。',
+  'cache.use': '使用缓存结果',
+  'cache.fresh': '重新生成新版本',
+  'cache.used': '已载入缓存的分镜。',
+
+  'frames.import': '导入生成的网格图',
+  'frames.importTitle': '将图像生成器输出的网格图切分为每个镜头一帧',
+  'frames.clear': '清除画面',
+  'frames.confirmClear': '移除此场景所有镜头的画面？',
+  'frames.start': '起始帧',
+  'frames.end': '结束帧',
+  'frames.download': '下载画面 (.zip)',
+  'frames.downloadTitle': '将画面和转场提示词打包为 zip',
+  'slicer.title': '导入生成的网格图 ({layout})',
+  'slicer.close': '关闭',
+  'slicer.hint': '上传图像生成器返回的网格图，它会按阅读顺序切分为每个镜头一格；调整边距和间隔，直到轮廓与画格对齐。',
+  'slicer.upload': '选择图片',
+  'slicer.loading': '正在打开...',
+  'slicer.drop': '将生成的网格图拖放到此处',
+  'slicer.margin': '边距 (px)',
+  'slicer.gutter': '间隔 (px)',
+  'slicer.size': '{width} × {height} px',
+  'slicer.apply': '附加 {count} 帧',
+  'slicer.notImage': '无法将 {file} 作为图片打开。',
+  'slicer.failed': '切分网格图失败。',
+
+  'review.open': '一致性审查',
+  'review.openTitle': '对照参考图检查生成的网格图',
+  'review.title': '一致性审查',
+  'review.close': '关闭审查',
+  'review.hint': '将生成的镜头连同参考图和分镜方案发回模型，按角色、服装、光线和构图为每个镜头打 1 到 10 分。',
+  'review.runFrames': '审查切分后的画面',
+  'review.noFrames': '请先导入生成的网格图再审查其画面',
+  'review.runGrid': '审查网格图',
+  'review.running': '正在审查...',
+  'review.reviewedAt': '审查于 {date}',
+  'review.threshold': '{score} 分及以下需要修正',
+  'review.character': '角色',
+  'review.costume': '服装',
+  'review.lighting': '光线',
+  'review.framing': '构图',
+  'review.noIssues': '未发现问题。',
+  'review.fix': '修正：{fix}',
+  'review.applyFix': '按修正重新生成',
+  'review.fixed': '已应用修正',
+  'review.flagged': '需要修正',
+  'review.flaggedTitle': '一致性审查给此镜头的评分较低'
+};
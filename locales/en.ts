@@ -0,0 +1,374 @@
+// Interface strings in English. This catalog defines the keys; the other
+// locales translate them and fall back to these values for missing keys.
+// `{name}` marks a parameter filled in by the caller.
+
+export const en = {
+  'app.title': 'AI Storyboard Master',
+  'app.tagline': 'Generate consistent storyboard prompts for Midjourney, SDXL and DALL·E from your images.',
+  'app.footerTip': 'Tip: Pick the image generator you render with above the prompt output, or edit its template to change parameters such as "--stylize" and "--chaos". This tool ensures that your character and environment details stay consistent across the grid.',
+
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.rename': 'Rename',
+  'common.duplicate': 'Duplicate',
+  'common.reset': 'Reset',
+  'common.dismiss': 'Dismiss',
+  'common.copy': 'Copy',
+  'common.copied': 'Copied',
+  'common.name': 'Name',
+
+  'header.projectName': 'Project name',
+  'header.undo': 'Undo (Ctrl+Z)',
+  'header.redo': 'Redo (Ctrl+Shift+Z)',
+  'header.projects': 'Projects',
+  'header.projectsTitle': 'Browse saved projects',
+  'header.import': 'Import',
+  'header.importTitle': 'Import a {extension} bundle',
+  'header.export': 'Export',
+  'header.exportTitle': 'Export this storyboard as a {extension} bundle',
+  'header.providerTitle': 'Model provider settings',
+  'header.uiLanguage': 'Interface language',
+  'header.usage': 'Usage',
+  'header.usageTitle': 'Tokens and estimated cost of this project',
+  'header.cache': 'Cache',
+  'header.cacheTitle': 'Cached storyboards',
+
+  'progress.scene': 'Writing the scene description...',
+  'progress.shots': 'Writing shot {next} of {total}...',
+  'progress.transitions': 'Writing transition {next} of {total}...',
+  'progress.repair': 'Requesting missing parts (attempt {next} of {total})...',
+
+  'status.analyzing': 'Analyzing your references and script and generating shots...',
+  'status.completed': 'Generation successful!',
+  'status.partial': 'The model returned an incomplete storyboard. Missing parts are marked below.',
+  'status.cancelled': 'Generation cancelled.',
+  'status.failed': 'Failed to generate the storyboard.',
+  'status.repaired': 'Storyboard repaired.',
+
+  'error.import': 'Could not import "{file}": {error}',
+  'error.noReferences': 'Please upload at least one image, add a bible entry with images, or write a scene script.',
+  'error.sceneTransition': 'Failed to generate the scene transition. Please try again.',
+  'error.sceneTransitions': 'Failed to generate scene transitions. Please try again.',
+  'error.saveAsset': 'Failed to save the bible entry. Please try again.',
+  'error.regenerateShot': 'Failed to regenerate specific shot. Please try again.',
+  'error.review': 'Failed to review the rendered storyboard.',
+  'error.regenerateTransition': 'Failed to regenerate the transition from shot {shot}. Please try again.',
+  'error.propagate': 'Failed to update every shot. The shots updated so far were kept.',
+  'error.repair': 'Failed to fill in the missing parts. Please try again.',
+  'error.auth': 'The API key was rejected. Check it in the model provider settings.',
+  'error.quota': 'Rate limit or quota exceeded. Wait a moment and try again, or check your plan.',
+  'error.safety': 'The model refused the request for safety reasons. Adjust the references or descriptions and try again.',
+  'error.timeout': 'The model did not respond in time. Try again, or raise the timeout in the model provider settings.',
+  'error.malformed': 'The model returned output that could not be read. Try again.',
+  'error.network': 'Could not reach the model endpoint. Check the base URL and your connection.',
+  'error.unknown': 'The request failed: {detail}',
+
+  'scene.defaultName': 'Scene {number}',
+  'scene.confirmDelete': 'Delete "{name}" and its storyboard?',
+
+  'references.title': '1. Reference Images',
+  'references.upload': 'Upload',
+  'references.alt': 'Reference {number}',
+  'references.hint': 'Upload, drop or paste images of your character, outfit, or environment.',
+  'references.drop': 'Drop images to add them',
+
+  'images.preparing': 'Preparing images...',
+  'images.unsupported': 'Not a supported image: {files}',
+  'images.tooLarge': 'Larger than {limit} MB: {files}',
+  'images.duplicate': 'Already added: {files}',
+  'images.limit': 'Over the limit of {limit} images: {files}',
+  'images.settings': 'Image processing',
+  'images.maxDimension': 'Longest side (px)',
+  'images.quality': 'JPEG quality (%)',
+  'images.maxFileMb': 'Largest upload (MB)',
+  'images.maxImages': 'Images per scene or entry',
+  'images.settingsHint': 'Uploads are turned upright, downscaled and re-encoded before they are stored. Images that look the same as one already added are skipped.',
+
+  'settings.title': '2. Storyboard Settings',
+  'settings.aspectRatio': 'Aspect Ratio',
+  'settings.outputLanguages': 'Output Languages',
+  'settings.outputLanguagesHint': 'Every generated text of this project is written in these languages. English is always included; texts missing a newly added language are listed as gaps to fill in.',
+  'settings.shot': 'Shot {number}',
+  'settings.shotAsset': '{name} appears in shot {number}',
+  'settings.generate': 'Generate Storyboard Prompt',
+  'settings.generating': 'Generating...',
+
+  'aspect.cinematic': 'Cinematic',
+  'aspect.portrait': 'Portrait',
+  'aspect.tv': 'TV',
+  'aspect.poster': 'Poster',
+  'aspect.square': 'Square',
+
+  'layout.title': 'Grid Layout',
+  'layout.preset': '{label} ({count} Shots)',
+  'layout.custom': 'Custom ({layout})',
+  'layout.rows': 'Rows',
+  'layout.columns': 'Columns',
+  'layout.rowsSuffix': 'rows ×',
+  'layout.columnsSuffix': 'cols',
+  'layoutPreset.3x3': '3x3 Classic',
+  'layoutPreset.2x2': '2x2 Quad',
+  'layoutPreset.1x3': '1x3 Triptych',
+  'layoutPreset.2x3': '2x3 Sheet',
+  'layoutPreset.3x2': '3x2 Sheet',
+  'layoutPreset.4x4': '4x4 Contact Sheet',
+  'layoutPreset.1x4': '1x4 Comic Strip',
+  'layoutPreset.1x5': '1x5 Comic Strip',
+
+  'shotPresets.title': 'Shot Sequence Preset',
+  'shotPresets.forLayout': 'For {layout}',
+  'shotPresets.otherLayouts': 'Other layouts (adapted to {count} shots)',
+  'shotPresets.apply': 'Apply',
+  'shotPresets.saveTitle': 'Save the current shot plan as a preset',
+  'shotPresets.namePrompt': 'Preset name',
+  'shotPresets.confirmDelete': 'Delete the preset "{name}"?',
+  'shotPresets.import': 'Import',
+  'shotPresets.importTitle': 'Import presets from a JSON file',
+  'shotPresets.imported': 'Imported {count} preset(s).',
+  'shotPresets.importFailed': 'Could not import presets from {file}: {error}',
+  'shotPresets.export': 'Export',
+  'shotPresets.exportTitle': 'Export your saved presets as a JSON file',
+  'shotPresets.adaptHint': 'Written for {from} shots; applying it keeps the first and last shots and spreads the rest over {to}.',
+
+  'style.title': 'Visual Style',
+  'style.none': 'No style (follow the references)',
+  'style.fromProject': '{name} (from this project)',
+  'style.palette': 'Palette / color grade',
+  'style.lighting': 'Lighting style',
+  'style.filmStock': 'Film stock & lens',
+  'style.era': 'Era',
+  'style.namePrompt': 'Style name',
+  'style.copyName': '{name} copy',
+  'style.confirmDelete': 'Delete the style "{name}"?',
+  'style.hint': 'Applied to the analysis, shot rewrites and the final image prompt. Duplicate a style to edit it.',
+
+  'script.title': 'Scene Script',
+  'script.placeholder': 'Paste prose or a Fountain scene, e.g.\n\nINT. ROOFTOP BAR - NIGHT\n\nRain streaks the glass. MARA nurses a drink.\n\nJONAS\nYou came.',
+  'script.hint': 'Optional. The action and dialogue are split across the shots; reference images become optional.',
+  'script.fountain': 'Screenplay · {count} beats',
+  'script.prose': 'Prose · {count} beats',
+  'script.load': 'Load file',
+  'script.clear': 'Clear',
+  'script.readFailed': 'Could not read "{name}".',
+  'script.suggested': 'Suggested: {framing}',
+  'script.applyTitle': 'Use the framing suggested for this beat; regenerate the shot to rewrite it',
+  'script.applyAll': 'Use {count} suggested framings',
+  'script.applyAllTitle': 'Use the framings suggested for the script beats; regenerate the shots to rewrite them',
+
+  'spec.framing': 'Framing',
+  'spec.angle': 'Camera angle',
+  'spec.lens': 'Lens',
+  'spec.movement': 'Camera movement',
+  'spec.duration': 'Duration in seconds',
+  'spec.durationUnit': 's',
+
+  'partial.title': 'Partial result',
+  'partial.sceneMissing': 'Scene prompt is missing.',
+  'partial.missingShots': 'Missing shots: {shots}',
+  'partial.missingTransitions': 'Missing transitions: {transitions}',
+  'partial.issues': '{count} validation issues',
+  'partial.repair': 'Request missing parts',
+
+  'output.title': 'Generated Prompt Output',
+  'output.language': 'Language of the generated text shown below',
+  'output.target': 'Image generator to format the prompt for',
+  'output.editTemplates': 'Edit prompt templates',
+  'output.copyFor': 'Copy for {name}',
+  'output.copied': 'Copied!',
+  'output.truncated': 'Trimmed to the {limit}-character limit of {name}.',
+  'output.negative': 'Negative Prompt',
+  'output.scene': 'Scene Description',
+  'output.sceneEdited': 'The scene description was edited. Rewrite the shots to match it? Hand-edited shots are kept.',
+  'output.updateShots': 'Update shots',
+  'output.breakdown': 'Visual Breakdown & Tuning',
+  'output.breakdownHint': 'Change the camera settings and click refresh to update description',
+  'output.shot': 'Shot {number}',
+  'output.history': 'Version history',
+  'output.regenerateShot': 'Regenerate this shot description',
+  'output.dragShot': 'Drag to reorder',
+  'output.insertShot': 'Insert a shot after this one',
+  'output.deleteShot': 'Delete this shot',
+  'output.shotCountUnsupported': 'No grid of up to 8x8 holds {count} shots',
+  'output.waitingShot': 'Waiting for shot {number}...',
+  'output.missingShot': 'Missing from the model response. Click refresh to generate this shot.',
+  'output.transitions': 'Video Generation Prompts (Img 2 Video)',
+  'output.transitionsHint': 'Use these detailed prompts when generating video transitions (e.g., Luma, Runway, Veo) using Shot N as Start Frame and Shot N+1 as End Frame.',
+  'output.autoRefresh': 'Refresh adjacent transitions when a shot is regenerated',
+  'output.outdated': 'Outdated',
+  'output.outdatedTitle': 'A shot this transition connects has changed since it was written',
+  'output.regenerateTransition': 'Regenerate this transition from the current shots',
+  'output.waitingTransition': 'Waiting for this transition...',
+  'output.missingTransition': 'Missing from the model response. Click refresh or use "Request missing parts" to fill it in.',
+  'output.noTransitions': 'No transitions generated.',
+  'output.imagining': 'AI is imagining your storyboard...',
+  'output.empty': 'Upload references or write a scene script, then click Generate to see the magic.',
+
+  'edit.title': 'Edit this text',
+  'edit.saveTitle': 'Save (Ctrl+Enter)',
+  'edit.edited': 'Edited by hand',
+  'edit.outOfSync': 'Out of sync',
+  'edit.outOfSyncTitle': "The other languages haven't been updated to match. Click to translate again.",
+  'edit.translating': 'Translating...',
+
+  'history.title': 'Shot {number} History',
+  'history.close': 'Close history',
+  'history.empty': 'No versions recorded for this shot yet.',
+  'history.generated': 'Generated',
+  'history.regenerated': 'Regenerated',
+  'history.edited': 'Edited',
+  'history.current': 'Current',
+  'history.use': 'Use',
+  'history.useTitle': 'Use this version and its camera settings',
+
+  'bible.title': 'Character & Asset Bible',
+  'bible.new': 'New Entity',
+  'bible.namePlaceholder': 'Name, e.g. Mia',
+  'bible.descriptionPlaceholder': "Locked description, sent verbatim (e.g. 'mid-20s, short silver bob, red bomber jacket with a white tiger patch')",
+  'bible.save': 'Save to Bible',
+  'bible.useInScene': 'Use in this scene',
+  'bible.noDescription': 'No locked description',
+  'bible.imageCount': '{count} images',
+  'bible.delete': 'Delete from bible',
+  'bible.confirmDelete': 'Remove "{name}" from the bible?',
+  'bible.empty': 'Add characters, outfits, locations, props and style references once, then reuse them in any storyboard.',
+
+  'projects.title': 'Projects',
+  'projects.new': 'New Project',
+  'projects.loading': 'Loading projects...',
+  'projects.empty': 'No saved storyboards yet. Projects are saved automatically once you add references or a script.',
+  'projects.saveName': 'Save name',
+  'projects.sceneCount': '{count} scenes',
+  'projects.sceneCountOne': '1 scene',
+  'projects.generatedCount': '{count} generated',
+  'projects.confirmDelete': 'Delete "{name}"? This cannot be undone.',
+
+  'sequence.title': 'Sequence',
+  'sequence.export': 'Export Shot List',
+  'sequence.exportTitle': 'Download every scene as one ordered shot list (CSV)',
+  'sequence.generated': 'generated',
+  'sequence.draft': 'draft',
+  'sequence.moveEarlier': 'Move earlier',
+  'sequence.moveLater': 'Move later',
+  'sequence.rename': 'Rename scene',
+  'sequence.namePrompt': 'Scene name',
+  'sequence.delete': 'Delete scene',
+  'sequence.add': 'Add Scene',
+  'sequence.transitions': 'Scene transitions ({count})',
+  'sequence.generateAll': 'Generate All Scene Transitions',
+  'sequence.lastShot': '{name} (last shot)',
+  'sequence.firstShot': '{name} (first shot)',
+  'sequence.generateTransition': 'Generate this transition',
+  'sequence.needsScenes': 'Generate both scenes first',
+  'sequence.notGenerated': 'Not generated yet.',
+
+  'templates.title': 'Prompt Templates',
+  'templates.close': 'Close templates',
+  'templates.confirmDelete': 'Delete the template "{name}"?',
+  'templates.template': 'Template ({language} output)',
+  'templates.negativePlaceholder': 'Terms to avoid, comma-separated',
+  'templates.maxLength': 'Max Length',
+  'templates.noLimit': 'No limit',
+  'templates.placeholders': 'Placeholders:',
+  'templates.sectionHint': 'Wrap text in {section} to drop it when the value is empty. Without {placeholder}, the negative prompt is shown separately.',
+  'placeholder.scene': 'Scene description',
+  'placeholder.shots': 'One "Shot 01: ..." line per shot',
+  'placeholder.shotsInline': 'All shots on one line, separated by semicolons',
+  'placeholder.layout': 'Grid layout, e.g. 3x3',
+  'placeholder.rows': 'Number of grid rows',
+  'placeholder.columns': 'Number of grid columns',
+  'placeholder.shotCount': 'Number of shots in the grid',
+  'placeholder.aspectRatio': 'Aspect ratio, e.g. 16:9',
+  'placeholder.negative': 'Negative prompt of the template',
+
+  'provider.title': 'Model Provider',
+  'provider.close': 'Close settings',
+  'provider.provider': 'Provider',
+  'provider.analysisModel': 'Analysis Model',
+  'provider.fastModel': 'Shot Rewrite Model',
+  'provider.baseUrl': 'Base URL',
+  'provider.sameOrigin': 'Same origin as the app',
+  'provider.apiKey': 'API Key',
+  'provider.geminiKeyPlaceholder': 'Your Gemini API key; it is stored in this browser',
+  'provider.timeout': 'Timeout (seconds)',
+  'provider.retries': 'Retries',
+  'provider.note': 'Settings are stored in this browser. The app server keeps the model API key on the server; the mock provider returns fixture storyboards and needs no network.',
+
+  'usage.title': 'Usage & Cost',
+  'usage.close': 'Close usage',
+  'usage.model': 'Model',
+  'usage.requests': 'Requests',
+  'usage.input': 'Input tokens',
+  'usage.output': 'Output tokens',
+  'usage.cost': 'Est. cost',
+  'usage.total': 'Total',
+  'usage.unknownPrice': 'unknown',
+  'usage.empty': 'No model requests in this project yet.',
+  'usage.note': 'Token counts come from each response. Costs are estimates from list prices; models without a known price are left out of the total.',
+  'usage.reset': 'Reset',
+  'usage.confirmReset': 'Reset the usage totals of this project?',
+
+  'cache.title': 'Result Cache',
+  'cache.close': 'Close cache',
+  'cache.loading': 'Loading cache...',
+  'cache.summary': '{count} cached storyboards · {size}',
+  'cache.empty': 'Nothing cached yet. Complete storyboards are cached as they are generated.',
+  'cache.delete': 'Remove from cache',
+  'cache.clear': 'Clear Cache',
+  'cache.confirmClear': 'Remove every cached storyboard? Projects are not affected.',
+  'cache.note': 'A cached storyboard is offered when the references, shots, layout, aspect ratio, languages, visual style, script, bible entries, model and prompt version all match.',
+  'cache.hit': 'This storyboard was already generated on {date} with the same references and settings.',
+  'cache.use': 'Use cached result',
+  'cache.fresh': 'Generate fresh variant',
+  'cache.used': 'Loaded the cached storyboard.',
+
+  'frames.import': 'Import Rendered Grid',
+  'frames.importTitle': 'Cut the image generator\'s grid into one frame per shot',
+  'frames.clear': 'Clear Frames',
+  'frames.confirmClear': 'Remove the frames of every shot in this scene?',
+  'frames.start': 'Start frame',
+  'frames.end': 'End frame',
+  'frames.download': 'Download Frames (.zip)',
+  'frames.downloadTitle': 'Frames and transition prompts as a zip archive',
+  'slicer.title': 'Import Rendered Grid ({layout})',
+  'slicer.close': 'Close',
+  'slicer.hint': 'Upload the grid image the generator returned. It is cut into panels in reading order, one per shot; adjust the margin and gutter until the outlines sit on the panels.',
+  'slicer.upload': 'Choose Image',
+  'slicer.loading': 'Opening...',
+  'slicer.drop': 'Drop the rendered grid image here',
+  'slicer.margin': 'Margin (px)',
+  'slicer.gutter': 'Gutter (px)',
+  'slicer.size': '{width} × {height} px',
+  'slicer.apply': 'Attach {count} Frames',
+  'slicer.notImage': '{file} could not be opened as an image.',
+  'slicer.failed': 'Failed to cut the grid image.',
+
+  'review.open': 'Review Consistency',
+  'review.openTitle': 'Check the rendered grid against the references',
+  'review.title': 'Consistency Review',
+  'review.close': 'Close review',
+  'review.hint': 'Sends the rendered shots back to the model with the references and the plan. Each shot is scored from 1 to 10 for character, costume, lighting and framing.',
+  'review.runFrames': 'Review Sliced Frames',
+  'review.noFrames': 'Import the rendered grid first to review its frames',
+  'review.runGrid': 'Review a Grid Image',
+  'review.running': 'Reviewing...',
+  'review.reviewedAt': 'Reviewed {date}',
+  'review.threshold': 'Scores of {score} or less need a fix',
+  'review.character': 'Character',
+  'review.costume': 'Costume',
+  'review.lighting': 'Lighting',
+  'review.framing': 'Framing',
+  'review.noIssues': 'No issues found.',
+  'review.fix': 'Fix: {fix}',
+  'review.applyFix': 'Regenerate with Fix',
+  'review.fixed': 'Fix applied',
+  'review.flagged': 'Needs fix',
+  'review.flaggedTitle': 'The consistency review scored this shot low'
+};
+
+export type UiStringKey = keyof typeof en;
+
+// A translation; keys it leaves out are shown in English
+export type UiCatalog = Partial<Record<UiStringKey, string>>;
@@ -0,0 +1,368 @@
+import { UiCatalog } from './en';
+
+// Spanish
+export const es: UiCatalog = {
+  'app.title': 'AI Storyboard Master',
+  'app.tagline': 'Genera prompts de storyboard coherentes para Midjourney, SDXL y DALL·E a partir de tus imágenes.',
+  'app.footerTip': 'Consejo: elige el generador de imágenes que usas encima de la salida del prompt, o edita su plantilla para cambiar parámetros como "--stylize" y "--chaos". Esta herramienta mantiene coherentes los detalles del personaje y del entorno en toda la cuadrícula.',
+
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.close': 'Cerrar',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.rename': 'Renombrar',
+  'common.duplicate': 'Duplicar',
+  'common.reset': 'Restablecer',
+  'common.dismiss': 'Descartar',
+  'common.copy': 'Copiar',
+  'common.copied': 'Copiado',
+  'common.name': 'Nombre',
+
+  'header.projectName': 'Nombre del proyecto',
+  'header.undo': 'Deshacer (Ctrl+Z)',
+  'header.redo': 'Rehacer (Ctrl+Shift+Z)',
+  'header.projects': 'Proyectos',
+  'header.projectsTitle': 'Ver proyectos guardados',
+  'header.import': 'Importar',
+  'header.importTitle': 'Importar un archivo {extension}',
+  'header.export': 'Exportar',
+  'header.exportTitle': 'Exportar este storyboard como archivo {extension}',
+  'header.providerTitle': 'Ajustes del proveedor de modelos',
+  'header.uiLanguage': 'Idioma de la interfaz',
+  'header.usage': 'Uso',
+  'header.usageTitle': 'Tokens y coste estimado de este proyecto',
+  'header.cache': 'Caché',
+  'header.cacheTitle': 'Storyboards en caché',
+
+  'progress.scene': 'Escribiendo la descripción de la escena...',
+  'progress.shots': 'Escribiendo el plano {next} de {total}...',
+  'progress.transitions': 'Escribiendo la transición {next} de {total}...',
+  'progress.repair': 'Solicitando las partes que faltan (intento {next} de {total})...',
+
+  'status.analyzing': 'Analizando tus referencias y guion y generando planos...',
+  'status.completed': '¡Generación completada!',
+  'status.partial': 'El modelo devolvió un storyboard incompleto. Las partes que faltan se indican abajo.',
+  'status.cancelled': 'Generación cancelada.',
+  'status.failed': 'No se pudo generar el storyboard.',
+  'status.repaired': 'Storyboard reparado.',
+
+  'error.import': 'No se pudo importar "{file}": {error}',
+  'error.noReferences': 'Sube al menos una imagen, añade una entrada de la biblia con imágenes o escribe un guion de la escena.',
+  'error.sceneTransition': 'No se pudo generar la transición entre escenas. Inténtalo de nuevo.',
+  'error.sceneTransitions': 'No se pudieron generar las transiciones entre escenas. Inténtalo de nuevo.',
+  'error.saveAsset': 'No se pudo guardar la entrada de la biblia. Inténtalo de nuevo.',
+  'error.regenerateShot': 'No se pudo regenerar el plano. Inténtalo de nuevo.',
+  'error.review': 'No se pudo revisar el storyboard renderizado.',
+  'error.regenerateTransition': 'No se pudo regenerar la transición desde el plano {shot}. Inténtalo de nuevo.',
+  'error.propagate': 'No se pudieron actualizar todos los planos. Se conservan los que ya se actualizaron.',
+  'error.repair': 'No se pudieron completar las partes que faltan. Inténtalo de nuevo.',
+  'error.auth': 'La clave de API fue rechazada. Revísala en los ajustes del proveedor de modelos.',
+  'error.quota': 'Se superó el límite de peticiones o la cuota. Espera un momento y vuelve a intentarlo, o revisa tu plan.',
+  'error.safety': 'El modelo rechazó la petición por motivos de seguridad. Ajusta las referencias o descripciones y vuelve a intentarlo.',
+  'error.timeout': 'El modelo no respondió a tiempo. Vuelve a intentarlo o aumenta el tiempo de espera en los ajustes del proveedor.',
+  'error.malformed': 'El modelo devolvió una respuesta ilegible. Inténtalo de nuevo.',
+  'error.network': 'No se pudo conectar con el modelo. Revisa la URL base y tu conexión.',
+  'error.unknown': 'La petición falló: {detail}',
+
+  'scene.defaultName': 'Escena {number}',
+  'scene.confirmDelete': '¿Eliminar "{name}" y su storyboard?',
+
+  'references.title': '1. Imágenes de referencia',
+  'references.upload': 'Subir',
+  'references.alt': 'Referencia {number}',
+  'references.hint': 'Sube, arrastra o pega imágenes de tu personaje, vestuario o entorno.',
+  'references.drop': 'Suelta las imágenes para añadirlas',
+
+  'images.preparing': 'Preparando imágenes...',
+  'images.unsupported': 'Imagen no compatible: {files}',
+  'images.tooLarge': 'Más de {limit} MB: {files}',
+  'images.duplicate': 'Ya añadidas: {files}',
+  'images.limit': 'Superan el límite de {limit} imágenes: {files}',
+  'images.settings': 'Procesamiento de imágenes',
+  'images.maxDimension': 'Lado mayor (px)',
+  'images.quality': 'Calidad JPEG (%)',
+  'images.maxFileMb': 'Subida máxima (MB)',
+  'images.maxImages': 'Imágenes por escena o entrada',
+  'images.settingsHint': 'Las imágenes subidas se enderezan, reducen y recodifican antes de guardarse. Se omiten las que parecen iguales a una ya añadida.',
+
+  'settings.title': '2. Ajustes del storyboard',
+  'settings.aspectRatio': 'Relación de aspecto',
+  'settings.outputLanguages': 'Idiomas de salida',
+  'settings.outputLanguagesHint': 'Todos los textos generados de este proyecto se escriben en estos idiomas. El inglés siempre se incluye; los textos a los que les falta un idioma recién añadido aparecen como huecos por completar.',
+  'settings.shot': 'Plano {number}',
+  'settings.shotAsset': '{name} aparece en el plano {number}',
+  'settings.generate': 'Generar prompt de storyboard',
+  'settings.generating': 'Generando...',
+
+  'aspect.cinematic': 'Cine',
+  'aspect.portrait': 'Vertical',
+  'aspect.tv': 'TV',
+  'aspect.poster': 'Póster',
+  'aspect.square': 'Cuadrado',
+
+  'layout.title': 'Cuadrícula',
+  'layout.preset': '{label} ({count} planos)',
+  'layout.custom': 'Personalizada ({layout})',
+  'layout.rows': 'Filas',
+  'layout.columns': 'Columnas',
+  'layout.rowsSuffix': 'filas ×',
+  'layout.columnsSuffix': 'col.',
+  'layoutPreset.3x3': '3x3 Clásica',
+  'layoutPreset.2x2': '2x2 Cuádruple',
+  'layoutPreset.1x3': '1x3 Tríptico',
+  'layoutPreset.2x3': '2x3 Hoja',
+  'layoutPreset.3x2': '3x2 Hoja',
+  'layoutPreset.4x4': '4x4 Hoja de contactos',
+  'layoutPreset.1x4': '1x4 Tira cómica',
+  'layoutPreset.1x5': '1x5 Tira cómica',
+
+  'shotPresets.title': 'Secuencia de planos predefinida',
+  'shotPresets.forLayout': 'Para {layout}',
+  'shotPresets.otherLayouts': 'Otras cuadrículas (adaptadas a {count} planos)',
+  'shotPresets.apply': 'Aplicar',
+  'shotPresets.saveTitle': 'Guardar el plan de planos actual como predefinido',
+  'shotPresets.namePrompt': 'Nombre del predefinido',
+  'shotPresets.confirmDelete': '¿Eliminar el predefinido "{name}"?',
+  'shotPresets.import': 'Importar',
+  'shotPresets.importTitle': 'Importar predefinidos desde un archivo JSON',
+  'shotPresets.imported': 'Se importaron {count} predefinido(s).',
+  'shotPresets.importFailed': 'No se pudieron importar predefinidos de {file}: {error}',
+  'shotPresets.export': 'Exportar',
+  'shotPresets.exportTitle': 'Exportar tus predefinidos guardados como archivo JSON',
+  'shotPresets.adaptHint': 'Pensado para {from} planos; al aplicarlo se conservan el primero y el último y el resto se reparte en {to}.',
+
+  'style.title': 'Estilo visual',
+  'style.none': 'Sin estilo (seguir las referencias)',
+  'style.fromProject': '{name} (de este proyecto)',
+  'style.palette': 'Paleta / etalonaje',
+  'style.lighting': 'Estilo de iluminación',
+  'style.filmStock': 'Película y carácter de lente',
+  'style.era': 'Época',
+  'style.namePrompt': 'Nombre del estilo',
+  'style.copyName': 'Copia de {name}',
+  'style.confirmDelete': '¿Eliminar el estilo "{name}"?',
+  'style.hint': 'Se aplica al análisis, a la reescritura de planos y al prompt final de imagen. Duplica un estilo para editarlo.',
+
+  'script.title': 'Guion de la escena',
+  'script.placeholder': 'Pega prosa o una escena en Fountain, p. ej.\n\nINT. ROOFTOP BAR - NIGHT\n\nRain streaks the glass. MARA nurses a drink.\n\nJONAS\nYou came.',
+  'script.hint': 'Opcional. La acción y los diálogos se reparten entre los planos; las imágenes de referencia pasan a ser opcionales.',
+  'script.fountain': 'Guion · {count} momentos',
+  'script.prose': 'Prosa · {count} momentos',
+  'script.load': 'Cargar archivo',
+  'script.clear': 'Borrar',
+  'script.readFailed': 'No se pudo leer "{name}".',
+  'script.suggested': 'Sugerido: {framing}',
+  'script.applyTitle': 'Usar el encuadre sugerido para este momento; regenera el plano para reescribirlo',
+  'script.applyAll': 'Usar {count} encuadres sugeridos',
+  'script.applyAllTitle': 'Usar los encuadres sugeridos para los momentos del guion; regenera los planos para reescribirlos',
+
+  'spec.framing': 'Encuadre',
+  'spec.angle': 'Ángulo de cámara',
+  'spec.lens': 'Objetivo',
+  'spec.movement': 'Movimiento de cámara',
+  'spec.duration': 'Duración en segundos',
+  'spec.durationUnit': 's',
+
+  'partial.title': 'Resultado parcial',
+  'partial.sceneMissing': 'Falta el prompt de la escena.',
+  'partial.missingShots': 'Planos que faltan: {shots}',
+  'partial.missingTransitions': 'Transiciones que faltan: {transitions}',
+  'partial.issues': '{count} problemas de validación',
+  'partial.repair': 'Solicitar las partes que faltan',
+
+  'output.title': 'Prompt generado',
+  'output.language': 'Idioma del texto generado que se muestra abajo',
+  'output.target': 'Generador de imágenes para el que se formatea el prompt',
+  'output.editTemplates': 'Editar plantillas de prompt',
+  'output.copyFor': 'Copiar para {name}',
+  'output.copied': '¡Copiado!',
+  'output.truncated': 'Recortado al límite de {limit} caracteres de {name}.',
+  'output.negative': 'Prompt negativo',
+  'output.scene': 'Descripción de la escena',
+  'output.sceneEdited': 'Se editó la descripción de la escena. ¿Reescribir los planos para que coincidan? Los planos editados a mano se conservan.',
+  'output.updateShots': 'Actualizar planos',
+  'output.breakdown': 'Desglose visual y ajuste',
+  'output.breakdownHint': 'Cambia los ajustes de cámara y pulsa actualizar para renovar la descripción',
+  'output.shot': 'Plano {number}',
+  'output.history': 'Historial de versiones',
+  'output.regenerateShot': 'Regenerar la descripción de este plano',
+  'output.dragShot': 'Arrastra para reordenar',
+  'output.insertShot': 'Insertar un plano después de este',
+  'output.deleteShot': 'Eliminar este plano',
+  'output.shotCountUnsupported': 'Ninguna cuadrícula de hasta 8x8 admite {count} planos',
+  'output.waitingShot': 'Esperando el plano {number}...',
+  'output.missingShot': 'Falta en la respuesta del modelo. Pulsa actualizar para generar este plano.',
+  'output.transitions': 'Prompts de generación de vídeo (imagen a vídeo)',
+  'output.transitionsHint': 'Usa estos prompts al generar transiciones de vídeo (p. ej., Luma, Runway, Veo) con el plano N como fotograma inicial y el plano N+1 como fotograma final.',
+  'output.autoRefresh': 'Actualizar las transiciones contiguas al regenerar un plano',
+  'output.outdated': 'Desactualizada',
+  'output.outdatedTitle': 'Un plano que conecta esta transición cambió después de escribirla',
+  'output.regenerateTransition': 'Regenerar esta transición a partir de los planos actuales',
+  'output.waitingTransition': 'Esperando esta transición...',
+  'output.missingTransition': 'Falta en la respuesta del modelo. Pulsa actualizar o usa "Solicitar las partes que faltan" para completarla.',
+  'output.noTransitions': 'No se generaron transiciones.',
+  'output.imagining': 'La IA está imaginando tu storyboard...',
+  'output.empty': 'Sube referencias o escribe un guion de la escena y pulsa Generar para ver la magia.',
+
+  'edit.title': 'Editar este texto',
+  'edit.saveTitle': 'Guardar (Ctrl+Enter)',
+  'edit.edited': 'Editado a mano',
+  'edit.outOfSync': 'Sin sincronizar',
+  'edit.outOfSyncTitle': 'Los demás idiomas aún no se han actualizado. Pulsa para traducir de nuevo.',
+  'edit.translating': 'Traduciendo...',
+
+  'history.title': 'Historial del plano {number}',
+  'history.close': 'Cerrar historial',
+  'history.empty': 'Todavía no hay versiones registradas de este plano.',
+  'history.generated': 'Generada',
+  'history.regenerated': 'Regenerada',
+  'history.edited': 'Editada',
+  'history.current': 'Actual',
+  'history.use': 'Usar',
+  'history.useTitle': 'Usar esta versión y sus ajustes de cámara',
+
+  'bible.title': 'Biblia de personajes y recursos',
+  'bible.new': 'Nueva entrada',
+  'bible.namePlaceholder': 'Nombre, p. ej. Mia',
+  'bible.descriptionPlaceholder': "Descripción fija, se envía tal cual (p. ej. 'unos 25 años, melena corta plateada, chaqueta bomber roja con un parche de tigre blanco')",
+  'bible.save': 'Guardar en la biblia',
+  'bible.useInScene': 'Usar en esta escena',
+  'bible.noDescription': 'Sin descripción fija',
+  'bible.imageCount': '{count} imágenes',
+  'bible.delete': 'Eliminar de la biblia',
+  'bible.confirmDelete': '¿Quitar "{name}" de la biblia?',
+  'bible.empty': 'Añade personajes, vestuario, lugares, objetos y referencias de estilo una vez y reutilízalos en cualquier storyboard.',
+
+  'projects.title': 'Proyectos',
+  'projects.new': 'Nuevo proyecto',
+  'projects.loading': 'Cargando proyectos...',
+  'projects.empty': 'Aún no hay storyboards guardados. Los proyectos se guardan automáticamente al añadir referencias o un guion.',
+  'projects.saveName': 'Guardar nombre',
+  'projects.sceneCount': '{count} escenas',
+  'projects.sceneCountOne': '1 escena',
+  'projects.generatedCount': '{count} generadas',
+  'projects.confirmDelete': '¿Eliminar "{name}"? No se puede deshacer.',
+
+  'sequence.title': 'Secuencia',
+  'sequence.export': 'Exportar lista de planos',
+  'sequence.exportTitle': 'Descargar todas las escenas como una lista de planos ordenada (CSV)',
+  'sequence.generated': 'generada',
+  'sequence.draft': 'borrador',
+  'sequence.moveEarlier': 'Mover antes',
+  'sequence.moveLater': 'Mover después',
+  'sequence.rename': 'Renombrar escena',
+  'sequence.namePrompt': 'Nombre de la escena',
+  'sequence.delete': 'Eliminar escena',
+  'sequence.add': 'Añadir escena',
+  'sequence.transitions': 'Transiciones entre escenas ({count})',
+  'sequence.generateAll': 'Generar todas las transiciones entre escenas',
+  'sequence.lastShot': '{name} (último plano)',
+  'sequence.firstShot': '{name} (primer plano)',
+  'sequence.generateTransition': 'Generar esta transición',
+  'sequence.needsScenes': 'Genera primero ambas escenas',
+  'sequence.notGenerated': 'Aún no generada.',
+
+  'templates.title': 'Plantillas de prompt',
+  'templates.close': 'Cerrar plantillas',
+  'templates.confirmDelete': '¿Eliminar la plantilla "{name}"?',
+  'templates.template': 'Plantilla (salida en {language})',
+  'templates.negativePlaceholder': 'Términos que evitar, separados por comas',
+  'templates.maxLength': 'Longitud máxima',
+  'templates.noLimit': 'Sin límite',
+  'templates.placeholders': 'Marcadores:',
+  'templates.sectionHint': 'El texto entre {section} se omite cuando el valor está vacío. Sin {placeholder}, el prompt negativo se muestra por separado.',
+  'placeholder.scene': 'Descripción de la escena',
+  'placeholder.shots': 'Una línea "Plano 01: ..." por plano',
+  'placeholder.shotsInline': 'Todos los planos en una línea, separados por punto y coma',
+  'placeholder.layout': 'Cuadrícula, p. ej. 3x3',
+  'placeholder.rows': 'Número de filas',
+  'placeholder.columns': 'Número de columnas',
+  'placeholder.shotCount': 'Número de planos de la cuadrícula',
+  'placeholder.aspectRatio': 'Relación de aspecto, p. ej. 16:9',
+  'placeholder.negative': 'Prompt negativo de la plantilla',
+
+  'provider.title': 'Proveedor de modelos',
+  'provider.close': 'Cerrar ajustes',
+  'provider.provider': 'Proveedor',
+  'provider.analysisModel': 'Modelo de análisis',
+  'provider.fastModel': 'Modelo de reescritura de planos',
+  'provider.baseUrl': 'URL base',
+  'provider.sameOrigin': 'Mismo origen que la app',
+  'provider.apiKey': 'Clave de API',
+  'provider.geminiKeyPlaceholder': 'Tu clave de API de Gemini; se guarda en este navegador',
+  'provider.timeout': 'Tiempo de espera (segundos)',
+  'provider.retries': 'Reintentos',
+  'provider.note': 'Los ajustes se guardan en este navegador. El servidor de la app guarda la clave de API del modelo en el servidor; el proveedor simulado devuelve storyboards de prueba y no necesita red.',
+
+  'usage.title': 'Uso y coste',
+  'usage.close': 'Cerrar uso',
+  'usage.model': 'Modelo',
+  'usage.requests': 'Peticiones',
+  'usage.input': 'Tokens de entrada',
+  'usage.output': 'Tokens de salida',
+  'usage.cost': 'Coste est.',
+  'usage.total': 'Total',
+  'usage.unknownPrice': 'desconocido',
+  'usage.empty': 'Aún no hay peticiones a modelos en este proyecto.',
+  'usage.note': 'Los tokens provienen de cada respuesta. Los costes son estimaciones según precios de lista; los modelos sin precio conocido no se suman al total.',
+  'usage.reset': 'Restablecer',
+  'usage.confirmReset': '¿Restablecer el uso acumulado de este proyecto?',
+
+  'cache.title': 'Caché de resultados',
+  'cache.close': 'Cerrar caché',
+  'cache.loading': 'Cargando caché...',
+  'cache.summary': '{count} storyboards en caché · {size}',
+  'cache.empty': 'Aún no hay nada en caché. Los storyboards completos se guardan al generarse.',
+  'cache.delete': 'Quitar de la caché',
+  'cache.clear': 'Vaciar caché',
+  'cache.confirmClear': '¿Quitar todos los storyboards en caché? Los proyectos no se ven afectados.',
+  'cache.note': 'Se ofrece un storyboard en caché cuando coinciden las referencias, planos, cuadrícula, relación de aspecto, idiomas, estilo visual, guion, entradas de la biblia, modelo y versión del prompt.',
+  'cache.hit': 'Este storyboard ya se generó el {date} con las mismas referencias y ajustes.',
+  'cache.use': 'Usar resultado en caché',
+  'cache.fresh': 'Generar variante nueva',
+  'cache.used': 'Se cargó el storyboard en caché.',
+
+  'frames.import': 'Importar cuadrícula generada',
+  'frames.importTitle': 'Corta la cuadrícula del generador de imágenes en un fotograma por plano',
+  'frames.clear': 'Quitar fotogramas',
+  'frames.confirmClear': '¿Quitar los fotogramas de todos los planos de esta escena?',
+  'frames.start': 'Fotograma inicial',
+  'frames.end': 'Fotograma final',
+  'frames.download': 'Descargar fotogramas (.zip)',
+  'frames.downloadTitle': 'Fotogramas y prompts de transición en un archivo zip',
+  'slicer.title': 'Importar cuadrícula generada ({layout})',
+  'slicer.close': 'Cerrar',
+  'slicer.hint': 'Sube la imagen de cuadrícula que devolvió el generador. Se corta en paneles en orden de lectura, uno por plano; ajusta el margen y la separación hasta que los contornos coincidan con los paneles.',
+  'slicer.upload': 'Elegir imagen',
+  'slicer.loading': 'Abriendo...',
+  'slicer.drop': 'Suelta aquí la imagen de la cuadrícula generada',
+  'slicer.margin': 'Margen (px)',
+  'slicer.gutter': 'Separación (px)',
+  'slicer.size': '{width} × {height} px',
+  'slicer.apply': 'Asignar {count} fotogramas',
+  'slicer.notImage': 'No se pudo abrir {file} como imagen.',
+  'slicer.failed': 'No se pudo cortar la imagen de la cuadrícula.',
+
+  'review.open': 'Revisar coherencia',
+  'review.openTitle': 'Compara la cuadrícula renderizada con las referencias',
+  'review.title': 'Revisión de coherencia',
+  'review.close': 'Cerrar revisión',
+  'review.hint': 'Envía los planos renderizados de vuelta al modelo junto con las referencias y el plan. Cada plano se puntúa de 1 a 10 en personaje, vestuario, iluminación y encuadre.',
+  'review.runFrames': 'Revisar fotogramas cortados',
+  'review.noFrames': 'Importa primero la cuadrícula generada para revisar sus fotogramas',
+  'review.runGrid': 'Revisar una imagen de cuadrícula',
+  'review.running': 'Revisando...',
+  'review.reviewedAt': 'Revisado el {date}',
+  'review.threshold': 'Las puntuaciones de {score} o menos necesitan corrección',
+  'review.character': 'Personaje',
+  'review.costume': 'Vestuario',
+  'review.lighting': 'Iluminación',
+  'review.framing': 'Encuadre',
+  'review.noIssues': 'No se encontraron problemas.',
+  'review.fix': 'Corrección: {fix}',
+  'review.applyFix': 'Regenerar con la corrección',
+  'review.fixed': 'Corrección aplicada',
+  'review.flagged': 'Requiere corrección',
+  'review.flaggedTitle': 'La revisión de coherencia puntuó bajo este plano'
+};
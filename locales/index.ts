@@ -0,0 +1,49 @@
+import { LocaleCode } from '../types';
+import { isLocaleCode } from '../utils/locale';
+import { en, UiStringKey, UiCatalog } from './en';
+import { cn } from './cn';
+import { ja } from './ja';
+import { ko } from './ko';
+import { es } from './es';
+
+// Interface string catalog. The UI locale is independent of a project's output
+// languages: a Japanese-speaking user can edit an English/Spanish storyboard.
+
+export type { UiStringKey, UiCatalog };
+
+export type Translate = (key: UiStringKey, params?: Record<string, string | number>) => string;
+
+const CATALOGS: Record<LocaleCode, UiCatalog> = { en, cn, ja, ko, es };
+
+// BCP 47 tags, for <html lang> and matching the browser's language
+export const LOCALE_TAGS: Record<LocaleCode, string> = {
+  en: 'en',
+  cn: 'zh-CN',
+  ja: 'ja',
+  ko: 'ko',
+  es: 'es'
+};
+
+export const createTranslator = (locale: LocaleCode): Translate => {
+  const catalog = CATALOGS[locale];
+  return (key, params) => {
+    const text = catalog[key] ?? en[key];
+    return params ? text.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match) : text;
+  };
+};
+
+const STORAGE_KEY = 'storyboard.uiLocale';
+
+// The saved choice, else the browser's language, else English
+export const loadUiLocale = (): LocaleCode => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocaleCode(stored)) return stored;
+  const browser = (navigator.language || '').toLowerCase();
+  const match = (Object.keys(LOCALE_TAGS) as LocaleCode[])
+    .find(code => browser.startsWith(LOCALE_TAGS[code].slice(0, 2).toLowerCase()));
+  return match || 'en';
+};
+
+export const saveUiLocale = (locale: LocaleCode) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
@@ -0,0 +1,368 @@
+import { UiCatalog } from './en';
+
+// Japanese
+export const ja: UiCatalog = {
+  'app.title': 'AI ストーリーボードマスター',
+  'app.tagline': '画像から Midjourney・SDXL・DALL·E 向けの一貫したストーリーボードプロンプトを生成します。',
+  'app.footerTip': 'ヒント：プロンプト出力の上で使用する画像生成ツールを選ぶか、テンプレートを編集して "--stylize" や "--chaos" などのパラメータを変更できます。このツールはキャラクターや環境の細部をグリッド全体で一貫させます。',
+
+  'common.cancel': 'キャンセル',
+  'common.save': '保存',
+  'common.close': '閉じる',
+  'common.edit': '編集',
+  'common.delete': '削除',
+  'common.rename': '名前を変更',
+  'common.duplicate': '複製',
+  'common.reset': 'リセット',
+  'common.dismiss': '閉じる',
+  'common.copy': 'コピー',
+  'common.copied': 'コピーしました',
+  'common.name': '名前',
+
+  'header.projectName': 'プロジェクト名',
+  'header.undo': '元に戻す (Ctrl+Z)',
+  'header.redo': 'やり直す (Ctrl+Shift+Z)',
+  'header.projects': 'プロジェクト',
+  'header.projectsTitle': '保存したプロジェクトを表示',
+  'header.import': 'インポート',
+  'header.importTitle': '{extension} ファイルをインポート',
+  'header.export': 'エクスポート',
+  'header.exportTitle': 'このストーリーボードを {extension} ファイルとしてエクスポート',
+  'header.providerTitle': 'モデルプロバイダーの設定',
+  'header.uiLanguage': '表示言語',
+  'header.usage': '使用量',
+  'header.usageTitle': 'このプロジェクトのトークン数と推定コスト',
+  'header.cache': 'キャッシュ',
+  'header.cacheTitle': 'キャッシュ済みのストーリーボード',
+
+  'progress.scene': 'シーンの説明を作成中...',
+  'progress.shots': 'ショット {next}/{total} を作成中...',
+  'progress.transitions': 'トランジション {next}/{total} を作成中...',
+  'progress.repair': '不足部分をリクエスト中（{next}/{total} 回目）...',
+
+  'status.analyzing': '参考画像と脚本を分析してショットを生成しています...',
+  'status.completed': '生成が完了しました！',
+  'status.partial': 'モデルの応答が不完全でした。不足部分は下に表示されています。',
+  'status.cancelled': '生成をキャンセルしました。',
+  'status.failed': 'ストーリーボードの生成に失敗しました。',
+  'status.repaired': 'ストーリーボードを修復しました。',
+
+  'error.import': '「{file}」をインポートできませんでした：{error}',
+  'error.noReferences': '画像を 1 枚以上アップロードするか、画像付きの設定項目を追加するか、シーン脚本を入力してください。',
+  'error.sceneTransition': 'シーントランジションの生成に失敗しました。もう一度お試しください。',
+  'error.sceneTransitions': 'シーントランジションの生成に失敗しました。もう一度お試しください。',
+  'error.saveAsset': '設定項目の保存に失敗しました。もう一度お試しください。',
+  'error.regenerateShot': 'ショットの再生成に失敗しました。もう一度お試しください。',
+  'error.review': 'レンダリングされたストーリーボードのレビューに失敗しました。',
+  'error.regenerateTransition': 'ショット {shot} からのトランジションの再生成に失敗しました。もう一度お試しください。',
+  'error.propagate': 'すべてのショットを更新できませんでした。更新済みのショットはそのまま残ります。',
+  'error.repair': '不足部分を補完できませんでした。もう一度お試しください。',
+  'error.auth': 'API キーが拒否されました。モデルプロバイダー設定で確認してください。',
+  'error.quota': 'レート制限またはクォータを超えました。少し待ってから再試行するか、プランを確認してください。',
+  'error.safety': '安全上の理由でモデルがリクエストを拒否しました。参考画像や説明を調整して再試行してください。',
+  'error.timeout': 'モデルが時間内に応答しませんでした。再試行するか、モデルプロバイダー設定でタイムアウトを延ばしてください。',
+  'error.malformed': 'モデルの出力を読み取れませんでした。もう一度お試しください。',
+  'error.network': 'モデルのエンドポイントに接続できません。ベース URL と接続を確認してください。',
+  'error.unknown': 'リクエストに失敗しました：{detail}',
+
+  'scene.defaultName': 'シーン {number}',
+  'scene.confirmDelete': '「{name}」とそのストーリーボードを削除しますか？',
+
+  'references.title': '1. 参考画像',
+  'references.upload': 'アップロード',
+  'references.alt': '参考画像 {number}',
+  'references.hint': 'キャラクター、衣装、環境の画像をアップロード、ドロップ、または貼り付けてください。',
+  'references.drop': 'ドロップして画像を追加',
+
+  'images.preparing': '画像を準備中...',
+  'images.unsupported': '対応していない画像：{files}',
+  'images.tooLarge': '{limit} MB を超えています：{files}',
+  'images.duplicate': '追加済み：{files}',
+  'images.limit': '上限の {limit} 枚を超えています：{files}',
+  'images.settings': '画像処理',
+  'images.maxDimension': '長辺（px）',
+  'images.quality': 'JPEG 品質（%）',
+  'images.maxFileMb': 'アップロード上限（MB）',
+  'images.maxImages': 'シーン／項目あたりの画像数',
+  'images.settingsHint': 'アップロードした画像は保存前に向きを補正し、縮小して再エンコードします。追加済みの画像と同じに見える画像はスキップされます。',
+
+  'settings.title': '2. ストーリーボード設定',
+  'settings.aspectRatio': 'アスペクト比',
+  'settings.outputLanguages': '出力言語',
+  'settings.outputLanguagesHint': 'このプロジェクトで生成されるテキストはすべてこれらの言語で書かれます。英語は常に含まれます。新しく追加した言語が欠けているテキストは補完対象として表示されます。',
+  'settings.shot': 'ショット {number}',
+  'settings.shotAsset': '{name} はショット {number} に登場',
+  'settings.generate': 'ストーリーボードプロンプトを生成',
+  'settings.generating': '生成中...',
+
+  'aspect.cinematic': 'シネマ',
+  'aspect.portrait': '縦長',
+  'aspect.tv': 'テレビ',
+  'aspect.poster': 'ポスター',
+  'aspect.square': '正方形',
+
+  'layout.title': 'グリッドレイアウト',
+  'layout.preset': '{label}（{count} ショット）',
+  'layout.custom': 'カスタム（{layout}）',
+  'layout.rows': '行',
+  'layout.columns': '列',
+  'layout.rowsSuffix': '行 ×',
+  'layout.columnsSuffix': '列',
+  'layoutPreset.3x3': '3x3 クラシック',
+  'layoutPreset.2x2': '2x2 4コマ',
+  'layoutPreset.1x3': '1x3 三連',
+  'layoutPreset.2x3': '2x3 シート',
+  'layoutPreset.3x2': '3x2 シート',
+  'layoutPreset.4x4': '4x4 コンタクトシート',
+  'layoutPreset.1x4': '1x4 コマ漫画',
+  'layoutPreset.1x5': '1x5 コマ漫画',
+
+  'shotPresets.title': 'ショットシーケンスのプリセット',
+  'shotPresets.forLayout': '{layout} 用',
+  'shotPresets.otherLayouts': '他のレイアウト（{count} ショットに調整）',
+  'shotPresets.apply': '適用',
+  'shotPresets.saveTitle': '現在のショット構成をプリセットとして保存',
+  'shotPresets.namePrompt': 'プリセット名',
+  'shotPresets.confirmDelete': 'プリセット「{name}」を削除しますか？',
+  'shotPresets.import': 'インポート',
+  'shotPresets.importTitle': 'JSON ファイルからプリセットをインポート',
+  'shotPresets.imported': '{count} 件のプリセットをインポートしました。',
+  'shotPresets.importFailed': '{file} からプリセットをインポートできませんでした: {error}',
+  'shotPresets.export': 'エクスポート',
+  'shotPresets.exportTitle': '保存したプリセットを JSON ファイルとしてエクスポート',
+  'shotPresets.adaptHint': '{from} ショット用です。適用すると最初と最後のショットを残し、残りを {to} ショットに均等に割り当てます。',
+
+  'style.title': 'ビジュアルスタイル',
+  'style.none': 'スタイルなし（参照画像に従う）',
+  'style.fromProject': '{name}（このプロジェクトから）',
+  'style.palette': 'パレット / カラーグレード',
+  'style.lighting': 'ライティング',
+  'style.filmStock': 'フィルムとレンズの質感',
+  'style.era': '時代',
+  'style.namePrompt': 'スタイル名',
+  'style.copyName': '{name} のコピー',
+  'style.confirmDelete': 'スタイル「{name}」を削除しますか？',
+  'style.hint': '解析、ショットの書き直し、最終画像プロンプトに適用されます。編集するにはスタイルを複製してください。',
+
+  'script.title': 'シーン脚本',
+  'script.placeholder': '文章または Fountain 形式のシーンを貼り付けてください。例:\n\nINT. ROOFTOP BAR - NIGHT\n\nRain streaks the glass. MARA nurses a drink.\n\nJONAS\nYou came.',
+  'script.hint': '任意。アクションとセリフがショットに割り振られ、参考画像は任意になります。',
+  'script.fountain': '脚本 · {count} ビート',
+  'script.prose': '文章 · {count} ビート',
+  'script.load': 'ファイルを読み込む',
+  'script.clear': 'クリア',
+  'script.readFailed': '「{name}」を読み込めませんでした。',
+  'script.suggested': '提案: {framing}',
+  'script.applyTitle': 'このビートに提案されたフレーミングを使用します。説明を書き直すにはショットを再生成してください',
+  'script.applyAll': '提案されたフレーミング {count} 件を使用',
+  'script.applyAllTitle': '脚本のビートに提案されたフレーミングを使用します。説明を書き直すにはショットを再生成してください',
+
+  'spec.framing': 'フレーミング',
+  'spec.angle': 'カメラアングル',
+  'spec.lens': 'レンズ',
+  'spec.movement': 'カメラワーク',
+  'spec.duration': '長さ（秒）',
+  'spec.durationUnit': '秒',
+
+  'partial.title': '不完全な結果',
+  'partial.sceneMissing': 'シーンプロンプトがありません。',
+  'partial.missingShots': '不足しているショット：{shots}',
+  'partial.missingTransitions': '不足しているトランジション：{transitions}',
+  'partial.issues': '検証エラー {count} 件',
+  'partial.repair': '不足部分をリクエスト',
+
+  'output.title': '生成されたプロンプト',
+  'output.language': '下に表示する生成テキストの言語',
+  'output.target': 'プロンプトの出力先となる画像生成ツール',
+  'output.editTemplates': 'プロンプトテンプレートを編集',
+  'output.copyFor': '{name} 用にコピー',
+  'output.copied': 'コピーしました！',
+  'output.truncated': '{name} の上限 {limit} 文字に切り詰めました。',
+  'output.negative': 'ネガティブプロンプト',
+  'output.scene': 'シーンの説明',
+  'output.sceneEdited': 'シーンの説明が編集されました。これに合わせてショットを書き直しますか？手動で編集したショットは保持されます。',
+  'output.updateShots': 'ショットを更新',
+  'output.breakdown': 'ショット構成と調整',
+  'output.breakdownHint': 'カメラ設定を変更し、更新ボタンで説明を更新します',
+  'output.shot': 'ショット {number}',
+  'output.history': 'バージョン履歴',
+  'output.regenerateShot': 'このショットの説明を再生成',
+  'output.dragShot': 'ドラッグして並べ替え',
+  'output.insertShot': 'このショットの後にショットを挿入',
+  'output.deleteShot': 'このショットを削除',
+  'output.shotCountUnsupported': '8x8 以内のグリッドでは {count} ショットを配置できません',
+  'output.waitingShot': 'ショット {number} を待機中...',
+  'output.missingShot': 'モデルの応答にありません。更新ボタンでこのショットを生成してください。',
+  'output.transitions': '動画生成プロンプト（画像から動画）',
+  'output.transitionsHint': 'ショット N を開始フレーム、ショット N+1 を終了フレームとして動画トランジションを生成する際（Luma、Runway、Veo など）に使用してください。',
+  'output.autoRefresh': 'ショットを再生成したときに隣接するトランジションも更新',
+  'output.outdated': '古い',
+  'output.outdatedTitle': 'このトランジションがつなぐショットが作成後に変更されました',
+  'output.regenerateTransition': '現在のショットからこのトランジションを再生成',
+  'output.waitingTransition': 'このトランジションを待機中...',
+  'output.missingTransition': 'モデルの応答にありません。更新ボタンか「不足部分をリクエスト」で補完してください。',
+  'output.noTransitions': 'トランジションは生成されていません。',
+  'output.imagining': 'AI がストーリーボードを構想中...',
+  'output.empty': '参考画像をアップロードするかシーン脚本を入力して、生成をクリックしてください。',
+
+  'edit.title': 'このテキストを編集',
+  'edit.saveTitle': '保存 (Ctrl+Enter)',
+  'edit.edited': '手動で編集済み',
+  'edit.outOfSync': '未同期',
+  'edit.outOfSyncTitle': '他の言語がまだ更新されていません。クリックして再翻訳します。',
+  'edit.translating': '翻訳中...',
+
+  'history.title': 'ショット {number} の履歴',
+  'history.close': '履歴を閉じる',
+  'history.empty': 'このショットにはまだ記録されたバージョンがありません。',
+  'history.generated': '生成',
+  'history.regenerated': '再生成',
+  'history.edited': '編集',
+  'history.current': '現在',
+  'history.use': '使用',
+  'history.useTitle': 'このバージョンとそのカメラ設定を使用',
+
+  'bible.title': 'キャラクター＆アセット設定',
+  'bible.new': '新規項目',
+  'bible.namePlaceholder': '名前（例：Mia）',
+  'bible.descriptionPlaceholder': '固定の説明。そのまま送信されます（例：「20代半ば、銀色のショートボブ、白い虎のワッペン付きの赤いボンバージャケット」）',
+  'bible.save': '設定に保存',
+  'bible.useInScene': 'このシーンで使用',
+  'bible.noDescription': '固定の説明なし',
+  'bible.imageCount': '画像 {count} 枚',
+  'bible.delete': '設定から削除',
+  'bible.confirmDelete': '「{name}」を設定から削除しますか？',
+  'bible.empty': 'キャラクター、衣装、場所、小道具、スタイル参考を一度登録すれば、どのストーリーボードでも再利用できます。',
+
+  'projects.title': 'プロジェクト',
+  'projects.new': '新規プロジェクト',
+  'projects.loading': 'プロジェクトを読み込み中...',
+  'projects.empty': '保存されたストーリーボードはまだありません。参考画像か脚本を追加するとプロジェクトは自動保存されます。',
+  'projects.saveName': '名前を保存',
+  'projects.sceneCount': '{count} シーン',
+  'projects.sceneCountOne': '1 シーン',
+  'projects.generatedCount': '{count} 生成済み',
+  'projects.confirmDelete': '「{name}」を削除しますか？この操作は元に戻せません。',
+
+  'sequence.title': 'シーケンス',
+  'sequence.export': 'ショットリストを書き出す',
+  'sequence.exportTitle': 'すべてのシーンを 1 つのショットリスト（CSV）としてダウンロード',
+  'sequence.generated': '生成済み',
+  'sequence.draft': '下書き',
+  'sequence.moveEarlier': '前へ移動',
+  'sequence.moveLater': '後ろへ移動',
+  'sequence.rename': 'シーン名を変更',
+  'sequence.namePrompt': 'シーン名',
+  'sequence.delete': 'シーンを削除',
+  'sequence.add': 'シーンを追加',
+  'sequence.transitions': 'シーントランジション（{count}）',
+  'sequence.generateAll': 'すべてのシーントランジションを生成',
+  'sequence.lastShot': '{name}（最後のショット）',
+  'sequence.firstShot': '{name}（最初のショット）',
+  'sequence.generateTransition': 'このトランジションを生成',
+  'sequence.needsScenes': '先に両方のシーンを生成してください',
+  'sequence.notGenerated': 'まだ生成されていません。',
+
+  'templates.title': 'プロンプトテンプレート',
+  'templates.close': 'テンプレートを閉じる',
+  'templates.confirmDelete': 'テンプレート「{name}」を削除しますか？',
+  'templates.template': 'テンプレート（{language}出力）',
+  'templates.negativePlaceholder': '避けたい語句（カンマ区切り）',
+  'templates.maxLength': '最大文字数',
+  'templates.noLimit': '制限なし',
+  'templates.placeholders': 'プレースホルダー：',
+  'templates.sectionHint': '{section} で囲んだテキストは値が空のとき省略されます。{placeholder} がない場合、ネガティブプロンプトは別に表示されます。',
+  'placeholder.scene': 'シーンの説明',
+  'placeholder.shots': 'ショットごとに「ショット 01: ...」の 1 行',
+  'placeholder.shotsInline': 'すべてのショットをセミコロン区切りで 1 行に',
+  'placeholder.layout': 'グリッドレイアウト（例：3x3）',
+  'placeholder.rows': 'グリッドの行数',
+  'placeholder.columns': 'グリッドの列数',
+  'placeholder.shotCount': 'グリッド内のショット数',
+  'placeholder.aspectRatio': 'アスペクト比（例：16:9）',
+  'placeholder.negative': 'テンプレートのネガティブプロンプト',
+
+  'provider.title': 'モデルプロバイダー',
+  'provider.close': '設定を閉じる',
+  'provider.provider': 'プロバイダー',
+  'provider.analysisModel': '分析モデル',
+  'provider.fastModel': 'ショット書き直しモデル',
+  'provider.baseUrl': 'ベース URL',
+  'provider.sameOrigin': 'アプリと同じオリジン',
+  'provider.apiKey': 'API キー',
+  'provider.geminiKeyPlaceholder': 'Gemini API キー（このブラウザに保存されます）',
+  'provider.timeout': 'タイムアウト（秒）',
+  'provider.retries': 'リトライ回数',
+  'provider.note': '設定はこのブラウザに保存されます。アプリサーバーはモデルの API キーをサーバー側で保持します。モックプロバイダーは固定のストーリーボードを返し、ネットワークは不要です。',
+
+  'usage.title': '使用量とコスト',
+  'usage.close': '使用量を閉じる',
+  'usage.model': 'モデル',
+  'usage.requests': 'リクエスト',
+  'usage.input': '入力トークン',
+  'usage.output': '出力トークン',
+  'usage.cost': '推定コスト',
+  'usage.total': '合計',
+  'usage.unknownPrice': '不明',
+  'usage.empty': 'このプロジェクトではまだモデルへのリクエストがありません。',
+  'usage.note': 'トークン数は各レスポンスから取得しています。コストは公開価格による推定で、価格不明のモデルは合計に含まれません。',
+  'usage.reset': 'リセット',
+  'usage.confirmReset': 'このプロジェクトの使用量をリセットしますか？',
+
+  'cache.title': '結果キャッシュ',
+  'cache.close': 'キャッシュを閉じる',
+  'cache.loading': 'キャッシュを読み込み中...',
+  'cache.summary': 'キャッシュ済み {count} 件 · {size}',
+  'cache.empty': 'キャッシュはまだありません。完成したストーリーボードは生成時にキャッシュされます。',
+  'cache.delete': 'キャッシュから削除',
+  'cache.clear': 'キャッシュを消去',
+  'cache.confirmClear': 'キャッシュ済みのストーリーボードをすべて削除しますか？プロジェクトには影響しません。',
+  'cache.note': '参考画像、ショット、レイアウト、アスペクト比、言語、ビジュアルスタイル、脚本、バイブル項目、モデル、プロンプトのバージョンがすべて一致すると、キャッシュ済みの結果が提示されます。',
+  'cache.hit': '同じ参考画像と設定のストーリーボードは {date} に生成済みです。',
+  'cache.use': 'キャッシュを使う',
+  'cache.fresh': '新しいバリエーションを生成',
+  'cache.used': 'キャッシュ済みのストーリーボードを読み込みました。',
+
+  'frames.import': '生成グリッドを取り込む',
+  'frames.importTitle': '画像生成AIのグリッド画像をショットごとのフレームに切り分けます',
+  'frames.clear': 'フレームを消去',
+  'frames.confirmClear': 'このシーンの全ショットのフレームを削除しますか？',
+  'frames.start': '開始フレーム',
+  'frames.end': '終了フレーム',
+  'frames.download': 'フレームをダウンロード (.zip)',
+  'frames.downloadTitle': 'フレームとトランジションプロンプトを zip で保存',
+  'slicer.title': '生成グリッドを取り込む ({layout})',
+  'slicer.close': '閉じる',
+  'slicer.hint': '生成されたグリッド画像をアップロードすると、読み順でショットごとのパネルに切り分けます。枠がパネルに重なるまで余白と間隔を調整してください。',
+  'slicer.upload': '画像を選択',
+  'slicer.loading': '開いています...',
+  'slicer.drop': '生成されたグリッド画像をここにドロップ',
+  'slicer.margin': '余白 (px)',
+  'slicer.gutter': '間隔 (px)',
+  'slicer.size': '{width} × {height} px',
+  'slicer.apply': '{count} フレームを割り当て',
+  'slicer.notImage': '{file} を画像として開けませんでした。',
+  'slicer.failed': 'グリッド画像の切り分けに失敗しました。',
+
+  'review.open': '一貫性レビュー',
+  'review.openTitle': 'レンダリングされたグリッドを参考画像と照合します',
+  'review.title': '一貫性レビュー',
+  'review.close': 'レビューを閉じる',
+  'review.hint': 'レンダリングされたショットを参考画像と構成案とともにモデルへ送り返し、キャラクター・衣装・照明・フレーミングを 1〜10 で採点します。',
+  'review.runFrames': '切り分けたフレームをレビュー',
+  'review.noFrames': 'フレームをレビューするには先に生成グリッドを取り込んでください',
+  'review.runGrid': 'グリッド画像をレビュー',
+  'review.running': 'レビュー中...',
+  'review.reviewedAt': '{date} にレビュー',
+  'review.threshold': '{score} 点以下は修正が必要です',
+  'review.character': 'キャラクター',
+  'review.costume': '衣装',
+  'review.lighting': '照明',
+  'review.framing': 'フレーミング',
+  'review.noIssues': '問題は見つかりませんでした。',
+  'review.fix': '修正: {fix}',
+  'review.applyFix': '修正して再生成',
+  'review.fixed': '修正済み',
+  'review.flagged': '要修正',
+  'review.flaggedTitle': '一貫性レビューでこのショットの評価が低くなりました'
+};
@@ -0,0 +1,368 @@
+import { UiCatalog } from './en';
+
+// Korean
+export const ko: UiCatalog = {
+  'app.title': 'AI 스토리보드 마스터',
+  'app.tagline': '이미지로 Midjourney, SDXL, DALL·E용 일관된 스토리보드 프롬프트를 생성합니다.',
+  'app.footerTip': '팁: 프롬프트 출력 위에서 사용하는 이미지 생성기를 선택하거나, 템플릿을 편집해 "--stylize", "--chaos" 같은 파라미터를 바꿀 수 있습니다. 이 도구는 캐릭터와 환경 디테일이 그리드 전체에서 일관되도록 합니다.',
+
+  'common.cancel': '취소',
+  'common.save': '저장',
+  'common.close': '닫기',
+  'common.edit': '편집',
+  'common.delete': '삭제',
+  'common.rename': '이름 변경',
+  'common.duplicate': '복제',
+  'common.reset': '초기화',
+  'common.dismiss': '닫기',
+  'common.copy': '복사',
+  'common.copied': '복사됨',
+  'common.name': '이름',
+
+  'header.projectName': '프로젝트 이름',
+  'header.undo': '실행 취소 (Ctrl+Z)',
+  'header.redo': '다시 실행 (Ctrl+Shift+Z)',
+  'header.projects': '프로젝트',
+  'header.projectsTitle': '저장된 프로젝트 보기',
+  'header.import': '가져오기',
+  'header.importTitle': '{extension} 파일 가져오기',
+  'header.export': '내보내기',
+  'header.exportTitle': '이 스토리보드를 {extension} 파일로 내보내기',
+  'header.providerTitle': '모델 제공자 설정',
+  'header.uiLanguage': '인터페이스 언어',
+  'header.usage': '사용량',
+  'header.usageTitle': '이 프로젝트의 토큰 수와 예상 비용',
+  'header.cache': '캐시',
+  'header.cacheTitle': '캐시된 스토리보드',
+
+  'progress.scene': '장면 설명을 작성하는 중...',
+  'progress.shots': '샷 {next}/{total} 작성 중...',
+  'progress.transitions': '트랜지션 {next}/{total} 작성 중...',
+  'progress.repair': '누락된 부분 요청 중 ({next}/{total}번째 시도)...',
+
+  'status.analyzing': '참고 이미지와 대본을 분석하고 샷을 생성하는 중...',
+  'status.completed': '생성 완료!',
+  'status.partial': '모델이 불완전한 스토리보드를 반환했습니다. 누락된 부분은 아래에 표시됩니다.',
+  'status.cancelled': '생성이 취소되었습니다.',
+  'status.failed': '스토리보드 생성에 실패했습니다.',
+  'status.repaired': '스토리보드를 복구했습니다.',
+
+  'error.import': '"{file}"을(를) 가져올 수 없습니다: {error}',
+  'error.noReferences': '이미지를 한 장 이상 업로드하거나, 이미지가 있는 설정 항목을 추가하거나, 장면 대본을 작성하세요.',
+  'error.sceneTransition': '장면 트랜지션 생성에 실패했습니다. 다시 시도하세요.',
+  'error.sceneTransitions': '장면 트랜지션 생성에 실패했습니다. 다시 시도하세요.',
+  'error.saveAsset': '설정 항목 저장에 실패했습니다. 다시 시도하세요.',
+  'error.regenerateShot': '샷 재생성에 실패했습니다. 다시 시도하세요.',
+  'error.review': '렌더링된 스토리보드를 검토하지 못했습니다.',
+  'error.regenerateTransition': '샷 {shot}에서 시작하는 트랜지션 재생성에 실패했습니다. 다시 시도하세요.',
+  'error.propagate': '모든 샷을 업데이트하지 못했습니다. 지금까지 업데이트된 샷은 유지됩니다.',
+  'error.repair': '누락된 부분을 채우지 못했습니다. 다시 시도하세요.',
+  'error.auth': 'API 키가 거부되었습니다. 모델 제공자 설정에서 확인하세요.',
+  'error.quota': '속도 제한 또는 할당량을 초과했습니다. 잠시 후 다시 시도하거나 요금제를 확인하세요.',
+  'error.safety': '모델이 안전상의 이유로 요청을 거부했습니다. 참고 이미지나 설명을 조정한 뒤 다시 시도하세요.',
+  'error.timeout': '모델이 제시간에 응답하지 않았습니다. 다시 시도하거나 모델 제공자 설정에서 시간 제한을 늘리세요.',
+  'error.malformed': '모델 출력을 읽을 수 없습니다. 다시 시도하세요.',
+  'error.network': '모델 엔드포인트에 연결할 수 없습니다. 기본 URL과 연결 상태를 확인하세요.',
+  'error.unknown': '요청 실패: {detail}',
+
+  'scene.defaultName': '장면 {number}',
+  'scene.confirmDelete': '"{name}"과(와) 해당 스토리보드를 삭제할까요?',
+
+  'references.title': '1. 참고 이미지',
+  'references.upload': '업로드',
+  'references.alt': '참고 이미지 {number}',
+  'references.hint': '캐릭터, 의상 또는 환경 이미지를 업로드하거나 끌어다 놓거나 붙여넣으세요.',
+  'references.drop': '놓으면 이미지가 추가됩니다',
+
+  'images.preparing': '이미지 준비 중...',
+  'images.unsupported': '지원되지 않는 이미지: {files}',
+  'images.tooLarge': '{limit} MB 초과: {files}',
+  'images.duplicate': '이미 추가됨: {files}',
+  'images.limit': '최대 {limit}장 초과: {files}',
+  'images.settings': '이미지 처리',
+  'images.maxDimension': '긴 변 (px)',
+  'images.quality': 'JPEG 품질 (%)',
+  'images.maxFileMb': '최대 업로드 크기 (MB)',
+  'images.maxImages': '장면 또는 항목당 이미지 수',
+  'images.settingsHint': '업로드한 이미지는 저장 전에 방향을 바로잡고 축소한 뒤 다시 인코딩합니다. 이미 추가된 이미지와 같아 보이는 이미지는 건너뜁니다.',
+
+  'settings.title': '2. 스토리보드 설정',
+  'settings.aspectRatio': '화면 비율',
+  'settings.outputLanguages': '출력 언어',
+  'settings.outputLanguagesHint': '이 프로젝트에서 생성되는 모든 텍스트는 이 언어들로 작성됩니다. 영어는 항상 포함됩니다. 새로 추가한 언어가 빠진 텍스트는 채워야 할 항목으로 표시됩니다.',
+  'settings.shot': '샷 {number}',
+  'settings.shotAsset': '{name}이(가) 샷 {number}에 등장',
+  'settings.generate': '스토리보드 프롬프트 생성',
+  'settings.generating': '생성 중...',
+
+  'aspect.cinematic': '시네마',
+  'aspect.portrait': '세로',
+  'aspect.tv': 'TV',
+  'aspect.poster': '포스터',
+  'aspect.square': '정사각형',
+
+  'layout.title': '그리드 레이아웃',
+  'layout.preset': '{label} ({count}샷)',
+  'layout.custom': '사용자 지정 ({layout})',
+  'layout.rows': '행',
+  'layout.columns': '열',
+  'layout.rowsSuffix': '행 ×',
+  'layout.columnsSuffix': '열',
+  'layoutPreset.3x3': '3x3 클래식',
+  'layoutPreset.2x2': '2x2 4컷',
+  'layoutPreset.1x3': '1x3 삼면화',
+  'layoutPreset.2x3': '2x3 시트',
+  'layoutPreset.3x2': '3x2 시트',
+  'layoutPreset.4x4': '4x4 밀착 인화',
+  'layoutPreset.1x4': '1x4 만화 스트립',
+  'layoutPreset.1x5': '1x5 만화 스트립',
+
+  'shotPresets.title': '샷 시퀀스 프리셋',
+  'shotPresets.forLayout': '{layout}용',
+  'shotPresets.otherLayouts': '다른 레이아웃 ({count}개 샷에 맞춤)',
+  'shotPresets.apply': '적용',
+  'shotPresets.saveTitle': '현재 샷 구성을 프리셋으로 저장',
+  'shotPresets.namePrompt': '프리셋 이름',
+  'shotPresets.confirmDelete': '프리셋 "{name}"을(를) 삭제할까요?',
+  'shotPresets.import': '가져오기',
+  'shotPresets.importTitle': 'JSON 파일에서 프리셋 가져오기',
+  'shotPresets.imported': '프리셋 {count}개를 가져왔습니다.',
+  'shotPresets.importFailed': '{file}에서 프리셋을 가져올 수 없습니다: {error}',
+  'shotPresets.export': '내보내기',
+  'shotPresets.exportTitle': '저장한 프리셋을 JSON 파일로 내보내기',
+  'shotPresets.adaptHint': '{from}개 샷용입니다. 적용하면 첫 샷과 마지막 샷을 유지하고 나머지를 {to}개 샷에 고르게 배분합니다.',
+
+  'style.title': '비주얼 스타일',
+  'style.none': '스타일 없음 (참조 이미지 따름)',
+  'style.fromProject': '{name} (이 프로젝트)',
+  'style.palette': '팔레트 / 컬러 그레이드',
+  'style.lighting': '조명 스타일',
+  'style.filmStock': '필름 및 렌즈 질감',
+  'style.era': '시대',
+  'style.namePrompt': '스타일 이름',
+  'style.copyName': '{name} 사본',
+  'style.confirmDelete': '스타일 "{name}"을(를) 삭제할까요?',
+  'style.hint': '분석, 샷 재작성, 최종 이미지 프롬프트에 적용됩니다. 편집하려면 스타일을 복제하세요.',
+
+  'script.title': '장면 대본',
+  'script.placeholder': '산문 또는 Fountain 형식의 장면을 붙여넣으세요. 예:\n\nINT. ROOFTOP BAR - NIGHT\n\nRain streaks the glass. MARA nurses a drink.\n\nJONAS\nYou came.',
+  'script.hint': '선택 사항. 액션과 대사가 샷에 나뉘어 배치되며, 참고 이미지는 선택 사항이 됩니다.',
+  'script.fountain': '대본 · 비트 {count}개',
+  'script.prose': '산문 · 비트 {count}개',
+  'script.load': '파일 불러오기',
+  'script.clear': '지우기',
+  'script.readFailed': '"{name}"을(를) 읽을 수 없습니다.',
+  'script.suggested': '제안: {framing}',
+  'script.applyTitle': '이 비트에 제안된 프레이밍을 사용합니다. 설명을 다시 쓰려면 샷을 다시 생성하세요',
+  'script.applyAll': '제안된 프레이밍 {count}개 사용',
+  'script.applyAllTitle': '대본 비트에 제안된 프레이밍을 사용합니다. 설명을 다시 쓰려면 샷을 다시 생성하세요',
+
+  'spec.framing': '프레이밍',
+  'spec.angle': '카메라 앵글',
+  'spec.lens': '렌즈',
+  'spec.movement': '카메라 무빙',
+  'spec.duration': '길이(초)',
+  'spec.durationUnit': '초',
+
+  'partial.title': '불완전한 결과',
+  'partial.sceneMissing': '장면 프롬프트가 없습니다.',
+  'partial.missingShots': '누락된 샷: {shots}',
+  'partial.missingTransitions': '누락된 트랜지션: {transitions}',
+  'partial.issues': '검증 문제 {count}건',
+  'partial.repair': '누락된 부분 요청',
+
+  'output.title': '생성된 프롬프트',
+  'output.language': '아래에 표시할 생성 텍스트의 언어',
+  'output.target': '프롬프트를 맞출 이미지 생성기',
+  'output.editTemplates': '프롬프트 템플릿 편집',
+  'output.copyFor': '{name}용으로 복사',
+  'output.copied': '복사됨!',
+  'output.truncated': '{name}의 {limit}자 제한에 맞춰 잘랐습니다.',
+  'output.negative': '네거티브 프롬프트',
+  'output.scene': '장면 설명',
+  'output.sceneEdited': '장면 설명이 편집되었습니다. 이에 맞춰 샷을 다시 작성할까요? 직접 편집한 샷은 유지됩니다.',
+  'output.updateShots': '샷 업데이트',
+  'output.breakdown': '샷 구성 및 조정',
+  'output.breakdownHint': '카메라 설정을 바꾼 뒤 새로고침을 눌러 설명을 업데이트하세요',
+  'output.shot': '샷 {number}',
+  'output.history': '버전 기록',
+  'output.regenerateShot': '이 샷 설명 다시 생성',
+  'output.dragShot': '드래그하여 순서 변경',
+  'output.insertShot': '이 샷 뒤에 샷 삽입',
+  'output.deleteShot': '이 샷 삭제',
+  'output.shotCountUnsupported': '8x8 이하의 그리드로는 {count}개의 샷을 배치할 수 없습니다',
+  'output.waitingShot': '샷 {number} 대기 중...',
+  'output.missingShot': '모델 응답에 없습니다. 새로고침을 눌러 이 샷을 생성하세요.',
+  'output.transitions': '영상 생성 프롬프트 (이미지 → 영상)',
+  'output.transitionsHint': '샷 N을 시작 프레임, 샷 N+1을 끝 프레임으로 영상 트랜지션을 생성할 때(Luma, Runway, Veo 등) 이 프롬프트를 사용하세요.',
+  'output.autoRefresh': '샷을 다시 생성하면 인접한 트랜지션도 새로고침',
+  'output.outdated': '오래됨',
+  'output.outdatedTitle': '이 트랜지션이 연결하는 샷이 작성 이후 변경되었습니다',
+  'output.regenerateTransition': '현재 샷으로 이 트랜지션 다시 생성',
+  'output.waitingTransition': '이 트랜지션 대기 중...',
+  'output.missingTransition': '모델 응답에 없습니다. 새로고침하거나 "누락된 부분 요청"으로 채우세요.',
+  'output.noTransitions': '생성된 트랜지션이 없습니다.',
+  'output.imagining': 'AI가 스토리보드를 구상하는 중...',
+  'output.empty': '참고 이미지를 업로드하거나 장면 대본을 작성한 뒤 생성을 눌러 보세요.',
+
+  'edit.title': '이 텍스트 편집',
+  'edit.saveTitle': '저장 (Ctrl+Enter)',
+  'edit.edited': '직접 편집함',
+  'edit.outOfSync': '동기화 안 됨',
+  'edit.outOfSyncTitle': '다른 언어가 아직 업데이트되지 않았습니다. 클릭하면 다시 번역합니다.',
+  'edit.translating': '번역 중...',
+
+  'history.title': '샷 {number} 기록',
+  'history.close': '기록 닫기',
+  'history.empty': '이 샷에 기록된 버전이 아직 없습니다.',
+  'history.generated': '생성됨',
+  'history.regenerated': '재생성됨',
+  'history.edited': '편집됨',
+  'history.current': '현재',
+  'history.use': '사용',
+  'history.useTitle': '이 버전과 카메라 설정 사용',
+
+  'bible.title': '캐릭터 및 에셋 설정',
+  'bible.new': '새 항목',
+  'bible.namePlaceholder': '이름 (예: Mia)',
+  'bible.descriptionPlaceholder': '고정 설명, 그대로 전송됩니다 (예: "20대 중반, 은색 단발 보브, 흰 호랑이 패치가 달린 빨간 항공 점퍼")',
+  'bible.save': '설정에 저장',
+  'bible.useInScene': '이 장면에서 사용',
+  'bible.noDescription': '고정 설명 없음',
+  'bible.imageCount': '이미지 {count}장',
+  'bible.delete': '설정에서 삭제',
+  'bible.confirmDelete': '"{name}"을(를) 설정에서 제거할까요?',
+  'bible.empty': '캐릭터, 의상, 장소, 소품, 스타일 참고를 한 번 추가하면 어느 스토리보드에서나 다시 쓸 수 있습니다.',
+
+  'projects.title': '프로젝트',
+  'projects.new': '새 프로젝트',
+  'projects.loading': '프로젝트를 불러오는 중...',
+  'projects.empty': '저장된 스토리보드가 아직 없습니다. 참고 이미지나 대본을 추가하면 프로젝트가 자동으로 저장됩니다.',
+  'projects.saveName': '이름 저장',
+  'projects.sceneCount': '장면 {count}개',
+  'projects.sceneCountOne': '장면 1개',
+  'projects.generatedCount': '{count}개 생성됨',
+  'projects.confirmDelete': '"{name}"을(를) 삭제할까요? 되돌릴 수 없습니다.',
+
+  'sequence.title': '시퀀스',
+  'sequence.export': '샷 리스트 내보내기',
+  'sequence.exportTitle': '모든 장면을 순서대로 정리된 하나의 샷 리스트(CSV)로 다운로드',
+  'sequence.generated': '생성됨',
+  'sequence.draft': '초안',
+  'sequence.moveEarlier': '앞으로 이동',
+  'sequence.moveLater': '뒤로 이동',
+  'sequence.rename': '장면 이름 변경',
+  'sequence.namePrompt': '장면 이름',
+  'sequence.delete': '장면 삭제',
+  'sequence.add': '장면 추가',
+  'sequence.transitions': '장면 트랜지션 ({count})',
+  'sequence.generateAll': '모든 장면 트랜지션 생성',
+  'sequence.lastShot': '{name} (마지막 샷)',
+  'sequence.firstShot': '{name} (첫 샷)',
+  'sequence.generateTransition': '이 트랜지션 생성',
+  'sequence.needsScenes': '먼저 두 장면을 모두 생성하세요',
+  'sequence.notGenerated': '아직 생성되지 않았습니다.',
+
+  'templates.title': '프롬프트 템플릿',
+  'templates.close': '템플릿 닫기',
+  'templates.confirmDelete': '"{name}" 템플릿을 삭제할까요?',
+  'templates.template': '템플릿 ({language} 출력)',
+  'templates.negativePlaceholder': '피할 단어, 쉼표로 구분',
+  'templates.maxLength': '최대 길이',
+  'templates.noLimit': '제한 없음',
+  'templates.placeholders': '플레이스홀더:',
+  'templates.sectionHint': '{section}로 감싼 텍스트는 값이 비어 있으면 생략됩니다. {placeholder}가 없으면 네거티브 프롬프트는 따로 표시됩니다.',
+  'placeholder.scene': '장면 설명',
+  'placeholder.shots': '샷마다 "샷 01: ..." 한 줄',
+  'placeholder.shotsInline': '모든 샷을 세미콜론으로 구분해 한 줄로',
+  'placeholder.layout': '그리드 레이아웃 (예: 3x3)',
+  'placeholder.rows': '그리드 행 수',
+  'placeholder.columns': '그리드 열 수',
+  'placeholder.shotCount': '그리드의 샷 수',
+  'placeholder.aspectRatio': '화면 비율 (예: 16:9)',
+  'placeholder.negative': '템플릿의 네거티브 프롬프트',
+
+  'provider.title': '모델 제공자',
+  'provider.close': '설정 닫기',
+  'provider.provider': '제공자',
+  'provider.analysisModel': '분석 모델',
+  'provider.fastModel': '샷 재작성 모델',
+  'provider.baseUrl': '기본 URL',
+  'provider.sameOrigin': '앱과 같은 출처',
+  'provider.apiKey': 'API 키',
+  'provider.geminiKeyPlaceholder': 'Gemini API 키 (이 브라우저에 저장됨)',
+  'provider.timeout': '시간 제한 (초)',
+  'provider.retries': '재시도 횟수',
+  'provider.note': '설정은 이 브라우저에 저장됩니다. 앱 서버는 모델 API 키를 서버에 보관합니다. 목업 제공자는 고정된 스토리보드를 반환하며 네트워크가 필요 없습니다.',
+
+  'usage.title': '사용량 및 비용',
+  'usage.close': '사용량 닫기',
+  'usage.model': '모델',
+  'usage.requests': '요청',
+  'usage.input': '입력 토큰',
+  'usage.output': '출력 토큰',
+  'usage.cost': '예상 비용',
+  'usage.total': '합계',
+  'usage.unknownPrice': '알 수 없음',
+  'usage.empty': '이 프로젝트에는 아직 모델 요청이 없습니다.',
+  'usage.note': '토큰 수는 각 응답에서 가져옵니다. 비용은 공시 가격 기준 추정치이며, 가격을 모르는 모델은 합계에서 제외됩니다.',
+  'usage.reset': '초기화',
+  'usage.confirmReset': '이 프로젝트의 사용량 합계를 초기화할까요?',
+
+  'cache.title': '결과 캐시',
+  'cache.close': '캐시 닫기',
+  'cache.loading': '캐시 불러오는 중...',
+  'cache.summary': '캐시된 스토리보드 {count}개 · {size}',
+  'cache.empty': '아직 캐시가 없습니다. 완성된 스토리보드는 생성될 때 캐시됩니다.',
+  'cache.delete': '캐시에서 제거',
+  'cache.clear': '캐시 비우기',
+  'cache.confirmClear': '캐시된 스토리보드를 모두 제거할까요? 프로젝트에는 영향이 없습니다.',
+  'cache.note': '참고 이미지, 샷, 레이아웃, 화면비, 언어, 비주얼 스타일, 대본, 바이블 항목, 모델, 프롬프트 버전이 모두 같으면 캐시된 스토리보드를 제안합니다.',
+  'cache.hit': '같은 참고 이미지와 설정의 스토리보드가 {date}에 이미 생성되었습니다.',
+  'cache.use': '캐시된 결과 사용',
+  'cache.fresh': '새 변형 생성',
+  'cache.used': '캐시된 스토리보드를 불러왔습니다.',
+
+  'frames.import': '생성된 그리드 가져오기',
+  'frames.importTitle': '이미지 생성기의 그리드 이미지를 샷별 프레임으로 자릅니다',
+  'frames.clear': '프레임 지우기',
+  'frames.confirmClear': '이 장면의 모든 샷 프레임을 제거할까요?',
+  'frames.start': '시작 프레임',
+  'frames.end': '끝 프레임',
+  'frames.download': '프레임 다운로드 (.zip)',
+  'frames.downloadTitle': '프레임과 전환 프롬프트를 zip으로 저장',
+  'slicer.title': '생성된 그리드 가져오기 ({layout})',
+  'slicer.close': '닫기',
+  'slicer.hint': '생성기가 돌려준 그리드 이미지를 올리면 읽는 순서대로 샷마다 한 칸씩 자릅니다. 윤곽선이 패널에 맞을 때까지 여백과 간격을 조정하세요.',
+  'slicer.upload': '이미지 선택',
+  'slicer.loading': '여는 중...',
+  'slicer.drop': '생성된 그리드 이미지를 여기에 놓으세요',
+  'slicer.margin': '여백 (px)',
+  'slicer.gutter': '간격 (px)',
+  'slicer.size': '{width} × {height} px',
+  'slicer.apply': '프레임 {count}개 붙이기',
+  'slicer.notImage': '{file}을(를) 이미지로 열 수 없습니다.',
+  'slicer.failed': '그리드 이미지를 자르지 못했습니다.',
+
+  'review.open': '일관성 검토',
+  'review.openTitle': '렌더링된 그리드를 참고 이미지와 비교합니다',
+  'review.title': '일관성 검토',
+  'review.close': '검토 닫기',
+  'review.hint': '렌더링된 샷을 참고 이미지, 계획과 함께 모델에 다시 보내 캐릭터, 의상, 조명, 프레이밍을 샷마다 1~10점으로 채점합니다.',
+  'review.runFrames': '잘라낸 프레임 검토',
+  'review.noFrames': '프레임을 검토하려면 먼저 생성된 그리드를 가져오세요',
+  'review.runGrid': '그리드 이미지 검토',
+  'review.running': '검토 중...',
+  'review.reviewedAt': '{date} 검토',
+  'review.threshold': '{score}점 이하는 수정이 필요합니다',
+  'review.character': '캐릭터',
+  'review.costume': '의상',
+  'review.lighting': '조명',
+  'review.framing': '프레이밍',
+  'review.noIssues': '문제가 없습니다.',
+  'review.fix': '수정: {fix}',
+  'review.applyFix': '수정 반영해 재생성',
+  'review.fixed': '수정 적용됨',
+  'review.flagged': '수정 필요',
+  'review.flaggedTitle': '일관성 검토에서 이 샷의 점수가 낮았습니다'
+};
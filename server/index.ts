@@ -0,0 +1,332 @@
+import { createServer, IncomingMessage, ServerResponse as HttpResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import {
+  ProviderErrorKind, ProviderId, ProviderSettings, StoryboardProvider, TokenUsage, GenerationOptions, StoryboardRequest,
+  StoryboardRepairRequest, ConsistencyReviewRequest, ASPECT_RATIOS, ShotFramingLabels, CameraAngleLabels, LensLabels, CameraMovementLabels
+} from "../types";
+import { PROVIDERS, createProvider, defaultProviderSettings } from "../services/providerRegistry";
+import { ProviderError, classifyError } from "../services/errors";
+import { isRecord } from "../services/validation";
+import { MAX_GRID_DIMENSION, isValidLayout } from "../utils/grid";
+import { isLocaleCode } from "../utils/locale";
+import { SERVER_ROUTES, SERVER_STREAM_TYPE, ServerResponse, ServerStreamLine, RegenerateShotBody, RegenerateTransitionBody, TranslateBody, SceneTransitionBody } from "../services/serverService";
+import { createRateLimiter } from "./rateLimit";
+
+// The app's backend: holds the model API key, exposes one route per provider
+// method (see SERVER_ROUTES) and serves the built front end from dist/.
+// Configured through the environment:
+//   PORT                   default 8787
+//   MODEL_PROVIDER         gemini (default), openai, ollama or mock
+//   GEMINI_API_KEY         key of the gemini provider (API_KEY also works)
+//   OPENAI_API_KEY         key of the openai provider
+//   MODEL, FAST_MODEL      override the provider's default models
+//   MODEL_BASE_URL         endpoint override, e.g. a stub model server (server/stubModel.ts)
+//   RATE_LIMIT_PER_MINUTE  requests per client and minute, default 30
+//   MAX_BODY_MB            largest accepted request body, default 30
+//   TRUST_PROXY            1 to identify clients by X-Forwarded-For
+//   STATIC_DIR             built front end, default dist
+
+const env = process.env;
+const PORT = Number(env.PORT) || 8787;
+const RATE_LIMIT_PER_MINUTE = Number(env.RATE_LIMIT_PER_MINUTE) || 30;
+const MAX_BODY_BYTES = (Number(env.MAX_BODY_MB) || 30) * 1024 * 1024;
+const TRUST_PROXY = env.TRUST_PROXY === '1';
+const STATIC_DIR = path.resolve(env.STATIC_DIR || 'dist');
+
+// What the client's httpError turns back into the same ProviderErrorKind
+const STATUS_FOR_KIND: Record<ProviderErrorKind, number> = {
+  auth: 401,
+  quota: 429,
+  safety: 422,
+  timeout: 504,
+  malformed: 502,
+  network: 502,
+  unknown: 500
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+// A request the server refuses before any model is called
+class RequestError extends Error {
+  constructor(readonly status: number, message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const providerSettingsFromEnv = (): ProviderSettings => {
+  const settings = defaultProviderSettings();
+  const provider = (env.MODEL_PROVIDER || 'gemini') as ProviderId;
+  if (!(provider in PROVIDERS) || provider === 'server') {
+    throw new Error(`Unknown MODEL_PROVIDER "${provider}", expected gemini, openai, ollama or mock.`);
+  }
+  const config = settings.configs[provider];
+  settings.provider = provider;
+  settings.configs[provider] = {
+    model: env.MODEL || config.model,
+    fastModel: env.FAST_MODEL || config.fastModel,
+    baseUrl: env.MODEL_BASE_URL || config.baseUrl,
+    apiKey: (provider === 'gemini' ? env.GEMINI_API_KEY || env.API_KEY : provider === 'openai' ? env.OPENAI_API_KEY : '') || ''
+  };
+  if (PROVIDERS[provider].usesApiKey && !settings.configs[provider].apiKey) {
+    throw new Error(`No API key for ${PROVIDERS[provider].label}; set ${provider === 'gemini' ? 'GEMINI_API_KEY' : 'OPENAI_API_KEY'}.`);
+  }
+  return settings;
+};
+
+// Checks one field of a request body. Values are checked, not just present:
+// a bogus layout or language list would otherwise reach the prompt, and a
+// huge grid would have the model write millions of shots on the server's key.
+type FieldCheck = (value: unknown) => boolean;
+
+const MAX_SHOTS = MAX_GRID_DIMENSION * MAX_GRID_DIMENSION;
+
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || check(value);
+const isString: FieldCheck = value => typeof value === 'string';
+const isShotNumber: FieldCheck = value => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_SHOTS;
+const isText: FieldCheck = value => isRecord(value) && typeof value.en === 'string';
+const isAspectRatio: FieldCheck = value => ASPECT_RATIOS.some(ratio => ratio === value);
+const isLanguages: FieldCheck = value => Array.isArray(value) && value.length > 0 && value.every(isLocaleCode);
+const isStrings: FieldCheck = value => Array.isArray(value) && value.every(isString);
+const isRecords: FieldCheck = value => Array.isArray(value) && value.every(isRecord);
+const isShotNumbers: FieldCheck = value => Array.isArray(value) && value.length <= MAX_SHOTS && value.every(isShotNumber);
+const isShotSpec: FieldCheck = value => isRecord(value)
+  && typeof value.framing === 'string' && value.framing in ShotFramingLabels
+  && typeof value.angle === 'string' && value.angle in CameraAngleLabels
+  && typeof value.lens === 'string' && value.lens in LensLabels
+  && typeof value.movement === 'string' && value.movement in CameraMovementLabels;
+const isShotSpecs: FieldCheck = value => Array.isArray(value) && value.length <= MAX_SHOTS && value.every(isShotSpec);
+const isTransitionShot: FieldCheck = value => isRecord(value) && isShotNumber(value.id) && isText(value.description) && isShotSpec(value.spec);
+const isSceneEndpoint: FieldCheck = value => isRecord(value) && isText(value.scenePrompt) && isText(value.shot) && isShotSpec(value.spec);
+const isRendered: FieldCheck = value => isRecord(value)
+  && (value.kind === 'grid' && isString(value.image) || value.kind === 'frames' && isStrings(value.frames));
+
+// Each route checks its body field by field, then unpacks it into one
+// provider call; past the checks the body is taken to be the route's request type.
+interface Route {
+  fields: Record<string, FieldCheck>;
+  call: (provider: StoryboardProvider, body: Record<string, unknown>, options: GenerationOptions) => Promise<unknown>;
+}
+
+const ROUTES: Record<string, Route> = {
+  [SERVER_ROUTES.storyboard]: {
+    fields: {
+      images: isStrings,
+      selectedShots: isShotSpecs,
+      layout: isValidLayout,
+      aspectRatio: isAspectRatio,
+      languages: isLanguages,
+      continuity: optional(value => isRecord(value) && isText(value.previousScenePrompt) && isText(value.previousLastShot)),
+      assets: optional(isRecords),
+      shotAssets: optional(value => Array.isArray(value) && value.every(isStrings)),
+      style: optional(value => value === null || isRecord(value)),
+      script: optional(isString)
+    },
+    call: (provider, body, options) => provider.analyzeAndGenerate(body as unknown as StoryboardRequest, options)
+  },
+  [SERVER_ROUTES.repair]: {
+    fields: {
+      partial: isRecord,
+      selectedShots: isShotSpecs,
+      aspectRatio: isAspectRatio,
+      languages: isLanguages,
+      repairScene: value => typeof value === 'boolean',
+      shotIds: isShotNumbers,
+      transitionFromShots: isShotNumbers,
+      assets: optional(isRecords),
+      script: optional(isString)
+    },
+    call: (provider, body, options) => provider.repairStoryboard(body as unknown as StoryboardRepairRequest, options)
+  },
+  [SERVER_ROUTES.regenerateShot]: {
+    fields: {
+      scenePrompt: isText,
+      shotId: isShotNumber,
+      spec: isShotSpec,
+      languages: isLanguages,
+      assets: optional(isRecords),
+      fix: optional(isString),
+      style: optional(value => value === null || isRecord(value))
+    },
+    call: (provider, body) => {
+      const { scenePrompt, shotId, spec, languages, assets, fix, style } = body as unknown as RegenerateShotBody;
+      return provider.regenerateShot(scenePrompt, shotId, spec, languages, assets, fix, style);
+    }
+  },
+  [SERVER_ROUTES.regenerateTransition]: {
+    fields: { scenePrompt: isText, from: isTransitionShot, to: isTransitionShot, languages: isLanguages },
+    call: (provider, body) => {
+      const { scenePrompt, from, to, languages } = body as unknown as RegenerateTransitionBody;
+      return provider.regenerateTransition(scenePrompt, from, to, languages);
+    }
+  },
+  [SERVER_ROUTES.translate]: {
+    fields: { text: isString, from: isLocaleCode, languages: isLanguages },
+    call: (provider, body) => {
+      const { text, from, languages } = body as unknown as TranslateBody;
+      return provider.translate(text, from, languages);
+    }
+  },
+  [SERVER_ROUTES.sceneTransition]: {
+    fields: { from: isSceneEndpoint, to: isSceneEndpoint, languages: isLanguages },
+    call: (provider, body) => {
+      const { from, to, languages } = body as unknown as SceneTransitionBody;
+      return provider.generateSceneTransition(from, to, languages);
+    }
+  },
+  [SERVER_ROUTES.review]: {
+    fields: {
+      rendered: isRendered,
+      result: isRecord,
+      images: isStrings,
+      assets: optional(isRecords),
+      selectedShots: isShotSpecs,
+      layout: isValidLayout,
+      aspectRatio: isAspectRatio
+    },
+    call: (provider, body, options) => provider.reviewConsistency(body as unknown as ConsistencyReviewRequest, options)
+  }
+};
+
+const clientOf = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (TRUST_PROXY && first) || req.socket.remoteAddress || 'unknown';
+};
+
+// Stops reading as soon as the body passes the limit
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    throw new RequestError(413, `Request body is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB.`);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestError(413, `Request body is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB.`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error('not an object');
+    return body;
+  } catch {
+    throw new RequestError(400, 'Request body must be a JSON object.');
+  }
+};
+
+const sendJson = (res: HttpResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// One line of a streamed answer; the headers go out with the first line
+const writeLine = <T>(res: HttpResponse, line: ServerStreamLine<T>) => {
+  if (!res.headersSent) res.writeHead(200, { 'Content-Type': SERVER_STREAM_TYPE, 'Cache-Control': 'no-cache' });
+  res.write(`${JSON.stringify(line)}\n`);
+};
+
+const sendError = (res: HttpResponse, status: number, kind: ProviderErrorKind, message: string, retryAfterMs?: number) => {
+  sendJson(res, status, { error: { kind, message } }, retryAfterMs ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : {});
+};
+
+// The built front end; unknown paths get index.html
+const serveStatic = async (urlPath: string, res: HttpResponse) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch {
+    throw new RequestError(400, 'Malformed URL.');
+  }
+  const requested = path.join(STATIC_DIR, path.normalize(decoded).replace(/^(\.\.[/\\])+/, ''));
+  const file = requested.startsWith(STATIC_DIR) && await stat(requested).then(s => s.isFile(), () => false)
+    ? requested
+    : path.join(STATIC_DIR, 'index.html');
+  try {
+    const content = await readFile(file);
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' });
+    res.end(content);
+  } catch {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found. Run `npm run build` to serve the app from this server.');
+  }
+};
+
+const settings = providerSettingsFromEnv();
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60_000);
+
+const server = createServer(async (req, res) => {
+  // A closed connection means the user cancelled. The storyboard, repair and
+  // review calls take the signal and stop; the provider's single-text methods
+  // have no signal, so those finish and their answer is dropped.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const usage: TokenUsage[] = [];
+  // Everything, static files included, runs inside the try: one bad request
+  // must not take the server down with an unhandled rejection
+  try {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (!url.pathname.startsWith('/api/')) {
+      if (req.method !== 'GET' && req.method !== 'HEAD') throw new RequestError(405, 'Method not allowed.');
+      return await serveStatic(url.pathname, res);
+    }
+
+    const route = ROUTES[url.pathname];
+    if (!route) throw new RequestError(404, `No route ${url.pathname}.`);
+    if (req.method !== 'POST') throw new RequestError(405, 'Use POST.');
+
+    const wait = limiter.take(clientOf(req));
+    if (wait > 0) throw new RequestError(429, 'Too many requests from this client; try again shortly.', wait);
+    const body = await readJsonBody(req);
+    const invalid = Object.entries(route.fields).filter(([field, check]) => !check(body[field])).map(([field]) => field);
+    if (invalid.length > 0) throw new RequestError(400, `Missing or invalid field(s): ${invalid.join(', ')}.`);
+    const provider = createProvider(settings, ({ provider: _provider, ...entry }) => usage.push(entry));
+    // Partials are only sent to a client that asked for a stream
+    const onPartial = req.headers.accept?.includes(SERVER_STREAM_TYPE)
+      ? (partial: unknown) => writeLine(res, { partial })
+      : undefined;
+    const data = await route.call(provider, body, { signal: controller.signal, onPartial });
+    const response: ServerResponse<unknown> = { data, usage };
+    if (res.headersSent) {
+      writeLine(res, response);
+      res.end();
+    } else {
+      sendJson(res, 200, response);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    if (error instanceof RequestError) {
+      return sendError(res, error.status, error.status === 429 ? 'quota' : 'unknown', error.message, error.retryAfterMs);
+    }
+    const classified = classifyError(error);
+    console.error(`${req.url} failed:`, classified);
+    const kind = classified instanceof ProviderError ? classified.kind : 'unknown';
+    const message = classified instanceof Error ? classified.message : String(classified);
+    // Once a stream has started the status is sent; the error becomes its last line
+    if (res.headersSent) {
+      writeLine(res, { error: { kind, message, status: STATUS_FOR_KIND[kind] } });
+      return res.end();
+    }
+    sendError(res, STATUS_FOR_KIND[kind], kind, message, classified instanceof ProviderError ? classified.retryAfterMs : undefined);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Storyboard server on http://localhost:${PORT} using ${PROVIDERS[settings.provider].label}` +
+    `${settings.configs[settings.provider].baseUrl ? ` at ${settings.configs[settings.provider].baseUrl}` : ''}, ` +
+    `${RATE_LIMIT_PER_MINUTE} requests per client per minute`);
+});
@@ -0,0 +1,33 @@
+// Fixed-window request counter per client. Enough to stop one visitor from
+// spending the API key's whole quota; not a substitute for a shared store
+// when the server runs as several instances.
+
+export interface RateLimiter {
+  // Counts one request; returns 0 if it may proceed, else milliseconds until it may
+  take(client: string, now?: number): number;
+}
+
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastSweep = 0;
+
+  return {
+    take(client, now = Date.now()) {
+      // Forget clients whose window has ended, at most once per window
+      if (now - lastSweep >= windowMs) {
+        windows.forEach((window, key) => {
+          if (now - window.start >= windowMs) windows.delete(key);
+        });
+        lastSweep = now;
+      }
+      const window = windows.get(client);
+      if (!window || now - window.start >= windowMs) {
+        windows.set(client, { start: now, count: 1 });
+        return 0;
+      }
+      if (window.count >= limit) return window.start + windowMs - now;
+      window.count++;
+      return 0;
+    }
+  };
+};
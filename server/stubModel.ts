@@ -0,0 +1,106 @@
+import { createServer } from "node:http";
+
+// A stand-in for the Gemini REST API, for trying the app server without a key
+// or quota: `npm run stub-model`, then start the server with
+// MODEL_BASE_URL=http://localhost:8788. Answers generateContent and
+// streamGenerateContent with JSON shaped by the request's responseSchema.
+// Environment:
+//   STUB_PORT      default 8788
+//   STUB_STATUS    answer every request with this HTTP status instead, e.g. 429
+//   STUB_DELAY_MS  wait this long before answering
+
+const env = process.env;
+const PORT = Number(env.STUB_PORT) || 8788;
+const STATUS = Number(env.STUB_STATUS) || 200;
+const DELAY_MS = Number(env.STUB_DELAY_MS) || 0;
+const STREAM_CHUNKS = 4;
+
+interface RestSchema {
+  type?: string;
+  properties?: Record<string, RestSchema>;
+  items?: RestSchema;
+  enum?: string[];
+}
+
+// The parts of a generateContent request the stub reads
+interface GenerateContentBody {
+  contents?: { parts?: { text?: string }[] }[];
+  generationConfig?: { responseSchema?: RestSchema };
+}
+
+// Shots the prompt talks about: the highest "Shot N" it mentions
+const shotCountOf = (prompt: string) =>
+  Math.max(1, ...Array.from(prompt.matchAll(/Shot (\d+)/g), match => Number(match[1])));
+
+// Arrays of shots get one entry per shot and arrays of transitions one per
+// pair of neighbours, numbered like the real model would
+const fake = (schema: RestSchema, key: string, shots: number, index: number): unknown => {
+  switch (schema.type?.toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties || {})
+        .map(([name, property]) => [name, fake(property, name, shots, index)]));
+    case 'ARRAY': {
+      const item = schema.items || {};
+      const properties = item.properties || {};
+      const length = 'fromShot' in properties ? shots - 1 : 'id' in properties || 'shotId' in properties ? shots : 1;
+      return Array.from({ length: Math.max(0, length) }, (_, i) => fake(item, key, shots, i));
+    }
+    case 'NUMBER':
+    case 'INTEGER':
+      if (key === 'id' || key === 'shotId' || key === 'fromShot') return index + 1;
+      if (key === 'toShot') return index + 2;
+      return 4;
+    case 'BOOLEAN':
+      return false;
+    default:
+      return schema.enum?.[0] ?? `Stub ${key} ${index + 1}`;
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  if (DELAY_MS) await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+
+  const [, model, method] = req.url?.match(/models\/([^:]+):(generateContent|streamGenerateContent)/) || [];
+  if (req.method !== 'POST' || !model) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    return res.end(JSON.stringify({ error: { code: 404, message: `Stub only answers generateContent and streamGenerateContent, not ${req.method} ${req.url}`, status: 'NOT_FOUND' } }));
+  }
+  if (STATUS !== 200) {
+    res.writeHead(STATUS, { 'Content-Type': 'application/json' });
+    return res.end(JSON.stringify({ error: { code: STATUS, message: `Stub failure ${STATUS}`, status: 'STUB' } }));
+  }
+
+  const body: GenerateContentBody = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  const prompt = (body.contents || [])
+    .flatMap(content => content.parts || [])
+    .map(part => part.text || '')
+    .join('\n');
+  const schema: RestSchema = body.generationConfig?.responseSchema || { type: 'OBJECT' };
+  const text = JSON.stringify(fake(schema, 'text', shotCountOf(prompt), 0));
+
+  const usageMetadata = { promptTokenCount: Math.ceil(prompt.length / 4), candidatesTokenCount: Math.ceil(text.length / 4) };
+  const chunk = (piece: string, last: boolean) => ({
+    candidates: [{ content: { role: 'model', parts: [{ text: piece }] }, ...(last ? { finishReason: 'STOP' } : {}), index: 0 }],
+    ...(last ? { usageMetadata } : {}),
+    modelVersion: model
+  });
+
+  if (method === 'streamGenerateContent') {
+    // Server-sent events, the text cut into a few pieces
+    const size = Math.ceil(text.length / STREAM_CHUNKS);
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (let i = 0; i < STREAM_CHUNKS; i++) {
+      res.write(`data: ${JSON.stringify(chunk(text.slice(i * size, (i + 1) * size), i === STREAM_CHUNKS - 1))}\r\n\r\n`);
+      if (DELAY_MS) await new Promise(resolve => setTimeout(resolve, DELAY_MS / STREAM_CHUNKS));
+    }
+    return res.end();
+  }
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(chunk(text, true)));
+});
+
+server.listen(PORT, () => {
+  console.log(`Stub model on http://localhost:${PORT}${STATUS !== 200 ? `, failing with ${STATUS}` : ''}`);
+});
@@ -0,0 +1,181 @@
+import { Schema } from "@google/genai";
+import { StoryboardResult, ShotSpec, StoryboardProvider, StoryboardRequest, StoryboardRepairRequest, SceneTransitionEndpoint, TransitionShot, BibleAsset, VisualStyle, GenerationOptions, LocaleCode, LocalizedText, TokenUsage, ConsistencyReviewRequest } from "../types";
+import { buildStoryboardPrompt, buildRegenerateShotPrompt, buildRepairPrompt, buildTransitionPrompt, buildTranslatePrompt, buildSceneTransitionPrompt, buildReviewPrompt, collectReferenceImages, collectReviewImages } from "./prompts";
+import { storyboardSchema, storyboardRepairSchema, localizedSchema, reviewSchema } from "./schemas";
+import { parsePartialJson } from "../utils/partialJson";
+import { ProviderError } from "./errors";
+import { withRetry } from "./retry";
+
+// 'analysis' is the strong multimodal model, 'fast' the cheap text model
+export type ModelTier = 'analysis' | 'fast';
+
+export interface JsonRequestOptions {
+  signal?: AbortSignal;
+  // When set, the provider streams and reports the accumulated text so far
+  onText?: (text: string) => void;
+}
+
+export interface JsonResponse {
+  text: string;
+  // Omitted when the endpoint doesn't report token counts
+  usage?: TokenUsage;
+}
+
+export interface ProviderOptions {
+  // An attempt with no response (or no new streamed text) for this long is aborted
+  timeoutMs: number;
+  // Retries of transient failures, see ProviderError.retryable
+  maxRetries: number;
+  // Called with the token counts of every response
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export const DEFAULT_PROVIDER_OPTIONS: ProviderOptions = {
+  timeoutMs: 120_000,
+  maxRetries: 3
+};
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+// Providers that talk to a real model only need to turn a prompt (plus optional
+// reference images) into a JSON string; the storyboard operations live here.
+export abstract class BaseProvider implements StoryboardProvider {
+  protected abstract readonly label: string;
+
+  constructor(protected readonly options: ProviderOptions = DEFAULT_PROVIDER_OPTIONS) {}
+
+  protected abstract generateJson(
+    tier: ModelTier,
+    prompt: string,
+    schema: Schema,
+    imagesBase64?: string[],
+    options?: JsonRequestOptions
+  ): Promise<JsonResponse>;
+
+  // One try, aborted once the endpoint goes quiet for longer than the timeout
+  private async attempt<T>(
+    tier: ModelTier,
+    prompt: string,
+    schema: Schema,
+    imagesBase64: string[],
+    signal?: AbortSignal,
+    onText?: (text: string) => void
+  ): Promise<T> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.options.timeoutMs);
+    };
+
+    resetTimer();
+    try {
+      const response = await this.generateJson(tier, prompt, schema, imagesBase64, {
+        signal: controller.signal,
+        onText: onText && (text => {
+          resetTimer();
+          onText(text);
+        })
+      });
+      if (response.usage) this.options.onUsage?.(response.usage);
+      return JSON.parse(response.text || '{}') as T;
+    } catch (error) {
+      if (timedOut && !signal?.aborted) {
+        throw new ProviderError('timeout', `${this.label} did not respond within ${Math.round(this.options.timeoutMs / 1000)}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private async request<T>(
+    action: string,
+    tier: ModelTier,
+    prompt: string,
+    schema: Schema,
+    imagesBase64: string[] = [],
+    options: GenerationOptions = {}
+  ): Promise<T> {
+    const { signal, onPartial } = options;
+    const onText = onPartial && ((text: string) => onPartial(parsePartialJson(text)));
+    try {
+      return await withRetry(
+        () => this.attempt<T>(tier, prompt, schema, imagesBase64, signal, onText),
+        { maxRetries: this.options.maxRetries, baseDelayMs: RETRY_BASE_DELAY_MS, maxDelayMs: RETRY_MAX_DELAY_MS },
+        signal,
+        (error, attempt, delayMs) => console.warn(
+          `${this.label} API Error (${action}), retry ${attempt} of ${this.options.maxRetries} in ${Math.round(delayMs / 1000)}s:`,
+          error
+        )
+      );
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`${this.label} API Error (${action}):`, error);
+      throw error;
+    }
+  }
+
+  analyzeAndGenerate(request: StoryboardRequest, options?: GenerationOptions): Promise<StoryboardResult> {
+    const prompt = buildStoryboardPrompt(request);
+    const schema = storyboardSchema(request.languages, !!request.script?.trim());
+    return this.request('Analyze', 'analysis', prompt, schema, collectReferenceImages(request), options);
+  }
+
+  regenerateShot(
+    scenePrompt: LocalizedText,
+    shotId: number,
+    spec: ShotSpec,
+    languages: LocaleCode[],
+    assets: BibleAsset[] = [],
+    fix?: string,
+    style?: VisualStyle | null
+  ): Promise<LocalizedText> {
+    const prompt = buildRegenerateShotPrompt(scenePrompt, shotId, spec, languages, assets, fix, style);
+    return this.request('Regenerate Shot', 'fast', prompt, localizedSchema(languages));
+  }
+
+  regenerateTransition(
+    scenePrompt: LocalizedText,
+    from: TransitionShot,
+    to: TransitionShot,
+    languages: LocaleCode[]
+  ): Promise<LocalizedText> {
+    const prompt = buildTransitionPrompt(scenePrompt, from, to, languages);
+    return this.request('Regenerate Transition', 'fast', prompt, localizedSchema(languages));
+  }
+
+  async translate(text: string, from: LocaleCode, languages: LocaleCode[]): Promise<LocalizedText> {
+    const prompt = buildTranslatePrompt(text, from, languages);
+    const translated = await this.request<LocalizedText>('Translate', 'fast', prompt, localizedSchema(languages));
+    // The edited side is authoritative even if the model touched it
+    return { ...translated, [from]: text };
+  }
+
+  generateSceneTransition(
+    from: SceneTransitionEndpoint,
+    to: SceneTransitionEndpoint,
+    languages: LocaleCode[]
+  ): Promise<LocalizedText> {
+    const prompt = buildSceneTransitionPrompt(from, to, languages);
+    return this.request('Scene Transition', 'fast', prompt, localizedSchema(languages));
+  }
+
+  repairStoryboard(request: StoryboardRepairRequest, options?: GenerationOptions): Promise<Partial<StoryboardResult>> {
+    const prompt = buildRepairPrompt(request);
+    return this.request('Repair', 'fast', prompt, storyboardRepairSchema(request.languages, !!request.script?.trim()), [], options);
+  }
+
+  reviewConsistency(request: ConsistencyReviewRequest, options?: GenerationOptions): Promise<unknown> {
+    const prompt = buildReviewPrompt(request);
+    return this.request('Review', 'analysis', prompt, reviewSchema, collectReviewImages(request), options);
+  }
+}
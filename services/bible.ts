@@ -0,0 +1,31 @@
+import { BibleAsset, AssetKind } from "../types";
+import { STORES, dbGetAll, dbPut, dbDelete } from "./db";
+
+// Shared character & asset library, stored independently of projects.
+
+export const createAsset = (kind: AssetKind = 'character'): BibleAsset => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), kind, name: '', description: '', images: [], createdAt: now, updatedAt: now };
+};
+
+export const listAssets = async (): Promise<BibleAsset[]> => {
+  const assets = await dbGetAll<BibleAsset>(STORES.assets);
+  return assets.sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+};
+
+export const saveAsset = async (asset: BibleAsset): Promise<void> => {
+  await dbPut(STORES.assets, { ...asset, updatedAt: Date.now() });
+};
+
+export const deleteAsset = (id: string): Promise<void> => dbDelete(STORES.assets, id);
+
+// Adds assets carried by an imported file; newer copies win over older ones
+export const mergeAssets = async (incoming: BibleAsset[]): Promise<void> => {
+  const existing = new Map((await listAssets()).map(asset => [asset.id, asset]));
+  for (const asset of incoming) {
+    const current = existing.get(asset.id);
+    if (!current || current.updatedAt < asset.updatedAt) {
+      await dbPut(STORES.assets, asset);
+    }
+  }
+};
@@ -0,0 +1,71 @@
+// Minimal promise wrapper around IndexedDB. Reference images are stored as
+// base64 data URLs, which quickly exceed localStorage quotas.
+
+const DB_NAME = 'ai-storyboard-master';
+const DB_VERSION = 3;
+
+export const STORES = {
+  projects: 'projects',
+  assets: 'assets',
+  results: 'results'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Create any store missing from older database versions
+        Object.values(STORES).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(action(db.transaction(store, mode).objectStore(store)));
+};
+
+export const dbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(store, 'readonly', s => s.get(key));
+
+export const dbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  withStore(store, 'readonly', s => s.getAll());
+
+export const dbPut = async <T>(store: StoreName, value: T): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.put(value));
+};
+
+export const dbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.delete(key));
+};
+
+export const dbClear = async (store: StoreName): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.clear());
+};
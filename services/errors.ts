@@ -0,0 +1,73 @@
+import { ApiError } from "@google/genai";
+import { ProviderErrorKind } from "../types";
+
+// A failed model request, classified so the UI can say what went wrong and
+// the retry loop knows whether trying again can help.
+export class ProviderError extends Error {
+  constructor(
+    readonly kind: ProviderErrorKind,
+    message: string,
+    // HTTP status of the failed response, if there was one
+    readonly status?: number,
+    // Delay the server asked for before the next attempt
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  // Rate limits, timeouts, dropped connections, 5xx and unreadable output can
+  // succeed on a second attempt; auth and safety failures never do
+  get retryable(): boolean {
+    if (this.kind === 'quota' || this.kind === 'timeout' || this.kind === 'network' || this.kind === 'malformed') return true;
+    return this.kind === 'unknown' && this.status !== undefined && this.status >= 500;
+  }
+}
+
+const kindForStatus = (status: number): ProviderErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  return 'unknown';
+};
+
+// "Retry-After: 12" header, or Gemini's "retryDelay": "12s" in the error body
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = value.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/)?.[1] ?? (/^\d+(\.\d+)?$/.test(value.trim()) ? value.trim() : undefined);
+  return seconds ? Math.round(Number(seconds) * 1000) : undefined;
+};
+
+// Builds the error for a non-2xx response of a fetch-based provider
+export const httpError = async (label: string, response: Response): Promise<ProviderError> => {
+  const body = await response.text().catch(() => '');
+  let kind = kindForStatus(response.status);
+  if (/content[_ ]policy|content_filter|safety/i.test(body)) kind = 'safety';
+  if (/insufficient_quota|quota/i.test(body) && kind === 'unknown') kind = 'quota';
+  return new ProviderError(
+    kind,
+    `${label} endpoint returned ${response.status}: ${body}`,
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after')) ?? parseRetryAfter(body)
+  );
+};
+
+// Turns anything thrown by a provider into a ProviderError. Aborts are
+// passed through untouched: they are the user cancelling, not a failure.
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof ProviderError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiError) {
+    const kind: ProviderErrorKind = /SAFETY|PROHIBITED_CONTENT|BLOCKLIST/.test(message) ? 'safety'
+      : /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/.test(message) ? 'auth'
+      : /RESOURCE_EXHAUSTED/.test(message) ? 'quota'
+      : kindForStatus(error.status);
+    return new ProviderError(kind, message, error.status, parseRetryAfter(message));
+  }
+  if (error instanceof SyntaxError) return new ProviderError('malformed', message);
+  // fetch rejects with a TypeError when the endpoint can't be reached at all
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new ProviderError('network', message);
+  return new ProviderError('unknown', message);
+};
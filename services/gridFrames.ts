@@ -0,0 +1,93 @@
+import { GridLayout, GridSlice, LocaleCode, StoryboardResult } from "../types";
+import { parseLayout } from "../utils/grid";
+import { readExifOrientation, decodeImage, drawUpright, canvasToDataUrl } from "../utils/image";
+import { createZip, ZipEntry } from "../utils/zip";
+
+// The grid image an image generator renders from our prompt, cut back into one
+// frame per shot. Frames are the start and end frames of the transition prompts.
+
+export const DEFAULT_GRID_SLICE: GridSlice = { margin: 0, gutter: 0 };
+
+export interface PanelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Panels in reading order, left to right then top to bottom. `margin` is the
+// border around the whole grid and `gutter` the gap between panels, both in
+// pixels of the image; values that leave no room for the panels are reduced.
+export const panelRects = (width: number, height: number, layout: GridLayout, slice: GridSlice): PanelRect[] => {
+  const { rows, columns } = parseLayout(layout);
+  const fit = (size: number, count: number) => {
+    const margin = Math.min(Math.max(slice.margin, 0), (size - count) / 2);
+    const gutter = count > 1 ? Math.min(Math.max(slice.gutter, 0), (size - 2 * margin - count) / (count - 1)) : 0;
+    return { margin, gutter, panel: (size - 2 * margin - gutter * (count - 1)) / count };
+  };
+  const across = fit(width, columns);
+  const down = fit(height, rows);
+  return Array.from({ length: rows * columns }, (_, i) => {
+    const row = Math.floor(i / columns);
+    const column = i % columns;
+    return {
+      x: across.margin + column * (across.panel + across.gutter),
+      y: down.margin + row * (down.panel + down.gutter),
+      width: across.panel,
+      height: down.panel
+    };
+  });
+};
+
+// Decodes a rendered grid upright, ready for panelRects and sliceGridImage
+export const loadGridImage = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await decodeImage(file);
+  try {
+    const orientation = file.type === 'image/jpeg' ? await readExifOrientation(file) : 1;
+    return drawUpright(bitmap, orientation, Math.max(bitmap.width, bitmap.height));
+  } finally {
+    bitmap.close();
+  }
+};
+
+// One JPEG data URL per panel, in shot order
+export const sliceGridImage = (grid: HTMLCanvasElement, layout: GridLayout, slice: GridSlice, quality: number): string[] =>
+  panelRects(grid.width, grid.height, layout, slice).map(rect => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(rect.width));
+    canvas.height = Math.max(1, Math.round(rect.height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is unavailable');
+    ctx.drawImage(grid, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+    return canvasToDataUrl(canvas, quality);
+  });
+
+const dataUrlBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pad = (id: number) => String(id).padStart(2, '0');
+
+// frames/shot-NN.jpg for every framed shot, and per transition a folder with
+// its start and end frames and its prompt in each output language
+export const buildFramesZip = (result: StoryboardResult, frames: string[], languages: LocaleCode[]): Blob => {
+  const encoder = new TextEncoder();
+  const frameOf = (id: number) => frames[id - 1] || '';
+  const entries: ZipEntry[] = [];
+
+  result.shots.forEach(shot => {
+    if (frameOf(shot.id)) entries.push({ name: `frames/shot-${pad(shot.id)}.jpg`, data: dataUrlBytes(frameOf(shot.id)) });
+  });
+  result.transitions.forEach(transition => {
+    const folder = `transitions/${pad(transition.fromShot)}-${pad(transition.toShot)}`;
+    if (frameOf(transition.fromShot)) entries.push({ name: `${folder}/start.jpg`, data: dataUrlBytes(frameOf(transition.fromShot)) });
+    if (frameOf(transition.toShot)) entries.push({ name: `${folder}/end.jpg`, data: dataUrlBytes(frameOf(transition.toShot)) });
+    languages.forEach(code => {
+      const prompt = transition.prompt[code];
+      if (prompt) entries.push({ name: `${folder}/prompt.${code}.txt`, data: encoder.encode(prompt) });
+    });
+  });
+
+  return createZip(entries);
+};
@@ -0,0 +1,203 @@
+import { StoryboardResult, ShotSpec, ShotFraming, ShotFramingLabels, CameraMovementLabels, AspectRatio, StoryboardProvider, StoryboardRequest, StoryboardRepairRequest, SceneTransitionEndpoint, TransitionShot, BibleAsset, VisualStyle, GenerationOptions, LocaleCode, LocalizedText, ConsistencyReviewRequest } from "../types";
+import { getShotCount } from "../utils/grid";
+import { createShotSpec, describeShotSpec } from "../utils/shotSpec";
+import { ScriptBeat, formatBeat, parseScript, spreadBeats } from "../utils/script";
+
+// Fixtures are written in English and Chinese; other languages get the
+// English text tagged with their code.
+const localize = (text: { en: string; cn: string }, languages: LocaleCode[]): LocalizedText =>
+  Object.fromEntries(languages.map(code =>
+    [code, code === 'en' || code === 'cn' ? text[code] : `[${code}] ${text.en}`]
+  )) as LocalizedText;
+
+const mockShot = (id: number, numShots: number, spec: ShotSpec, numImages: number, languages: LocaleCode[]) => ({
+  id,
+  description: localize({
+    en: `${describeShotSpec(spec, 'en')} of the subject from reference set (${numImages} images), frame ${id} of ${numShots}.`,
+    cn: `参考图组（${numImages} 张）中主体的${describeShotSpec(spec, 'cn')}，第 ${id}/${numShots} 帧。`
+  }, languages)
+});
+
+// Script details of each shot: dialogue wants a close-up, the opening a wide shot
+const mockScriptShots = (script: string | undefined, numShots: number) => {
+  const { beats } = parseScript(script || '');
+  if (beats.length === 0) return [];
+  const join = (shotBeats: ScriptBeat[], kind: ScriptBeat['kind']) =>
+    shotBeats.filter(beat => beat.kind === kind).map(formatBeat).join(' ');
+  return spreadBeats(beats, numShots).map((shotBeats, i) => {
+    const dialogue = join(shotBeats, 'dialogue');
+    const action = join(shotBeats, 'action');
+    return {
+      ...(dialogue ? { dialogue } : {}),
+      ...(action ? { action } : {}),
+      framing: i === 0 ? ShotFraming.Wide : dialogue ? ShotFraming.CloseUp : ShotFraming.Medium
+    };
+  });
+};
+
+const mockTransition = (fromShot: number, languages: LocaleCode[]) => ({
+  fromShot,
+  toShot: fromShot + 1,
+  prompt: localize({
+    en: `Smooth camera move from shot ${fromShot} to shot ${fromShot + 1}, keeping lighting and subject consistent.`,
+    cn: `从镜头${fromShot}平滑运镜到镜头${fromShot + 1}，保持光线与主体一致。`
+  }, languages)
+});
+
+const mockScene = (aspectRatio: AspectRatio, languages: LocaleCode[], style?: VisualStyle | null) => localize({
+  en: `Mock scene: a consistent subject in a single environment, ${aspectRatio} frame.${style ? ` ${style.name.en} style.` : ''}`,
+  cn: `模拟场景：同一环境中的一致主体，${aspectRatio} 画幅。${style ? `${style.name.cn || style.name.en}风格。` : ''}`
+}, languages);
+
+// Deterministic offline provider. Returns fixture storyboards derived only from
+// the inputs, so the app can be run and exercised without any network access.
+export class MockService implements StoryboardProvider {
+  constructor(private latencyMs: number = 300) {}
+
+  private wait(signal?: AbortSignal, ms: number = this.latencyMs): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      // A simulated stream waits many times on the same signal
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  async analyzeAndGenerate(request: StoryboardRequest, options: GenerationOptions = {}): Promise<StoryboardResult> {
+    const { signal, onPartial } = options;
+    await this.wait(signal);
+
+    const { images, selectedShots, layout, aspectRatio, assets = [], shotAssets = [], languages, style, script } = request;
+    const numShots = getShotCount(layout);
+    const scriptShots = mockScriptShots(script, numShots);
+    const shots = Array.from({ length: numShots }, (_, i) => {
+      const shot = mockShot(i + 1, numShots, selectedShots[i] || createShotSpec(), images.length, ['en', 'cn']);
+      const names = assets.filter(asset => shotAssets[i]?.includes(asset.id)).map(asset => asset.name);
+      const description = names.length === 0 ? shot.description : {
+        en: `${shot.description.en} Featuring ${names.join(', ')}.`,
+        cn: `${shot.description.cn}出现：${names.join('、')}。`
+      };
+      return { ...shot, description: localize({ en: description.en, cn: description.cn || '' }, languages), ...scriptShots[i] };
+    });
+
+    const result = {
+      scenePrompt: mockScene(aspectRatio, languages, style),
+      shots,
+      transitions: shots.slice(0, -1).map(shot => mockTransition(shot.id, languages))
+    };
+
+    // Simulated stream: the scene, then one shot or transition at a time
+    if (onPartial) {
+      const step = this.latencyMs / 4;
+      onPartial({ scenePrompt: result.scenePrompt });
+      for (let i = 1; i <= shots.length; i++) {
+        await this.wait(signal, step);
+        onPartial({ scenePrompt: result.scenePrompt, shots: shots.slice(0, i) });
+      }
+      for (let i = 1; i <= result.transitions.length; i++) {
+        await this.wait(signal, step);
+        onPartial({ ...result, transitions: result.transitions.slice(0, i) });
+      }
+    }
+
+    return result;
+  }
+
+  async regenerateShot(
+    scenePrompt: LocalizedText,
+    shotId: number,
+    spec: ShotSpec,
+    languages: LocaleCode[],
+    assets: BibleAsset[] = [],
+    fix?: string,
+    style?: VisualStyle | null
+  ): Promise<LocalizedText> {
+    await this.wait();
+
+    const names = assets.map(asset => asset.name);
+    return localize({
+      en: `${describeShotSpec(spec, 'en')} for shot ${shotId}: ${scenePrompt.en}${names.length ? ` Featuring ${names.join(', ')}.` : ''}${style ? ` In ${style.name.en} style.` : ''}${fix ? ` Fixed: ${fix}` : ''}`,
+      cn: `镜头${shotId}的${describeShotSpec(spec, 'cn')}：${scenePrompt.cn || scenePrompt.en}${names.length ? `出现：${names.join('、')}。` : ''}${style ? `${style.name.cn || style.name.en}风格。` : ''}${fix ? `已修正：${fix}` : ''}`
+    }, languages);
+  }
+
+  async regenerateTransition(
+    scenePrompt: LocalizedText,
+    from: TransitionShot,
+    to: TransitionShot,
+    languages: LocaleCode[]
+  ): Promise<LocalizedText> {
+    await this.wait();
+
+    return localize({
+      en: `${CameraMovementLabels[from.spec.movement].en} from shot ${from.id} to shot ${to.id}: ${to.description.en}`,
+      cn: `从镜头${from.id}${CameraMovementLabels[from.spec.movement].cn}至镜头${to.id}：${to.description.cn || to.description.en}`
+    }, languages);
+  }
+
+  async translate(text: string, from: LocaleCode, languages: LocaleCode[]): Promise<LocalizedText> {
+    await this.wait();
+
+    return Object.fromEntries(languages.map(code =>
+      [code, code === from ? text : code === 'cn' ? `（译）${text}` : `(translated) ${text}`]
+    )) as LocalizedText;
+  }
+
+  async generateSceneTransition(
+    from: SceneTransitionEndpoint,
+    to: SceneTransitionEndpoint,
+    languages: LocaleCode[]
+  ): Promise<LocalizedText> {
+    await this.wait();
+
+    return localize({
+      en: `Match cut from the ${ShotFramingLabels[from.spec.framing].en.toLowerCase()} closing the scene to the ${ShotFramingLabels[to.spec.framing].en.toLowerCase()} opening the next.`,
+      cn: `从上一场结尾的${ShotFramingLabels[from.spec.framing].cn}匹配剪辑到下一场开头的${ShotFramingLabels[to.spec.framing].cn}。`
+    }, languages);
+  }
+
+  async repairStoryboard(request: StoryboardRepairRequest, options: GenerationOptions = {}): Promise<Partial<StoryboardResult>> {
+    await this.wait(options.signal);
+
+    const numShots = request.partial.shots.length;
+    return {
+      ...(request.repairScene ? { scenePrompt: mockScene(request.aspectRatio, request.languages) } : {}),
+      shots: request.shotIds.map(id => ({
+        ...mockShot(id, numShots, request.selectedShots[id - 1] || createShotSpec(), 0, request.languages),
+        ...mockScriptShots(request.script, numShots)[id - 1]
+      })),
+      transitions: request.transitionFromShots.map(fromShot => mockTransition(fromShot, request.languages))
+    };
+  }
+
+  // Every third shot drifts in costume, so the review UI has something to show
+  async reviewConsistency(request: ConsistencyReviewRequest, options: GenerationOptions = {}): Promise<unknown> {
+    await this.wait(options.signal);
+
+    const { rendered, result, selectedShots } = request;
+    const reviewed = result.shots.filter(shot => rendered.kind === 'grid' || rendered.frames[shot.id - 1]);
+    return {
+      summary: `Mock review of ${reviewed.length} rendered shots.`,
+      shots: reviewed.map(shot => {
+        const drifted = shot.id % 3 === 0;
+        const framing = ShotFramingLabels[(selectedShots[shot.id - 1] || createShotSpec()).framing].en.toLowerCase();
+        return {
+          shotId: shot.id,
+          character: 9,
+          costume: drifted ? 4 : 8,
+          lighting: 8,
+          framing: 9,
+          issues: drifted ? [`The jacket in shot ${shot.id} changes color compared to the references.`] : [],
+          fix: drifted ? `Keep the jacket exactly as in the references in this ${framing}.` : ''
+        };
+      })
+    };
+  }
+}
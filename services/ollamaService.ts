@@ -0,0 +1,70 @@
+import { TokenUsage } from "../types";
+import { BaseProvider, ModelTier, JsonRequestOptions, JsonResponse, ProviderOptions } from "./baseProvider";
+import { httpError } from "./errors";
+import { readStreamLines } from "./streaming";
+import { parseDataUrl } from "./prompts";
+
+// Local Ollama-style HTTP endpoint (POST /api/chat). Vision models such as
+// llava or llama3.2-vision are required for the image analysis step.
+export class OllamaService extends BaseProvider {
+  protected readonly label = 'Ollama';
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private fastModel: string,
+    options?: ProviderOptions
+  ) {
+    super(options);
+  }
+
+  protected async generateJson(
+    tier: ModelTier,
+    prompt: string,
+    _schema: unknown,
+    imagesBase64: string[] = [],
+    options: JsonRequestOptions = {}
+  ): Promise<JsonResponse> {
+    const model = tier === 'analysis' ? this.model : this.fastModel;
+    // The final message (done: true) carries the token counts
+    const toUsage = (message: { done?: boolean; prompt_eval_count?: number; eval_count?: number }): TokenUsage | undefined =>
+      message.done ? { model, inputTokens: message.prompt_eval_count || 0, outputTokens: message.eval_count || 0 } : undefined;
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        stream: !!options.onText,
+        format: 'json',
+        messages: [{
+          role: 'user',
+          content: prompt,
+          // Ollama expects bare base64 without the data URL prefix
+          ...(imagesBase64.length > 0 ? { images: imagesBase64.map(img => parseDataUrl(img).data) } : {})
+        }]
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw await httpError('Ollama', response);
+    }
+
+    // Newline-delimited JSON, one message fragment per line
+    if (options.onText && response.body) {
+      let text = '';
+      let usage: TokenUsage | undefined;
+      await readStreamLines(response.body, line => {
+        const message = JSON.parse(line);
+        usage = toUsage(message) ?? usage;
+        text += message.message?.content || '';
+        options.onText!(text);
+      });
+      return { text: text || '{}', usage };
+    }
+
+    const data = await response.json();
+    return { text: data.message?.content || '{}', usage: toUsage(data) };
+  }
+}
@@ -0,0 +1,88 @@
+import { TokenUsage } from "../types";
+import { BaseProvider, ModelTier, JsonRequestOptions, JsonResponse, ProviderOptions } from "./baseProvider";
+import { ProviderError, httpError } from "./errors";
+import { readStreamLines } from "./streaming";
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+// Talks to any endpoint implementing the OpenAI Chat Completions API
+// (OpenAI itself, Azure, OpenRouter, vLLM, LM Studio, ...).
+export class OpenAIService extends BaseProvider {
+  protected readonly label = 'OpenAI';
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string,
+    private model: string,
+    private fastModel: string,
+    options?: ProviderOptions
+  ) {
+    super(options);
+  }
+
+  // JSON mode only guarantees valid JSON; the structure comes from the prompt
+  protected async generateJson(
+    tier: ModelTier,
+    prompt: string,
+    _schema: unknown,
+    imagesBase64: string[] = [],
+    options: JsonRequestOptions = {}
+  ): Promise<JsonResponse> {
+    // Data URLs are accepted as-is by the image_url content part
+    const content: ChatContentPart[] = [
+      ...imagesBase64.map(url => ({ type: 'image_url' as const, image_url: { url } })),
+      { type: 'text', text: prompt }
+    ];
+
+    const model = tier === 'analysis' ? this.model : this.fastModel;
+    const toUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage | undefined =>
+      usage && { model, inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 };
+    // The moderation layer cuts the answer and reports why in finish_reason
+    const checkFinish = (finishReason: unknown) => {
+      if (finishReason === 'content_filter') throw new ProviderError('safety', 'OpenAI-compatible endpoint filtered the response');
+    };
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        response_format: { type: 'json_object' },
+        stream: !!options.onText,
+        // Adds a final chunk with the token counts
+        ...(options.onText ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw await httpError('OpenAI-compatible', response);
+    }
+
+    // Server-sent events: "data: {chunk}" lines, terminated by "data: [DONE]"
+    if (options.onText && response.body) {
+      let text = '';
+      let usage: TokenUsage | undefined;
+      await readStreamLines(response.body, line => {
+        const payload = line.replace(/^data:\s*/, '');
+        if (!line.startsWith('data:') || payload === '[DONE]') return;
+        const chunk = JSON.parse(payload);
+        checkFinish(chunk.choices?.[0]?.finish_reason);
+        usage = toUsage(chunk.usage) ?? usage;
+        text += chunk.choices?.[0]?.delta?.content || '';
+        options.onText!(text);
+      });
+      return { text: text || '{}', usage };
+    }
+
+    const data = await response.json();
+    checkFinish(data.choices?.[0]?.finish_reason);
+    return { text: data.choices?.[0]?.message?.content || '{}', usage: toUsage(data.usage) };
+  }
+}
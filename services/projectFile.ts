@@ -0,0 +1,313 @@
+import { StoryboardProject, StoryboardScene, SceneTransition, ASPECT_RATIOS, ShotSpec, GridLayout, AspectRatio, GeneratorInfo, ProviderId, BibleAsset, AssetKind, AssetKindLabels, ShotVersion, VisualStyle, LocaleCode, LocalizedText, LOCALE_CODES } from "../types";
+import { PROVIDERS } from "./providerRegistry";
+import { createProject, createScene } from "./projectStore";
+import { isRecord, validateStoryboardResult } from "./validation";
+import { DEFAULT_LAYOUT, getShotCount, isValidLayout, resizeToLayout } from "../utils/grid";
+import { upgradeShotSpec } from "../utils/shotSpec";
+import { parseStyle } from "./stylePresets";
+import { normalizeLanguages } from "../utils/locale";
+
+// Portable `.storyboard.json` bundle. See docs/storyboard-file-format.md.
+// Bump FILE_VERSION whenever the shape below changes and add a migration
+// from the previous version, so files exported today keep opening.
+
+export const FILE_FORMAT = 'ai-storyboard';
+export const FILE_VERSION = 9;
+export const FILE_EXTENSION = '.storyboard.json';
+
+export interface StoryboardFileScene {
+  id: string;
+  name: string;
+  images: string[];
+  selectedShots: ShotSpec[];
+  layout: GridLayout;
+  aspectRatio: AspectRatio;
+  result: StoryboardScene['result'];
+  generator: GeneratorInfo | null;
+  assetIds: string[];
+  shotAssets: string[][];
+  shotHistory: ShotVersion[][];
+  frames: string[];
+  style: VisualStyle | null;
+  script: string;
+}
+
+export interface StoryboardFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    // Output languages every text of the project is written in
+    languages: LocaleCode[];
+    scenes: StoryboardFileScene[];
+    sceneTransitions: SceneTransition[];
+    // Bible entries referenced by any scene, embedded so the file is self-contained
+    assets: BibleAsset[];
+  };
+}
+
+export interface ImportedProject {
+  project: StoryboardProject;
+  assets: BibleAsset[];
+}
+
+// A file as read, before it is known to match any version's shape
+type FileRecord = Record<string, unknown>;
+
+const recordOr = (value: unknown): FileRecord => isRecord(value) ? value : {};
+
+// Applies `upgrade` to every scene of the file
+const mapScenes = (file: FileRecord, upgrade: (scene: FileRecord) => FileRecord): FileRecord => {
+  const project = recordOr(file.project);
+  const scenes = Array.isArray(project.scenes) ? project.scenes : [];
+  return { ...file, project: { ...project, scenes: scenes.map(scene => upgrade(recordOr(scene))) } };
+};
+
+// Each entry upgrades a file from version `n` to `n + 1`
+const MIGRATIONS: Record<number, (file: FileRecord) => FileRecord> = {
+  // v1 held a single scene; v2 holds an ordered list of scenes
+  1: ({ generator, project, ...file }) => {
+    const single = recordOr(project);
+    return {
+      ...file,
+      project: {
+        name: single.name,
+        scenes: [{
+          id: 'scene-1',
+          name: 'Scene 1',
+          images: single.images,
+          selectedShots: single.selectedShots,
+          layout: single.layout,
+          aspectRatio: single.aspectRatio,
+          result: single.result,
+          generator
+        }],
+        sceneTransitions: []
+      }
+    };
+  },
+  // v3 adds the character & asset bible
+  2: file => {
+    const upgraded = mapScenes(file, scene => ({ ...scene, assetIds: [], shotAssets: [] }));
+    return { ...upgraded, project: { ...recordOr(upgraded.project), assets: [] } };
+  },
+  // v4 replaces each shot size string with a framing/angle/lens/movement record
+  3: file => mapScenes(file, scene => ({
+    ...scene,
+    selectedShots: Array.isArray(scene.selectedShots) ? scene.selectedShots.map(upgradeShotSpec) : []
+  })),
+  // v5 adds per-shot version history
+  4: file => mapScenes(file, scene => ({ ...scene, shotHistory: [] })),
+  // v6 records the output languages; earlier files were always English and Chinese
+  5: file => ({
+    ...file,
+    project: { ...recordOr(file.project), languages: ['en', 'cn'] }
+  }),
+  // v7 adds the frames cut from the rendered grid image
+  6: file => mapScenes(file, scene => ({ ...scene, frames: [] })),
+  // v8 adds the visual style of each scene
+  7: file => mapScenes(file, scene => ({ ...scene, style: null })),
+  // v9 adds the script of each scene
+  8: file => mapScenes(file, scene => ({ ...scene, script: '' }))
+};
+
+export const toStoryboardFile = (project: StoryboardProject, library: BibleAsset[]): StoryboardFile => ({
+  format: FILE_FORMAT,
+  version: FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project: {
+    name: project.name,
+    languages: project.languages,
+    scenes: project.scenes.map(scene => ({
+      id: scene.id,
+      name: scene.name,
+      images: scene.images,
+      selectedShots: scene.selectedShots,
+      layout: scene.layout,
+      aspectRatio: scene.aspectRatio,
+      result: scene.result,
+      generator: scene.generatedBy || null,
+      assetIds: scene.assetIds,
+      shotAssets: scene.shotAssets,
+      shotHistory: scene.shotHistory,
+      frames: scene.frames,
+      style: scene.style,
+      script: scene.script
+    })),
+    sceneTransitions: project.sceneTransitions,
+    assets: library.filter(asset => project.scenes.some(scene => scene.assetIds.includes(asset.id)))
+  }
+});
+
+// Triggers a browser download of `blob`
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (content: string, filename: string, type: string) => {
+  downloadBlob(new Blob([content], { type }), filename);
+};
+
+export const safeFilename = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_') || 'storyboard';
+
+export const downloadProjectFile = (project: StoryboardProject, library: BibleAsset[]) => {
+  downloadText(
+    JSON.stringify(toStoryboardFile(project, library), null, 2),
+    `${safeFilename(project.name)}${FILE_EXTENSION}`,
+    'application/json'
+  );
+};
+
+// Upgrades the file to FILE_VERSION. The result has the current shape only
+// as far as the old file had its own; the parsers below check every field.
+const migrate = (file: FileRecord & { version: number }): FileRecord => {
+  let current = file;
+  while (current.version < FILE_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) {
+      throw new Error(`No migration from storyboard file version ${current.version}.`);
+    }
+    current = { ...step(current), version: current.version + 1 };
+  }
+  return current;
+};
+
+const listOr = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const parseAsset = (source: unknown): BibleAsset | null => {
+  if (!isRecord(source) || typeof source.id !== 'string' || typeof source.kind !== 'string' || !(source.kind in AssetKindLabels)) return null;
+  const now = Date.now();
+  return {
+    id: source.id,
+    kind: source.kind as AssetKind,
+    name: typeof source.name === 'string' ? source.name : '',
+    description: typeof source.description === 'string' ? source.description : '',
+    images: Array.isArray(source.images) ? source.images.filter((img: unknown) => typeof img === 'string' && img.startsWith('data:')) : [],
+    createdAt: finiteOr(source.createdAt, now),
+    updatedAt: finiteOr(source.updatedAt, now)
+  };
+};
+
+const VERSION_SOURCES: ShotVersion['source'][] = ['generated', 'regenerated', 'edited'];
+
+// Keeps the known languages of a text; English is required
+const parseText = (source: unknown): LocalizedText | null => {
+  if (!isRecord(source) || typeof source.en !== 'string') return null;
+  return Object.fromEntries(
+    LOCALE_CODES.filter(code => typeof source[code] === 'string').map(code => [code, source[code]])
+  ) as LocalizedText;
+};
+
+const parseShotVersion = (source: unknown): ShotVersion | null => {
+  if (!isRecord(source)) return null;
+  const description = parseText(source.description);
+  if (!description) return null;
+  return {
+    description,
+    spec: upgradeShotSpec(source.spec),
+    source: VERSION_SOURCES.find(known => known === source.source) || 'generated',
+    createdAt: finiteOr(source.createdAt, Date.now())
+  };
+};
+
+const parseGenerator = (source: unknown): GeneratorInfo | undefined => {
+  if (!isRecord(source) || typeof source.provider !== 'string' || !(source.provider in PROVIDERS) || typeof source.model !== 'string') {
+    return undefined;
+  }
+  return { provider: source.provider as ProviderId, model: source.model };
+};
+
+const parseScene = (
+  source: FileRecord,
+  index: number,
+  assetIds: Set<string>,
+  languages: LocaleCode[]
+): StoryboardScene => {
+  const layout = isValidLayout(source.layout) ? source.layout : DEFAULT_LAYOUT;
+  const numShots = getShotCount(layout);
+  const sourceShots = listOr(source.selectedShots);
+  const selectedShots = Array.from({ length: numShots }, (_, i) => upgradeShotSpec(sourceShots[i]));
+  const knownAsset = (id: unknown): id is string => typeof id === 'string' && assetIds.has(id);
+  const dataUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:');
+
+  return {
+    ...createScene(typeof source.name === 'string' && source.name.trim() ? source.name : `Scene ${index + 1}`),
+    images: listOr(source.images).filter(dataUrl),
+    selectedShots,
+    layout,
+    aspectRatio: ASPECT_RATIOS.find(ratio => ratio === source.aspectRatio) || '16:9',
+    // Normalized so a hand-edited or truncated file still renders a full grid
+    result: source.result ? validateStoryboardResult(source.result, numShots, languages).normalized : null,
+    generatedBy: parseGenerator(source.generator),
+    // Drop references to bible entries the file doesn't carry
+    assetIds: listOr(source.assetIds).filter(knownAsset),
+    shotAssets: resizeToLayout(listOr(source.shotAssets).map(ids => listOr(ids).filter(knownAsset)), layout, () => []),
+    shotHistory: resizeToLayout(
+      listOr(source.shotHistory).map(versions => listOr(versions).map(parseShotVersion).filter((v): v is ShotVersion => !!v)),
+      layout,
+      () => []
+    ),
+    frames: resizeToLayout(listOr(source.frames).map(frame => dataUrl(frame) ? frame : ''), layout, () => ''),
+    style: parseStyle(source.style),
+    script: typeof source.script === 'string' ? source.script : ''
+  };
+};
+
+// Parses and upgrades a bundle into a new project (fresh ids, never overwrites).
+// Bible assets keep their ids so re-importing doesn't duplicate library entries.
+export const parseProjectFile = (text: string): ImportedProject => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.format !== FILE_FORMAT || typeof data.version !== 'number' || !Number.isInteger(data.version)) {
+    throw new Error("The file is not a storyboard bundle.");
+  }
+  if (data.version > FILE_VERSION) {
+    throw new Error(`The file was made by a newer version of this app (format v${data.version}). Please update.`);
+  }
+
+  const source = recordOr(migrate({ ...data, version: data.version }).project);
+  // Scenes are checked whatever the version: a current file skips every migration
+  const listed = listOr(source.scenes).map(recordOr);
+  const sourceScenes = listed.length > 0 ? listed : [{}];
+  const assets = listOr(source.assets).map(parseAsset).filter((a): a is BibleAsset => !!a);
+  const assetIds = new Set(assets.map(asset => asset.id));
+  const languages = normalizeLanguages(source.languages);
+  const scenes = sourceScenes.map((scene, i) => parseScene(scene, i, assetIds, languages));
+
+  // Scene ids are regenerated, so remap transitions onto the new ids
+  const idMap = new Map<string, string>(
+    sourceScenes.flatMap((scene, i): [string, string][] => typeof scene.id === 'string' ? [[scene.id, scenes[i].id]] : [])
+  );
+  const newId = (id: unknown) => typeof id === 'string' ? idMap.get(id) : undefined;
+  const sceneTransitions = listOr(source.sceneTransitions).flatMap(entry => {
+    const transition = recordOr(entry);
+    const fromSceneId = newId(transition.fromSceneId);
+    const toSceneId = newId(transition.toSceneId);
+    const prompt = parseText(transition.prompt);
+    return fromSceneId && toSceneId && prompt ? [{ fromSceneId, toSceneId, prompt }] : [];
+  });
+
+  return {
+    project: {
+      ...createProject(typeof source.name === 'string' && source.name.trim() ? source.name : 'Imported Storyboard'),
+      scenes,
+      sceneTransitions,
+      languages
+    },
+    assets
+  };
+};
@@ -0,0 +1,135 @@
+import { AspectRatio, ProviderId, StoryboardProject, StoryboardScene } from "../types";
+import { STORES, dbGet, dbGetAll, dbPut, dbDelete } from "./db";
+import { DEFAULT_LAYOUT, getShotCount, isValidLayout, resizeShots, resizeToLayout } from "../utils/grid";
+import { upgradeShotSpec } from "../utils/shotSpec";
+import { DEFAULT_LANGUAGES, normalizeLanguages } from "../utils/locale";
+import { isRecord, validateStoryboardResult } from "./validation";
+
+const LAST_PROJECT_KEY = 'storyboard.lastProjectId';
+
+export const createScene = (name: string = 'Scene 1'): StoryboardScene => ({
+  id: crypto.randomUUID(),
+  name,
+  images: [],
+  selectedShots: resizeShots([], DEFAULT_LAYOUT),
+  layout: DEFAULT_LAYOUT,
+  aspectRatio: '16:9',
+  result: null,
+  assetIds: [],
+  shotAssets: resizeToLayout([], DEFAULT_LAYOUT, () => []),
+  shotHistory: resizeToLayout([], DEFAULT_LAYOUT, () => []),
+  frames: resizeToLayout([], DEFAULT_LAYOUT, () => ''),
+  style: null,
+  script: ''
+});
+
+export const createProject = (name: string = 'Untitled Storyboard'): StoryboardProject => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    scenes: [createScene()],
+    sceneTransitions: [],
+    languages: [...DEFAULT_LANGUAGES],
+    usage: []
+  };
+};
+
+// A scene with no references, script or result isn't worth a database entry
+export const isScenePristine = (scene: StoryboardScene) => scene.images.length === 0 && !scene.script.trim() && !scene.result;
+
+// Fills fields added after a scene was saved
+const upgradeStoredScene = (scene: StoryboardScene): StoryboardScene => ({
+  ...scene,
+  // Shot sizes were plain strings before shots had separate framing, angle, lens and movement
+  selectedShots: resizeShots((scene.selectedShots || []).map(upgradeShotSpec), scene.layout),
+  assetIds: scene.assetIds || [],
+  shotAssets: resizeToLayout(scene.shotAssets || [], scene.layout, () => []),
+  shotHistory: resizeToLayout(scene.shotHistory || [], scene.layout, () => []),
+  frames: resizeToLayout(scene.frames || [], scene.layout, () => ''),
+  style: scene.style || null,
+  script: scene.script || ''
+});
+
+// Records saved before sequences existed held a single scene's fields at the top level.
+// Records saved before output languages were configurable were English and Chinese.
+// Usage accounting started empty for records saved before it existed.
+const upgradeStoredProject = (stored: unknown): StoryboardProject => {
+  const record = isRecord(stored) ? stored : {};
+  const languages = normalizeLanguages(record.languages);
+  const usage = Array.isArray(record.usage) ? record.usage : [];
+  if (Array.isArray(record.scenes)) {
+    const scenes = (record.scenes as StoryboardScene[]).map(upgradeStoredScene);
+    return { ...record, scenes, languages, usage } as StoryboardProject;
+  }
+  const { images, selectedShots, layout, aspectRatio, result, generatedBy, ...rest } = record;
+  const sceneLayout = isValidLayout(layout) ? layout : DEFAULT_LAYOUT;
+  const scene: StoryboardScene = {
+    ...createScene(),
+    images: Array.isArray(images) ? images.filter((image): image is string => typeof image === 'string') : [],
+    selectedShots: Array.isArray(selectedShots) ? selectedShots.map(upgradeShotSpec) : [],
+    layout: sceneLayout,
+    aspectRatio: typeof aspectRatio === 'string' ? aspectRatio as AspectRatio : '16:9',
+    result: result ? validateStoryboardResult(result, getShotCount(sceneLayout), languages).normalized : null,
+    generatedBy: isRecord(generatedBy) && typeof generatedBy.provider === 'string' && typeof generatedBy.model === 'string'
+      ? { provider: generatedBy.provider as ProviderId, model: generatedBy.model }
+      : undefined
+  };
+  return {
+    ...rest,
+    scenes: [upgradeStoredScene(scene)],
+    sceneTransitions: [],
+    languages,
+    usage
+  } as StoryboardProject;
+};
+
+// Most recently edited first
+export const listProjects = async (): Promise<StoryboardProject[]> => {
+  const projects = (await dbGetAll<StoryboardProject>(STORES.projects)).map(upgradeStoredProject);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<StoryboardProject | undefined> => {
+  const stored = await dbGet<StoryboardProject>(STORES.projects, id);
+  return stored && upgradeStoredProject(stored);
+};
+
+export const saveProject = async (project: StoryboardProject): Promise<void> => {
+  await dbPut(STORES.projects, project);
+  localStorage.setItem(LAST_PROJECT_KEY, project.id);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await dbDelete(STORES.projects, id);
+  if (localStorage.getItem(LAST_PROJECT_KEY) === id) {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+};
+
+export const renameProject = async (id: string, name: string): Promise<StoryboardProject | undefined> => {
+  const project = await getProject(id);
+  if (!project) return undefined;
+  const renamed = { ...project, name, updatedAt: Date.now() };
+  await dbPut(STORES.projects, renamed);
+  return renamed;
+};
+
+export const duplicateProject = async (id: string): Promise<StoryboardProject | undefined> => {
+  const project = await getProject(id);
+  if (!project) return undefined;
+  const now = Date.now();
+  // Spending stays with the original
+  const copy = { ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now, usage: [] };
+  await dbPut(STORES.projects, copy);
+  return copy;
+};
+
+// Reopens the last edited project, or starts a fresh one
+export const loadLastProject = async (): Promise<StoryboardProject> => {
+  const lastId = localStorage.getItem(LAST_PROJECT_KEY);
+  const project = lastId ? await getProject(lastId) : undefined;
+  return project || createProject();
+};
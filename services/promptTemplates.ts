@@ -0,0 +1,164 @@
+import { PromptTemplate, PromptTemplateSettings, StoryboardResult, GridLayout, AspectRatio, LocaleCode, VisualStyle } from "../types";
+import { getShotCount, parseLayout } from "../utils/grid";
+import { textIn } from "../utils/locale";
+import { describeStyleInline } from "./stylePresets";
+
+// Output templates for the image generators we render with. Placeholders are
+// written as {{name}}; {{#name}}...{{/name}} is only kept when `name` is non-empty.
+// A template without {{style}} gets the scene's style put in front of it.
+
+export const PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'scene', description: 'Scene description' },
+  { name: 'shots', description: 'One "Shot 01: ..." line per shot' },
+  { name: 'shotsInline', description: 'All shots on one line, separated by semicolons' },
+  { name: 'layout', description: 'Grid layout, e.g. 3x3' },
+  { name: 'rows', description: 'Number of grid rows' },
+  { name: 'columns', description: 'Number of grid columns' },
+  { name: 'shotCount', description: 'Number of shots in the grid' },
+  { name: 'aspectRatio', description: 'Aspect ratio, e.g. 16:9' },
+  { name: 'style', description: 'Visual style of the scene; empty when none' },
+  { name: 'negative', description: 'Negative prompt of the template' }
+];
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'generic',
+    name: 'Generic grid',
+    builtIn: true,
+    template: {
+      en: 'Based on [{{scene}}], generate a cohesive [{{layout}}] grid image ({{rows}} rows × {{columns}} columns, read left-to-right, top-to-bottom) featuring [{{shotCount}}] different camera shots in the same environment, strictly maintaining consistency in character/object, clothing, and lighting,{{#style}} in the style of {{style}},{{/style}} 8K resolution, {{aspectRatio}} aspect ratio,\n{{shots}}',
+      cn: '根据[{{scene}}]，生成一张具有凝聚力的[{{layout}}]网格图像（{{rows}}行×{{columns}}列，从左到右、从上到下阅读），包含在同一环境中的[{{shotCount}}]个不同摄像机镜头，严格保持人物/物体、服装和光线的一致性，{{#style}}风格：{{style}}，{{/style}}8K分辨率，{{aspectRatio}} 画幅，\n{{shots}}'
+    },
+    negative: ''
+  },
+  {
+    id: 'midjourney',
+    name: 'Midjourney',
+    builtIn: true,
+    template: {
+      en: '{{layout}} storyboard grid, {{rows}} rows × {{columns}} columns, {{shotCount}} panels read left-to-right, top-to-bottom, {{scene}}, {{#style}}{{style}}, {{/style}}consistent character, clothing and lighting in every panel, {{shotsInline}} --ar {{aspectRatio}} --stylize 250 --chaos 10{{#negative}} --no {{negative}}{{/negative}}',
+      cn: '{{layout}} 分镜网格，{{rows}}行×{{columns}}列，共{{shotCount}}格，从左到右、从上到下阅读，{{scene}}，{{#style}}{{style}}，{{/style}}每一格的人物、服装和光线保持一致，{{shotsInline}} --ar {{aspectRatio}} --stylize 250 --chaos 10{{#negative}} --no {{negative}}{{/negative}}'
+    },
+    negative: 'text, watermark, blurry, deformed hands'
+  },
+  {
+    id: 'sdxl',
+    name: 'SDXL / Flux (ComfyUI)',
+    builtIn: true,
+    template: {
+      en: '(storyboard contact sheet, {{layout}} grid of {{shotCount}} panels:1.3), {{rows}} rows, {{columns}} columns, ({{scene}}:1.2), {{#style}}({{style}}:1.1), {{/style}}(consistent character, consistent clothing, consistent lighting:1.2), {{shotsInline}}, {{aspectRatio}} aspect ratio, highly detailed, cinematic lighting',
+      cn: '(分镜联系表, {{layout}} 网格, 共{{shotCount}}格:1.3), {{rows}}行, {{columns}}列, ({{scene}}:1.2), {{#style}}({{style}}:1.1), {{/style}}(人物一致, 服装一致, 光线一致:1.2), {{shotsInline}}, {{aspectRatio}} 画幅, 细节丰富, 电影感光线'
+    },
+    negative: 'lowres, bad anatomy, extra fingers, watermark, text, blurry, inconsistent character, merged panels'
+  },
+  {
+    id: 'dalle',
+    name: 'DALL·E',
+    builtIn: true,
+    template: {
+      en: 'A single image laid out as a {{layout}} storyboard grid ({{rows}} rows by {{columns}} columns, {{shotCount}} panels, read left to right and top to bottom). Scene: {{scene}}.{{#style}} Visual style: {{style}}.{{/style}} Keep the same characters, clothing and lighting in every panel.\n{{shots}}\nAspect ratio {{aspectRatio}}.{{#negative}} Avoid: {{negative}}.{{/negative}}',
+      cn: '一张按{{layout}}分镜网格排布的图像（{{rows}}行×{{columns}}列，共{{shotCount}}格，从左到右、从上到下阅读）。场景：{{scene}}。{{#style}}视觉风格：{{style}}。{{/style}}每一格保持相同的人物、服装和光线。\n{{shots}}\n画幅 {{aspectRatio}}。{{#negative}}避免：{{negative}}。{{/negative}}'
+    },
+    negative: 'text captions, panel numbers, watermarks',
+    maxLength: 4000
+  }
+];
+
+const STORAGE_KEY = 'storyboard.promptTemplates';
+
+export const defaultPromptTemplateSettings = (): PromptTemplateSettings => ({
+  target: BUILT_IN_TEMPLATES[0].id,
+  templates: BUILT_IN_TEMPLATES.map(template => ({ ...template, template: { ...template.template } }))
+});
+
+export const loadPromptTemplateSettings = (): PromptTemplateSettings => {
+  const defaults = defaultPromptTemplateSettings();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaults;
+    const stored = JSON.parse(raw) as Partial<PromptTemplateSettings>;
+    const storedTemplates = Array.isArray(stored.templates) ? stored.templates : [];
+    // Built-ins added by newer versions show up even if edited copies of the others were saved
+    const templates = [
+      ...defaults.templates.map(template => storedTemplates.find(t => t.id === template.id) ?? template),
+      ...storedTemplates.filter(t => !t.builtIn)
+    ];
+    const target = templates.some(t => t.id === stored.target) ? stored.target! : defaults.target;
+    return { target, templates };
+  } catch (error) {
+    console.warn("Ignoring unreadable prompt templates", error);
+    return defaults;
+  }
+};
+
+export const savePromptTemplateSettings = (settings: PromptTemplateSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const createPromptTemplate = (from: PromptTemplate): PromptTemplate => ({
+  ...from,
+  id: crypto.randomUUID(),
+  name: `${from.name} copy`,
+  builtIn: false,
+  template: { ...from.template }
+});
+
+export const getBuiltInTemplate = (id: string): PromptTemplate | undefined =>
+  BUILT_IN_TEMPLATES.find(template => template.id === id);
+
+export interface PromptContext {
+  result: StoryboardResult;
+  layout: GridLayout;
+  aspectRatio: AspectRatio;
+  language: LocaleCode;
+  style?: VisualStyle | null;
+}
+
+const SHOT_LABELS: Record<LocaleCode, string> = { en: 'Shot', cn: '镜头', ja: 'ショット', ko: '샷', es: 'Plano' };
+
+export interface RenderedPrompt {
+  prompt: string;
+  // Negative prompt to paste separately; empty when the template inlines it
+  negative: string;
+  truncated: boolean;
+}
+
+export const renderPromptTemplate = (template: PromptTemplate, context: PromptContext): RenderedPrompt => {
+  const { result, layout, aspectRatio, language, style } = context;
+  const { rows, columns } = parseLayout(layout);
+  const shots = result.shots.map((shot, idx) =>
+    `${SHOT_LABELS[language]} ${String(idx + 1).padStart(2, '0')}: ${textIn(shot.description, language)}`
+  );
+  const values: Record<string, string> = {
+    scene: textIn(result.scenePrompt, language),
+    shots: shots.join('\n'),
+    shotsInline: shots.join('; '),
+    layout,
+    rows: String(rows),
+    columns: String(columns),
+    shotCount: String(getShotCount(layout)),
+    aspectRatio,
+    style: style ? describeStyleInline(style, language) : '',
+    negative: template.negative.trim()
+  };
+
+  const source = textIn(template.template, language);
+  let prompt = source
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, inner: string) => values[name] ? inner : '')
+    // Unknown placeholders are left as typed so mistakes stay visible
+    .replace(/\{\{(\w+)\}\}/g, (match, name: string) => name in values ? values[name] : match);
+  if (values.style && !source.includes('{{style}}')) {
+    prompt = `${values.style}, ${prompt}`;
+  }
+
+  const truncated = !!template.maxLength && prompt.length > template.maxLength;
+  if (truncated) {
+    prompt = prompt.slice(0, template.maxLength! - 1).trimEnd() + '…';
+  }
+
+  return {
+    prompt,
+    negative: source.includes('{{negative}}') ? '' : values.negative,
+    truncated
+  };
+};
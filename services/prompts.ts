@@ -0,0 +1,382 @@
+import { ShotSpec, ShotFraming, AssetKindLabels, BibleAsset, VisualStyle, StoryboardRequest, ConsistencyReviewRequest, StoryboardRepairRequest, SceneTransitionEndpoint, TransitionShot, LocaleCode, LocalizedText, LocaleLabels } from "../types";
+import { getShotCount, parseLayout } from "../utils/grid";
+import { createShotSpec, describeShotSpec } from "../utils/shotSpec";
+import { describeLanguages } from "../utils/locale";
+import { ScriptBeat, formatBeat, parseScript } from "../utils/script";
+
+// Shared prompt text so every provider asks the model for the same thing.
+
+// Bump whenever the storyboard prompt changes what the model is asked for, so
+// results cached for the old wording are no longer reused (see resultCache.ts)
+export const PROMPT_VERSION = 1;
+
+// `{ "en": "<hint>", "cn": "...", ... }` for the requested languages
+const localizedExample = (languages: LocaleCode[], hint = '...') =>
+  `{ ${languages.map(code => `"${code}": "${code === 'en' ? hint : '...'}"`).join(', ')} }`;
+
+const languageKeys = (languages: LocaleCode[]) =>
+  languages.map(code => `"${code}" = ${LocaleLabels[code].english}`).join(', ');
+
+const assetTag = (asset: BibleAsset) => `[${AssetKindLabels[asset.kind].en}: ${asset.name}]`;
+
+const describeAssets = (assets: BibleAsset[]) => assets
+  .map(asset => `      - ${assetTag(asset)} ${asset.description.trim() || '(no locked description; derive it from its images)'}`)
+  .join('\n');
+
+// Bible images first (in asset order), then the untagged references. The
+// legend in the prompt refers to images by these positions.
+export const collectReferenceImages = (request: Pick<StoryboardRequest, 'images' | 'assets'>): string[] => [
+  ...(request.assets || []).flatMap(asset => asset.images),
+  ...request.images
+];
+
+const specAt = (selectedShots: ShotSpec[], shotId: number) =>
+  describeShotSpec(selectedShots[shotId - 1] || createShotSpec());
+
+// `start` is the position of the first reference among the images sent
+const buildReferenceLegend = (request: Pick<StoryboardRequest, 'images' | 'assets'>, start = 1): string => {
+  const lines: string[] = [];
+  let index = start;
+  const range = (count: number) => count === 1 ? `Image ${index}` : `Images ${index}-${index + count - 1}`;
+  (request.assets || []).forEach(asset => {
+    if (asset.images.length === 0) return;
+    lines.push(`      ${range(asset.images.length)}: ${assetTag(asset)}`);
+    index += asset.images.length;
+  });
+  if (request.images.length > 0) {
+    lines.push(`      ${range(request.images.length)}: General references (untagged)`);
+  }
+  return lines.join('\n');
+};
+
+const buildBibleSection = (request: StoryboardRequest): string => {
+  const assets = request.assets || [];
+  if (assets.length === 0) return '';
+  const byId = new Map(assets.map(asset => [asset.id, asset]));
+  const shotLines = (request.shotAssets || [])
+    .map((ids, i) => {
+      const names = ids.map(id => byId.get(id)).filter((a): a is BibleAsset => !!a).map(assetTag);
+      return names.length > 0 ? `      Shot ${i + 1}: ${names.join(', ')}` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+
+  return `
+      Character & Asset Bible. The reference images are labeled as follows:
+${buildReferenceLegend(request)}
+
+      Locked descriptions (use this wording verbatim whenever the entity appears; never change these details):
+${describeAssets(assets)}
+${shotLines ? `
+      Entities that must appear in specific shots (other bible entities should not appear in these shots unless natural in the background):
+${shotLines}
+` : ''}`;
+};
+
+// The look every text must be written for; it restyles the references but
+// never replaces who or what is in them
+const buildStyleSection = (style: VisualStyle | null | undefined): string => {
+  if (!style) return '';
+  const lines = [
+    `Style: ${style.name.en}`,
+    style.palette.trim() && `Palette / color grade: ${style.palette.trim()}`,
+    style.lighting.trim() && `Lighting style: ${style.lighting.trim()}`,
+    style.filmStock.trim() && `Film stock and lens character: ${style.filmStock.trim()}`,
+    style.era.trim() && `Era: ${style.era.trim()}`
+  ].filter(Boolean);
+  return `
+      Visual style (write every description in this look; it changes how the references are rendered, never who or what is in them):
+${lines.map(line => `      - ${line}`).join('\n')}
+`;
+};
+
+const BEAT_LABELS: Record<ScriptBeat['kind'], string> = {
+  heading: 'Scene heading',
+  action: 'Action',
+  dialogue: 'Dialogue',
+  transition: 'Transition'
+};
+
+// The script as numbered beats, so the model can account for each of them
+const buildScriptSection = (script: string | undefined): string => {
+  const { format, beats } = parseScript(script || '');
+  if (beats.length === 0) return '';
+  return `
+      Script of the scene (${format === 'fountain' ? 'screenplay' : 'prose'}), one beat per line in story order:
+${beats.map((beat, i) => `      ${i + 1}. [${BEAT_LABELS[beat.kind]}] ${formatBeat(beat)}`).join('\n')}
+`;
+};
+
+const FRAMING_CHOICES = Object.values(ShotFraming).map(framing => `"${framing}"`).join(', ');
+
+// Extra per-shot fields asked for when the scene has a script
+const scriptShotFields = `, "dialogue": "CHARACTER: line, or empty", "action": "Script action shown, or empty", "framing": "${ShotFraming.Medium}"`;
+
+export const buildStoryboardPrompt = (request: StoryboardRequest): string => {
+  const { selectedShots, layout, aspectRatio, continuity, languages, style } = request;
+  const scriptSection = buildScriptSection(request.script);
+  const hasReferences = collectReferenceImages(request).length > 0;
+  const numShots = getShotCount(layout);
+  const shotSpecs = Array.from({ length: numShots }, (_, i) => `      Shot ${i + 1}: ${specAt(selectedShots, i + 1)}`).join('\n');
+  const { rows, columns } = parseLayout(layout);
+  const numTransitions = numShots - 1;
+  const continuityText = continuity ? `
+      Continuity: This scene directly follows a previous scene in the same sequence.
+      Previous scene: "${continuity.previousScenePrompt.en}"
+      Previous scene's final shot: "${continuity.previousLastShot.en}"
+      Keep characters, costumes, props and time-of-day consistent with it unless the references clearly change them,
+      and make Shot 1 read as a natural continuation after that final shot.
+      ` : '';
+
+  const scriptTask = scriptSection ? `
+      Break the script's action and dialogue into these ${numShots} shots in story order: cover every beat; neighbouring
+      beats may share a shot and a key beat may hold over several shots. For each shot also return:
+      - "dialogue": the line spoken during the shot as "CHARACTER: line", verbatim from the script, or "" when nobody speaks.
+      - "action": the script action the shot shows, verbatim or condensed, or "".
+      - "framing": the shot size this beat calls for, one of ${FRAMING_CHOICES}.
+        Still describe the shot with the camera direction above; "framing" is your suggestion to the director.` : '';
+
+  return `
+      ${hasReferences
+        ? `Analyze the provided reference images to extract key visual elements (Subject, Clothing, Environment, Lighting, Mood).${scriptSection ? ' The script below decides what happens; the references show how it looks.' : ''}`
+        : 'There are no reference images. Derive the key visual elements (Subject, Clothing, Environment, Lighting, Mood) from the script below, inventing concrete details where it is silent.'}
+      ${buildBibleSection(request)}${buildStyleSection(style)}${scriptSection}${continuityText}
+      Task 1: Generate a professional storyboard prompt with ${numShots} shots.
+      The shots will be arranged in a ${rows} x ${columns} grid (${rows} rows, ${columns} columns), read left-to-right, top-to-bottom.
+      Camera direction for each shot (framing, angle, lens, movement and, if given, duration):
+${shotSpecs}
+      Compose each shot for its framing, angle and lens; imply its camera movement in the composition.
+      The target aspect ratio for the final image is ${aspectRatio}.${scriptTask}
+
+      Task 2: Generate ${numTransitions} specific "Video Transition Prompts" to bridge the gap between consecutive shots (Shot 1->2, 2->3, etc.).
+      These prompts will be used in AI video generators (like Luma or Runway) using Shot N as the Start Frame and Shot N+1 as the End Frame.
+      The transition prompts must:
+      - Be highly detailed and cinematic.
+      - Describe the specific camera movement (e.g., "Slow zoom in," "Pan right," "Rack focus") needed to get from visual A to visual B, following the movement requested for Shot N.
+      - Describe the subject's action or subtle movements during the transition.
+      - Ensure physics and lighting continuity.
+      - Aim for a smooth, natural flow.
+
+      Return the result in JSON format with every text written in ${describeLanguages(languages)} (${languageKeys(languages)}).
+      The structure must be:
+      {
+        "scenePrompt": ${localizedExample(languages, 'Detailed base description of the scene/subject')},
+        "shots": [
+          { "id": 1, "description": ${localizedExample(languages)}${scriptSection ? scriptShotFields : ''} },
+          ... (total ${numShots} shots)
+        ],
+        "transitions": [
+          {
+            "fromShot": 1,
+            "toShot": 2,
+            "prompt": ${localizedExample(languages, 'Detailed video generation prompt describing the motion from shot 1 to 2...')}
+          },
+          ... (total ${numTransitions} transitions)
+        ]
+      }
+
+      Important rules:
+      1. Ensure strict visual consistency across all shots.
+      2. Follow the requested camera direction for every shot.
+      3. Transition prompts must be actionable instructions for a video model.
+    `;
+};
+
+export const buildRegenerateShotPrompt = (
+  scenePrompt: LocalizedText,
+  shotId: number,
+  spec: ShotSpec,
+  languages: LocaleCode[],
+  assets: BibleAsset[] = [],
+  fix?: string,
+  style?: VisualStyle | null
+): string => `
+      Context: A storyboard scene description:
+      "${scenePrompt.en}"
+${buildStyleSection(style)}${assets.length > 0 ? `
+      Entities in this shot (keep these locked descriptions verbatim):
+${describeAssets(assets)}
+` : ''}${fix ? `
+      A review of the rendered image found this shot inconsistent. Apply this correction:
+      "${fix}"
+` : ''}
+      Task: Rewrite the detailed visual description for Shot ${shotId} ONLY.
+      The new camera direction is: ${describeShotSpec(spec)}.
+
+      Requirements:
+      1. Keep it consistent with the provided scene context.
+      2. Focus on the composition dictated by the framing, angle and lens, and imply the camera movement.
+      3. Write it in ${describeLanguages(languages)} and return ONLY a JSON object with this structure:
+      ${localizedExample(languages, 'New English description...')}
+    `;
+
+export const buildRepairPrompt = (request: StoryboardRepairRequest): string => {
+  const { partial, selectedShots, aspectRatio, repairScene, shotIds, transitionFromShots, assets = [], languages } = request;
+  const scriptSection = buildScriptSection(request.script);
+  const existingShots = partial.shots
+    .filter(shot => !shotIds.includes(shot.id))
+    .map(shot => `      Shot ${shot.id} (${specAt(selectedShots, shot.id)}): ${shot.description.en}`)
+    .join('\n');
+  const missingShots = shotIds
+    .map(id => `Shot ${id} (${specAt(selectedShots, id)})`)
+    .join(', ');
+  const missingTransitions = transitionFromShots
+    .map(from => `Shot ${from}->${from + 1}`)
+    .join(', ');
+
+  return `
+      Context: A storyboard with ${partial.shots.length} shots, ${aspectRatio} aspect ratio.
+      Scene description:
+      "${partial.scenePrompt.en}"
+${assets.length > 0 ? `
+      Locked bible descriptions (use verbatim):
+${describeAssets(assets)}
+` : ''}${scriptSection}
+      Existing shots (keep them unchanged, use them for continuity):
+${existingShots || '      (none)'}
+
+      Task: A previous response was incomplete. Produce ONLY the missing parts:
+      ${repairScene ? '- The scene prompt ("scenePrompt"), inferred from the existing shots.' : ''}
+      - Shots: ${missingShots || 'none'}
+      - Video transition prompts: ${missingTransitions || 'none'}
+
+      Requirements:
+      1. Keep strict visual consistency with the scene and existing shots.
+      2. Follow the listed camera direction.
+      3. Transition prompts describe the camera movement and subject action from the start frame to the end frame.${scriptSection ? `
+      For each shot also return the script "dialogue" it covers ("CHARACTER: line" or ""), its "action" ("" if none)
+      and the "framing" you suggest for that beat, one of ${FRAMING_CHOICES}.` : ''}
+      4. Return JSON with every text written in ${describeLanguages(languages)} (${languageKeys(languages)}):
+      {
+        ${repairScene ? `"scenePrompt": ${localizedExample(languages)},` : ''}
+        "shots": [ { "id": <number>, "description": ${localizedExample(languages)}${scriptSection ? scriptShotFields : ''} } ],
+        "transitions": [ { "fromShot": <number>, "toShot": <number>, "prompt": ${localizedExample(languages)} } ]
+      }
+    `;
+};
+
+export const buildTransitionPrompt = (
+  scenePrompt: LocalizedText,
+  from: TransitionShot,
+  to: TransitionShot,
+  languages: LocaleCode[]
+): string => `
+      Context: A storyboard scene description:
+      "${scenePrompt.en}"
+      Shot ${from.id} (${describeShotSpec(from.spec)}): "${from.description.en}"
+      Shot ${to.id} (${describeShotSpec(to.spec)}): "${to.description.en}"
+
+      Task: Write one "Video Transition Prompt" for an AI video generator (like Luma or Runway)
+      using Shot ${from.id} as the Start Frame and Shot ${to.id} as the End Frame.
+
+      Requirements:
+      1. Describe the specific camera movement needed to get from the start frame to the end frame, following the movement requested for Shot ${from.id}.
+      2. Describe the subject's action or subtle movements during the transition.
+      3. Keep physics and lighting continuous; both frames are fixed, so do not change them.
+      4. Write it in ${describeLanguages(languages)} and return ONLY a JSON object with this structure:
+      ${localizedExample(languages, 'English transition prompt...')}
+    `;
+
+export const buildTranslatePrompt = (text: string, from: LocaleCode, languages: LocaleCode[]): string => {
+  const source = LocaleLabels[from].english;
+  const targets = describeLanguages(languages.filter(code => code !== from));
+  return `
+      Context: A writer hand-edited the ${source} text of a multilingual storyboard prompt:
+      "${text}"
+
+      Task: Translate it into ${targets} so every language says the same thing.
+
+      Requirements:
+      1. Keep camera terms, names and visual details exact; do not add or drop anything.
+      2. Return the ${source} text unchanged.
+      3. Return ONLY a JSON object with this structure:
+      ${localizedExample(languages, 'English text...')}
+    `;
+};
+
+export const buildSceneTransitionPrompt = (
+  from: SceneTransitionEndpoint,
+  to: SceneTransitionEndpoint,
+  languages: LocaleCode[]
+): string => `
+      Context: Two consecutive scenes of a storyboard sequence.
+      Scene A: "${from.scenePrompt.en}"
+      Final shot of Scene A (${describeShotSpec(from.spec)}): "${from.shot.en}"
+      Scene B: "${to.scenePrompt.en}"
+      First shot of Scene B (${describeShotSpec(to.spec)}): "${to.shot.en}"
+
+      Task: Write one "Video Transition Prompt" for an AI video generator (like Luma or Runway)
+      using the final shot of Scene A as the Start Frame and the first shot of Scene B as the End Frame.
+
+      Requirements:
+      1. Describe the camera movement or cut style (e.g., "match cut," "whip pan," "cross dissolve") that bridges the two scenes.
+      2. Describe how the subject, lighting and environment change across the cut.
+      3. Keep it cinematic and actionable for a video model.
+      4. Write it in ${describeLanguages(languages)} and return ONLY a JSON object with this structure:
+      ${localizedExample(languages, 'English transition prompt...')}
+    `;
+
+// Rendered images first (the grid, or each available frame), then the
+// references in the same order as for generation
+export const collectReviewImages = (request: ConsistencyReviewRequest): string[] => [
+  ...(request.rendered.kind === 'grid' ? [request.rendered.image] : request.rendered.frames.filter(Boolean)),
+  ...collectReferenceImages(request)
+];
+
+export const buildReviewPrompt = (request: ConsistencyReviewRequest): string => {
+  const { rendered, result, selectedShots, layout, aspectRatio, assets = [] } = request;
+  const { rows, columns } = parseLayout(layout);
+  let renderedCount = 1;
+  let renderedLegend = `      Image 1: the rendered storyboard grid, ${rows} rows x ${columns} columns; panels read left-to-right, top-to-bottom as Shot 1 to Shot ${result.shots.length}.`;
+  if (rendered.kind === 'frames') {
+    const framed = rendered.frames
+      .map((frame, i) => frame ? i + 1 : 0)
+      .filter(Boolean);
+    renderedCount = framed.length;
+    renderedLegend = framed.map((shotId, i) => `      Image ${i + 1}: rendered frame of Shot ${shotId}`).join('\n');
+  }
+  const references = buildReferenceLegend(request, renderedCount + 1);
+  const shots = result.shots
+    .map(shot => `      Shot ${shot.id} (${specAt(selectedShots, shot.id)}): ${shot.description.en}`)
+    .join('\n');
+
+  return `
+      Context: An image generator rendered a storyboard from the plan below. Check whether the rendering held strict visual consistency with the references and followed the camera direction.
+      The images are:
+${renderedLegend}
+${references}
+${assets.length > 0 ? `
+      Locked bible descriptions:
+${describeAssets(assets)}
+` : ''}
+      Scene description (${aspectRatio}):
+      "${result.scenePrompt.en}"
+      Planned shots with their camera direction:
+${shots}
+
+      Task: For every rendered shot, score from 1 (broken) to 10 (exact match):
+      - "character": faces, hair, build and age match the references and the other shots.
+      - "costume": clothing, accessories and props match the references and the other shots.
+      - "lighting": time of day, light direction and color match the scene and the other shots.
+      - "framing": the shot matches its requested framing, angle and lens.
+      List concrete issues (what is wrong and where; none if the shot holds up), and write "fix": one instruction
+      that would correct the shot's description, or an empty string when no fix is needed.
+
+      Requirements:
+      1. Judge only what is visible; do not invent problems.
+      2. Write issues, fix and summary in English.
+      3. Return ONLY a JSON object with this structure:
+      {
+        "summary": "One or two sentences on the overall consistency",
+        "shots": [
+          { "shotId": 1, "character": <1-10>, "costume": <1-10>, "lighting": <1-10>, "framing": <1-10>, "issues": ["..."], "fix": "..." }
+        ]
+      }
+    `;
+};
+
+// Splits a data URL into the raw base64 payload and its mime type.
+export const parseDataUrl = (dataUrl: string): { data: string; mimeType: string } => ({
+  data: dataUrl.split(',')[1],
+  mimeType: dataUrl.match(/data:(.*);base64/)?.[1] || 'image/jpeg'
+});
@@ -0,0 +1,135 @@
+import { ProviderId, ProviderConfig, ProviderSettings, StoryboardProvider, UsageEntry } from "../types";
+import { DEFAULT_PROVIDER_OPTIONS, ProviderOptions } from "./baseProvider";
+import { GeminiService } from "./geminiService";
+import { OpenAIService } from "./openAIService";
+import { OllamaService } from "./ollamaService";
+import { MockService } from "./mockService";
+import { ServerService } from "./serverService";
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  label: string;
+  // Which connection fields the settings panel should expose
+  usesBaseUrl: boolean;
+  usesApiKey: boolean;
+  // The app server picks its own models
+  usesModels: boolean;
+  defaults: ProviderConfig;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  server: {
+    id: 'server',
+    label: 'App server',
+    usesBaseUrl: true,
+    usesApiKey: false,
+    usesModels: false,
+    // An empty base URL is the origin serving the app
+    defaults: { model: '', fastModel: '', baseUrl: '', apiKey: '' }
+  },
+  gemini: {
+    id: 'gemini',
+    label: 'Google Gemini',
+    usesBaseUrl: false,
+    usesApiKey: true,
+    usesModels: true,
+    defaults: { model: 'gemini-3-pro-preview', fastModel: 'gemini-3-flash-preview', baseUrl: '', apiKey: '' }
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    usesBaseUrl: true,
+    usesApiKey: true,
+    usesModels: true,
+    defaults: { model: 'gpt-4o', fastModel: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1', apiKey: '' }
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    usesBaseUrl: true,
+    usesApiKey: false,
+    usesModels: true,
+    defaults: { model: 'llama3.2-vision', fastModel: 'llama3.2', baseUrl: 'http://localhost:11434', apiKey: '' }
+  },
+  mock: {
+    id: 'mock',
+    label: 'Mock (offline)',
+    usesBaseUrl: false,
+    usesApiKey: false,
+    usesModels: true,
+    defaults: { model: 'mock-storyboard', fastModel: 'mock-storyboard', baseUrl: '', apiKey: '' }
+  }
+};
+
+const STORAGE_KEY = 'storyboard.providerSettings';
+
+// The app server is the default so no API key has to reach the browser
+export const defaultProviderSettings = (): ProviderSettings => ({
+  provider: 'server',
+  configs: {
+    server: { ...PROVIDERS.server.defaults },
+    gemini: { ...PROVIDERS.gemini.defaults },
+    openai: { ...PROVIDERS.openai.defaults },
+    ollama: { ...PROVIDERS.ollama.defaults },
+    mock: { ...PROVIDERS.mock.defaults }
+  },
+  timeoutSeconds: DEFAULT_PROVIDER_OPTIONS.timeoutMs / 1000,
+  maxRetries: DEFAULT_PROVIDER_OPTIONS.maxRetries
+});
+
+const nonNegativeNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+export const loadProviderSettings = (): ProviderSettings => {
+  const defaults = defaultProviderSettings();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaults;
+    const stored = JSON.parse(raw) as Partial<ProviderSettings>;
+    const provider = stored.provider && stored.provider in PROVIDERS ? stored.provider : defaults.provider;
+    // Merge per provider so settings saved by older versions pick up new fields
+    const configs = { ...defaults.configs };
+    (Object.keys(configs) as ProviderId[]).forEach(id => {
+      configs[id] = { ...configs[id], ...stored.configs?.[id] };
+    });
+    return {
+      provider,
+      configs,
+      timeoutSeconds: nonNegativeNumber(stored.timeoutSeconds, defaults.timeoutSeconds) || defaults.timeoutSeconds,
+      maxRetries: Math.round(nonNegativeNumber(stored.maxRetries, defaults.maxRetries))
+    };
+  } catch (error) {
+    console.warn("Ignoring unreadable provider settings", error);
+    return defaults;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// `onUsage` receives the token counts of every response, tagged with the provider
+export const createProvider = (
+  settings: ProviderSettings,
+  onUsage?: (usage: Omit<UsageEntry, 'requests'>) => void
+): StoryboardProvider => {
+  const config = settings.configs[settings.provider];
+  const options: ProviderOptions = {
+    timeoutMs: settings.timeoutSeconds * 1000,
+    maxRetries: settings.maxRetries,
+    onUsage: onUsage && (usage => onUsage({ provider: settings.provider, ...usage }))
+  };
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAIService(config.baseUrl, config.apiKey, config.model, config.fastModel, options);
+    case 'ollama':
+      return new OllamaService(config.baseUrl, config.model, config.fastModel, options);
+    case 'mock':
+      return new MockService();
+    case 'server':
+      return new ServerService(config.baseUrl, options.onUsage);
+    case 'gemini':
+    default:
+      return new GeminiService(config.model, config.fastModel, config.apiKey, options, config.baseUrl);
+  }
+};
@@ -0,0 +1,129 @@
+import { ImageSettings, ImageWarning } from '../types';
+import { readFileAsDataUrl, readExifOrientation, decodeImage, drawUpright, computeImageHash, hashDistance, canvasToDataUrl } from '../utils/image';
+
+// Uploaded references are normalized before they are stored: rotated upright,
+// downscaled and re-encoded, and checked against the images already present.
+// Phone photos otherwise reach the API as multi-megabyte base64.
+
+const STORAGE_KEY = 'storyboard.imageSettings';
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  maxDimension: 1536,
+  quality: 0.85,
+  maxFileMb: 25,
+  maxImages: 12
+};
+
+export const MAX_DIMENSION_OPTIONS = [768, 1024, 1536, 2048];
+
+// Upright images in these formats within the size limit are kept byte for byte
+const PASSTHROUGH_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const PASSTHROUGH_BYTES = 1024 * 1024;
+
+// Hashes at most this many bits apart are the same picture
+const DUPLICATE_DISTANCE = 4;
+
+export const loadImageSettings = (): ImageSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_IMAGE_SETTINGS };
+    const stored = JSON.parse(raw) as Partial<ImageSettings>;
+    const settings = { ...DEFAULT_IMAGE_SETTINGS };
+    (Object.keys(settings) as (keyof ImageSettings)[]).forEach(key => {
+      const value = stored[key];
+      if (typeof value === 'number' && Number.isFinite(value) && value > 0) settings[key] = value;
+    });
+    settings.quality = Math.min(settings.quality, 1);
+    return settings;
+  } catch (error) {
+    console.warn("Ignoring unreadable image settings", error);
+    return { ...DEFAULT_IMAGE_SETTINGS };
+  }
+};
+
+export const saveImageSettings = (settings: ImageSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Hashes are taken from a small upright thumbnail so scaling doesn't alias them
+const HASH_SOURCE_SIZE = 64;
+
+// Hash of an image already in the scene; null if it can no longer be decoded
+const hashDataUrl = async (dataUrl: string): Promise<string | null> => {
+  try {
+    const bitmap = await decodeImage(await (await fetch(dataUrl)).blob());
+    try {
+      return computeImageHash(drawUpright(bitmap, 1, HASH_SOURCE_SIZE));
+    } finally {
+      bitmap.close();
+    }
+  } catch {
+    return null;
+  }
+};
+
+export interface PreparedImages {
+  // Data URLs of the accepted files, in upload order
+  images: string[];
+  // Files that were refused and why
+  warnings: ImageWarning[];
+}
+
+// Turns uploaded files into data URLs ready to store next to `existing`.
+// Refused files are reported instead of throwing, so one bad file in a batch
+// doesn't drop the others.
+export const prepareReferenceImages = async (
+  files: File[],
+  existing: string[],
+  settings: ImageSettings
+): Promise<PreparedImages> => {
+  const images: string[] = [];
+  const warnings: ImageWarning[] = [];
+  const hashes = (await Promise.all(existing.map(hashDataUrl))).filter((hash): hash is string => !!hash);
+
+  for (const file of files) {
+    const warn = (code: ImageWarning['code']) => warnings.push({ code, file: file.name });
+    if (existing.length + images.length >= settings.maxImages) {
+      warn('limit');
+      continue;
+    }
+    if (!file.type.startsWith('image/')) {
+      warn('unsupported');
+      continue;
+    }
+    if (file.size > settings.maxFileMb * 1024 * 1024) {
+      warn('too_large');
+      continue;
+    }
+
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await decodeImage(file);
+    } catch {
+      warn('unsupported');
+      continue;
+    }
+
+    try {
+      const orientation = file.type === 'image/jpeg' ? await readExifOrientation(file) : 1;
+      const hash = computeImageHash(drawUpright(bitmap, orientation, HASH_SOURCE_SIZE));
+      if (hashes.some(other => hashDistance(other, hash) <= DUPLICATE_DISTANCE)) {
+        warn('duplicate');
+        continue;
+      }
+      hashes.push(hash);
+
+      const untouched = orientation === 1
+        && PASSTHROUGH_TYPES.includes(file.type)
+        && Math.max(bitmap.width, bitmap.height) <= settings.maxDimension
+        && file.size <= PASSTHROUGH_BYTES;
+      images.push(untouched
+        ? await readFileAsDataUrl(file)
+        : canvasToDataUrl(drawUpright(bitmap, orientation, settings.maxDimension), settings.quality));
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  return { images, warnings };
+};
@@ -0,0 +1,64 @@
+import { CachedResult, GeneratorInfo, StoryboardRequest, StoryboardResult } from "../types";
+import { STORES, dbGet, dbGetAll, dbPut, dbDelete, dbClear } from "./db";
+import { PROMPT_VERSION } from "./prompts";
+
+// Generated storyboards, content-addressed: the key hashes every input of the
+// analysis call, so the same references and settings find the earlier result
+// instead of paying for another call.
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const resultCacheKey = async (request: StoryboardRequest, generator: GeneratorInfo): Promise<string> => {
+  // Images are hashed one by one so the key material stays small
+  const images = await Promise.all(request.images.map(sha256));
+  const assets = await Promise.all((request.assets || []).map(async asset => ({
+    id: asset.id,
+    kind: asset.kind,
+    name: asset.name,
+    description: asset.description,
+    images: await Promise.all(asset.images.map(sha256))
+  })));
+  return sha256(JSON.stringify({
+    promptVersion: PROMPT_VERSION,
+    provider: generator.provider,
+    model: generator.model,
+    images,
+    selectedShots: request.selectedShots,
+    layout: request.layout,
+    aspectRatio: request.aspectRatio,
+    languages: request.languages,
+    continuity: request.continuity || null,
+    style: request.style || null,
+    script: request.script?.trim() || null,
+    assets,
+    shotAssets: request.shotAssets || []
+  }));
+};
+
+export const getCachedResult = (key: string): Promise<CachedResult | undefined> =>
+  dbGet<CachedResult>(STORES.results, key);
+
+// A fresh variant for the same key replaces the older one
+export const putCachedResult = async (
+  key: string,
+  result: StoryboardResult,
+  generator: GeneratorInfo,
+  layout: CachedResult['layout']
+): Promise<void> => {
+  const entry: CachedResult = { id: key, result, generator, layout, createdAt: Date.now(), size: 0 };
+  entry.size = new Blob([JSON.stringify(entry)]).size;
+  await dbPut(STORES.results, entry);
+};
+
+// Most recent first
+export const listCachedResults = async (): Promise<CachedResult[]> => {
+  const entries = await dbGetAll<CachedResult>(STORES.results);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCachedResult = (key: string): Promise<void> => dbDelete(STORES.results, key);
+
+export const clearResultCache = (): Promise<void> => dbClear(STORES.results);
@@ -0,0 +1,83 @@
+import { StoryboardResult, TextMarks, LocalizedText } from "../types";
+
+// Edits to a generated result that keep its transitions honest: a transition
+// describes motion between two fixed frames, so changing either frame makes it stale.
+// `marks` replaces the hand-edit state of the text; omit it for model-written text.
+
+// fromShot of the transitions into and out of `shotId`
+export const adjacentTransitions = (result: StoryboardResult, shotId: number): number[] =>
+  result.transitions
+    .filter(t => t.fromShot === shotId - 1 || t.fromShot === shotId)
+    .map(t => t.fromShot);
+
+export const replaceShotDescription = (
+  result: StoryboardResult,
+  shotId: number,
+  description: LocalizedText,
+  marks?: TextMarks
+): StoryboardResult => ({
+  ...result,
+  shots: result.shots.map(shot => {
+    if (shot.id !== shotId) return shot;
+    // Script details belong to the beat, not the wording, so they stay
+    const { marks: previousMarks, ...rest } = shot;
+    return { ...rest, description, ...(marks ? { marks } : {}) };
+  }),
+  transitions: result.transitions.map(t =>
+    t.fromShot === shotId - 1 || t.fromShot === shotId ? { ...t, stale: true } : t
+  )
+});
+
+export const replaceTransitionPrompt = (
+  result: StoryboardResult,
+  fromShot: number,
+  prompt: LocalizedText,
+  marks?: TextMarks
+): StoryboardResult => ({
+  ...result,
+  transitions: result.transitions.map(t =>
+    t.fromShot === fromShot ? { fromShot: t.fromShot, toShot: t.toShot, prompt, ...(marks ? { marks } : {}) } : t
+  )
+});
+
+export const replaceScenePrompt = (
+  result: StoryboardResult,
+  scenePrompt: LocalizedText,
+  marks?: TextMarks
+): StoryboardResult => {
+  const { sceneMarks, ...rest } = result;
+  return { ...rest, scenePrompt, ...(marks ? { sceneMarks: marks } : {}) };
+};
+
+// Addresses one localized text of a result, for edits that treat them alike
+export type TextTarget =
+  | { kind: 'scene' }
+  | { kind: 'shot'; id: number }
+  | { kind: 'transition'; fromShot: number };
+
+export const textTargetKey = (target: TextTarget): string =>
+  target.kind === 'scene' ? 'scene' : target.kind === 'shot' ? `shot:${target.id}` : `transition:${target.fromShot}`;
+
+export const getText = (
+  result: StoryboardResult,
+  target: TextTarget
+): { text: LocalizedText; marks?: TextMarks } | undefined => {
+  if (target.kind === 'scene') return { text: result.scenePrompt, marks: result.sceneMarks };
+  if (target.kind === 'shot') {
+    const shot = result.shots.find(s => s.id === target.id);
+    return shot && { text: shot.description, marks: shot.marks };
+  }
+  const transition = result.transitions.find(t => t.fromShot === target.fromShot);
+  return transition && { text: transition.prompt, marks: transition.marks };
+};
+
+export const setText = (
+  result: StoryboardResult,
+  target: TextTarget,
+  text: LocalizedText,
+  marks?: TextMarks
+): StoryboardResult => {
+  if (target.kind === 'scene') return replaceScenePrompt(result, text, marks);
+  if (target.kind === 'shot') return replaceShotDescription(result, target.id, text, marks);
+  return replaceTransitionPrompt(result, target.fromShot, text, marks);
+};
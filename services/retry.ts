@@ -0,0 +1,51 @@
+import { ProviderError, classifyError } from "./errors";
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Full jitter: a random delay up to the exponential cap, so requests that
+// failed together (e.g. one rate limit hit by a whole batch) don't retry together
+export const backoffDelay = (attempt: number, policy: RetryPolicy): number =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    // The signal outlives the wait, so the listener must not outlive it either
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs `run` until it succeeds, a failure isn't retryable, or the retries run
+// out. Failures are rethrown classified (see classifyError).
+export const withRetry = async <T>(
+  run: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal,
+  onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      const classified = classifyError(error);
+      if (signal?.aborted || !(classified instanceof ProviderError) || !classified.retryable || attempt >= policy.maxRetries) {
+        throw classified;
+      }
+      // A server-requested delay wins over a shorter backoff
+      const delay = Math.max(classified.retryAfterMs ?? 0, backoffDelay(attempt, policy));
+      onRetry?.(classified, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
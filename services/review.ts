@@ -0,0 +1,54 @@
+import { ConsistencyReview, ConsistencyReviewRequest, ReviewAspect, REVIEW_ASPECTS, ShotReview, StoryboardProvider } from "../types";
+import { ProviderError } from "./errors";
+import { isRecord } from "./validation";
+
+// Consistency review: the rendered grid (or its sliced frames) goes back to the
+// model with the references and the plan, and comes back as per-shot scores.
+
+// A shot with any aspect at or below this score is offered a fix
+export const LOW_SCORE = 6;
+
+// Scores outside 1-10 are clamped; a missing score counts as unknown (0)
+const parseScore = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.round(value), 1), 10) : 0;
+
+// Keeps the reviews of shots that exist, one per shot, in shot order
+export const normalizeReview = (raw: unknown, shotIds: number[]): ConsistencyReview => {
+  const root = isRecord(raw) ? raw : {};
+  const byId = new Map<number, ShotReview>();
+  (Array.isArray(root.shots) ? root.shots : []).forEach(entry => {
+    if (!isRecord(entry) || !Number.isInteger(entry.shotId)) return;
+    const shotId = entry.shotId as number;
+    if (!shotIds.includes(shotId) || byId.has(shotId)) return;
+    byId.set(shotId, {
+      shotId,
+      scores: Object.fromEntries(REVIEW_ASPECTS.map(aspect => [aspect, parseScore(entry[aspect])])) as Record<ReviewAspect, number>,
+      issues: (Array.isArray(entry.issues) ? entry.issues : []).filter((issue): issue is string => typeof issue === 'string' && !!issue.trim()),
+      fix: typeof entry.fix === 'string' ? entry.fix.trim() : ''
+    });
+  });
+  return {
+    shots: shotIds.map(id => byId.get(id)).filter((review): review is ShotReview => !!review),
+    summary: typeof root.summary === 'string' ? root.summary : '',
+    createdAt: Date.now()
+  };
+};
+
+export const isLowScoring = (review: ShotReview): boolean =>
+  REVIEW_ASPECTS.some(aspect => review.scores[aspect] > 0 && review.scores[aspect] <= LOW_SCORE);
+
+export const reviewConsistency = async (
+  provider: StoryboardProvider,
+  request: ConsistencyReviewRequest,
+  signal?: AbortSignal
+): Promise<ConsistencyReview> => {
+  const { rendered, result } = request;
+  const shotIds = result.shots
+    .map(shot => shot.id)
+    .filter(id => rendered.kind === 'grid' || rendered.frames[id - 1]);
+  const review = normalizeReview(await provider.reviewConsistency(request, { signal }), shotIds);
+  if (review.shots.length === 0) {
+    throw new ProviderError('malformed', 'The review did not score any shot');
+  }
+  return review;
+};
@@ -0,0 +1,78 @@
+import { Schema, Type } from "@google/genai";
+import { LocaleCode, ShotFraming } from "../types";
+
+// Response schemas shared by every provider, built for the project's output
+// languages. Gemini enforces them natively; the other providers rely on the
+// structure spelled out in the prompt.
+
+export const localizedSchema = (languages: LocaleCode[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(languages.map(code => [code, { type: Type.STRING }])),
+  required: [...languages]
+});
+
+// `script` adds the dialogue, action and suggested framing of each shot
+export const shotSchema = (languages: LocaleCode[], script = false): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.NUMBER },
+    description: localizedSchema(languages),
+    ...(script ? {
+      dialogue: { type: Type.STRING },
+      action: { type: Type.STRING },
+      framing: { type: Type.STRING, format: 'enum', enum: Object.values(ShotFraming) }
+    } : {})
+  },
+  required: script ? ["id", "description", "dialogue", "action", "framing"] : ["id", "description"]
+});
+
+export const transitionSchema = (languages: LocaleCode[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    fromShot: { type: Type.NUMBER },
+    toShot: { type: Type.NUMBER },
+    prompt: localizedSchema(languages)
+  },
+  required: ["fromShot", "toShot", "prompt"]
+});
+
+export const storyboardSchema = (languages: LocaleCode[], script = false): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    scenePrompt: localizedSchema(languages),
+    shots: { type: Type.ARRAY, items: shotSchema(languages, script) },
+    transitions: { type: Type.ARRAY, items: transitionSchema(languages) }
+  },
+  required: ["scenePrompt", "shots", "transitions"]
+});
+
+// Repairs may omit the scene prompt when it was already valid
+export const storyboardRepairSchema = (languages: LocaleCode[], script = false): Schema => ({
+  ...storyboardSchema(languages, script),
+  required: ["shots", "transitions"]
+});
+
+// Scores are flat on each shot; services/review.ts gathers them
+export const reviewSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    shots: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          shotId: { type: Type.NUMBER },
+          character: { type: Type.NUMBER },
+          costume: { type: Type.NUMBER },
+          lighting: { type: Type.NUMBER },
+          framing: { type: Type.NUMBER },
+          issues: { type: Type.ARRAY, items: { type: Type.STRING } },
+          fix: { type: Type.STRING }
+        },
+        required: ["shotId", "character", "costume", "lighting", "framing", "issues", "fix"]
+      }
+    }
+  },
+  required: ["summary", "shots"]
+};
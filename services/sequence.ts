@@ -0,0 +1,106 @@
+import { StoryboardScene, SceneTransition, ContinuityContext, SceneTransitionEndpoint, StoryboardProvider, StoryboardProject, LocaleCode } from "../types";
+import { createShotSpec, describeShotSpec } from "../utils/shotSpec";
+
+// Context from the scene before `index`, if it has been generated
+export const getContinuity = (scenes: StoryboardScene[], index: number): ContinuityContext | undefined => {
+  const previous = scenes[index - 1]?.result;
+  const lastShot = previous?.shots[previous.shots.length - 1];
+  if (!previous || !lastShot) return undefined;
+  return { previousScenePrompt: previous.scenePrompt, previousLastShot: lastShot.description };
+};
+
+const sceneEndpoint = (scene: StoryboardScene, edge: 'first' | 'last'): SceneTransitionEndpoint | undefined => {
+  const result = scene.result;
+  if (!result || result.shots.length === 0) return undefined;
+  const index = edge === 'first' ? 0 : result.shots.length - 1;
+  return {
+    scenePrompt: result.scenePrompt,
+    shot: result.shots[index].description,
+    spec: scene.selectedShots[index] || createShotSpec()
+  };
+};
+
+export const findSceneTransition = (
+  transitions: SceneTransition[],
+  from: StoryboardScene,
+  to: StoryboardScene
+): SceneTransition | undefined =>
+  transitions.find(t => t.fromSceneId === from.id && t.toSceneId === to.id);
+
+// Generates the cut between scene `index` and the next one
+export const generateSceneTransition = async (
+  provider: StoryboardProvider,
+  scenes: StoryboardScene[],
+  index: number,
+  languages: LocaleCode[]
+): Promise<SceneTransition> => {
+  const from = scenes[index];
+  const to = scenes[index + 1];
+  const start = from && sceneEndpoint(from, 'last');
+  const end = to && sceneEndpoint(to, 'first');
+  if (!start || !end) {
+    throw new Error("Both scenes must be generated before their transition.");
+  }
+  const prompt = await provider.generateSceneTransition(start, end, languages);
+  return { fromSceneId: from.id, toSceneId: to.id, prompt };
+};
+
+// Replaces (or adds) a transition, dropping ones whose scenes are no longer adjacent
+export const upsertSceneTransition = (
+  transitions: SceneTransition[],
+  scenes: StoryboardScene[],
+  transition: SceneTransition
+): SceneTransition[] => {
+  const adjacent = new Set(scenes.slice(0, -1).map((scene, i) => `${scene.id}>${scenes[i + 1].id}`));
+  return [
+    ...transitions.filter(t =>
+      !(t.fromSceneId === transition.fromSceneId && t.toSceneId === transition.toSceneId) &&
+      adjacent.has(`${t.fromSceneId}>${t.toSceneId}`)
+    ),
+    transition
+  ];
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The whole sequence as one ordered shot list (CSV), with each shot's outgoing
+// transition: within the scene, or the cross-scene cut after its last shot.
+// Text columns come in pairs per output language of the project.
+export const buildShotListCsv = (project: StoryboardProject): string => {
+  const { languages } = project;
+  const header = [
+    '#', 'Scene', 'Shot', 'Camera', 'Duration (s)', 'Action', 'Dialogue',
+    ...languages.map(code => `Description (${code.toUpperCase()})`),
+    ...languages.map(code => `Transition to Next (${code.toUpperCase()})`)
+  ];
+  const rows: (string | number)[][] = [];
+  let index = 0;
+
+  project.scenes.forEach((scene, sceneIndex) => {
+    const shots = scene.result?.shots || [];
+    const next = project.scenes[sceneIndex + 1];
+    shots.forEach((shot, shotIndex) => {
+      const isLast = shotIndex === shots.length - 1;
+      const transition = isLast
+        ? next && findSceneTransition(project.sceneTransitions, scene, next)?.prompt
+        : scene.result?.transitions.find(t => t.fromShot === shot.id)?.prompt;
+      const spec = scene.selectedShots[shotIndex] || createShotSpec();
+      rows.push([
+        ++index,
+        `${sceneIndex + 1}. ${scene.name}`,
+        shot.id,
+        describeShotSpec({ ...spec, duration: undefined }),
+        spec.duration ?? '',
+        shot.action || '',
+        shot.dialogue || '',
+        ...languages.map(code => shot.description[code] || ''),
+        ...languages.map(code => transition?.[code] || '')
+      ]);
+    });
+  });
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
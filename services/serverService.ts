@@ -0,0 +1,168 @@
+import { StoryboardResult, ShotSpec, StoryboardProvider, StoryboardRequest, StoryboardRepairRequest, SceneTransitionEndpoint, TransitionShot, BibleAsset, VisualStyle, GenerationOptions, LocaleCode, LocalizedText, TokenUsage, ConsistencyReviewRequest, ProviderErrorKind } from "../types";
+import { ProviderError, classifyError, httpError } from "./errors";
+import { readStreamLines } from "./streaming";
+
+// Routes of the app's own backend (server/index.ts). The backend holds the
+// model API key: each route takes the arguments of one StoryboardProvider
+// method as a JSON object, builds the prompt itself and answers { data, usage }.
+export const SERVER_ROUTES = {
+  storyboard: '/api/storyboard',
+  repair: '/api/storyboard/repair',
+  regenerateShot: '/api/shot/regenerate',
+  regenerateTransition: '/api/transition/regenerate',
+  translate: '/api/translate',
+  sceneTransition: '/api/scene-transition',
+  review: '/api/review'
+} as const;
+
+export interface ServerResponse<T> {
+  data: T;
+  // One entry per model response the route needed, retries included
+  usage: TokenUsage[];
+}
+
+// Content type of a streamed answer. A client that accepts it gets one JSON
+// object per line: partials while the model writes, then the answer or the
+// error. Routes whose provider method doesn't stream answer plain JSON.
+export const SERVER_STREAM_TYPE = 'application/x-ndjson';
+
+export type ServerStreamLine<T> =
+  | { partial: unknown }
+  | ServerResponse<T>
+  // The status the error would have had, had the headers not been sent yet
+  | { error: { kind: ProviderErrorKind; message: string; status: number } };
+
+// Request bodies of the routes whose method takes more than one argument
+export interface RegenerateShotBody {
+  scenePrompt: LocalizedText;
+  shotId: number;
+  spec: ShotSpec;
+  languages: LocaleCode[];
+  assets?: BibleAsset[];
+  fix?: string;
+  style?: VisualStyle | null;
+}
+
+export interface RegenerateTransitionBody {
+  scenePrompt: LocalizedText;
+  from: TransitionShot;
+  to: TransitionShot;
+  languages: LocaleCode[];
+}
+
+export interface TranslateBody {
+  text: string;
+  from: LocaleCode;
+  languages: LocaleCode[];
+}
+
+export interface SceneTransitionBody {
+  from: SceneTransitionEndpoint;
+  to: SceneTransitionEndpoint;
+  languages: LocaleCode[];
+}
+
+// Hands partials on as they arrive and returns the final line's answer
+const readServerStream = async <T>(
+  body: ReadableStream<Uint8Array>,
+  onPartial?: (partial: unknown) => void
+): Promise<ServerResponse<T>> => {
+  let response: ServerResponse<T> | null = null;
+  await readStreamLines(body, line => {
+    const message = JSON.parse(line) as ServerStreamLine<T>;
+    if ('partial' in message) {
+      onPartial?.(message.partial);
+    } else if ('error' in message) {
+      throw new ProviderError(message.error.kind, `App server failed while streaming: ${message.error.message}`, message.error.status);
+    } else {
+      response = message;
+    }
+  });
+  if (!response) {
+    throw new ProviderError('network', 'App server closed the stream before the answer arrived.');
+  }
+  return response;
+};
+
+// Front-end side of the backend. The storyboard, repair and review routes
+// stream when asked for partials; retries of the model happen on the server.
+export class ServerService implements StoryboardProvider {
+  constructor(
+    // Origin of the backend; empty for the one serving the app
+    private baseUrl: string = '',
+    private onUsage?: (usage: TokenUsage) => void
+  ) {}
+
+  private async post<T>(route: string, body: unknown, options: GenerationOptions = {}): Promise<T> {
+    const { signal, onPartial } = options;
+    try {
+      const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${route}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(onPartial ? { Accept: `${SERVER_STREAM_TYPE}, application/json` } : {}) },
+        body: JSON.stringify(body),
+        signal
+      });
+      if (!response.ok) {
+        throw await httpError('App server', response);
+      }
+      const { data, usage = [] } = response.headers.get('Content-Type')?.startsWith(SERVER_STREAM_TYPE) && response.body
+        ? await readServerStream<T>(response.body, onPartial)
+        : await response.json() as ServerResponse<T>;
+      usage.forEach(entry => this.onUsage?.(entry));
+      return data;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`App server error (${route}):`, error);
+      throw classifyError(error);
+    }
+  }
+
+  analyzeAndGenerate(request: StoryboardRequest, options: GenerationOptions = {}): Promise<StoryboardResult> {
+    return this.post(SERVER_ROUTES.storyboard, request, options);
+  }
+
+  regenerateShot(
+    scenePrompt: LocalizedText,
+    shotId: number,
+    spec: ShotSpec,
+    languages: LocaleCode[],
+    assets: BibleAsset[] = [],
+    fix?: string,
+    style?: VisualStyle | null
+  ): Promise<LocalizedText> {
+    const body: RegenerateShotBody = { scenePrompt, shotId, spec, languages, assets, fix, style };
+    return this.post(SERVER_ROUTES.regenerateShot, body);
+  }
+
+  regenerateTransition(
+    scenePrompt: LocalizedText,
+    from: TransitionShot,
+    to: TransitionShot,
+    languages: LocaleCode[]
+  ): Promise<LocalizedText> {
+    const body: RegenerateTransitionBody = { scenePrompt, from, to, languages };
+    return this.post(SERVER_ROUTES.regenerateTransition, body);
+  }
+
+  translate(text: string, from: LocaleCode, languages: LocaleCode[]): Promise<LocalizedText> {
+    const body: TranslateBody = { text, from, languages };
+    return this.post(SERVER_ROUTES.translate, body);
+  }
+
+  generateSceneTransition(
+    from: SceneTransitionEndpoint,
+    to: SceneTransitionEndpoint,
+    languages: LocaleCode[]
+  ): Promise<LocalizedText> {
+    const body: SceneTransitionBody = { from, to, languages };
+    return this.post(SERVER_ROUTES.sceneTransition, body);
+  }
+
+  repairStoryboard(request: StoryboardRepairRequest, options: GenerationOptions = {}): Promise<Partial<StoryboardResult>> {
+    return this.post(SERVER_ROUTES.repair, request, options);
+  }
+
+  reviewConsistency(request: ConsistencyReviewRequest, options: GenerationOptions = {}): Promise<unknown> {
+    return this.post(SERVER_ROUTES.review, request, options);
+  }
+}
@@ -0,0 +1,41 @@
+import { ShotVersion, ShotVersionSource, ShotSpec, StoryboardResult, LocalizedText, LOCALE_CODES } from "../types";
+
+// Per-shot version history, so trying a variant never loses a good description.
+
+// Oldest versions are dropped beyond this
+export const MAX_SHOT_VERSIONS = 20;
+
+// A missing language counts as empty, so {en} and {en, ja: ''} are the same text
+const sameText = (a: LocalizedText, b: LocalizedText) =>
+  LOCALE_CODES.every(code => (a[code] || '') === (b[code] || ''));
+
+const isEmptyText = (text: LocalizedText) => LOCALE_CODES.every(code => !text[code]);
+
+export const createShotVersion = (
+  description: LocalizedText,
+  spec: ShotSpec,
+  source: ShotVersionSource
+): ShotVersion => ({ description, spec, source, createdAt: Date.now() });
+
+// Appends a version to shot `index`, unless it repeats the latest one
+export const addShotVersion = (history: ShotVersion[][], index: number, version: ShotVersion): ShotVersion[][] => {
+  const versions = history[index] || [];
+  const latest = versions[versions.length - 1];
+  if (isEmptyText(version.description)) return history;
+  if (latest && sameText(latest.description, version.description)) return history;
+  const next = [...history];
+  next[index] = [...versions, version].slice(-MAX_SHOT_VERSIONS);
+  return next;
+};
+
+// Records every non-empty shot of a freshly generated or repaired result
+export const addResultVersions = (
+  history: ShotVersion[][],
+  result: StoryboardResult,
+  specs: ShotSpec[],
+  source: ShotVersionSource
+): ShotVersion[][] =>
+  result.shots.reduce(
+    (acc, shot, index) => specs[index] ? addShotVersion(acc, index, createShotVersion(shot.description, specs[index], source)) : acc,
+    history
+  );
@@ -0,0 +1,76 @@
+import { StoryboardScene, TransitionResult, LocaleCode } from "../types";
+import { createShotSpec } from "../utils/shotSpec";
+import { emptyText } from "../utils/locale";
+import { getShotCount, layoutForCount } from "../utils/grid";
+
+// Reordering, inserting and deleting the shots of a generated scene. Shots are
+// numbered by position, so every change renumbers the shots and transitions and
+// carries the per-shot plan (camera settings, bible entries, history, frame) along.
+// A transition whose shots are no longer the same adjacent pair keeps its text
+// but is marked stale; an inserted shot starts empty, to be regenerated.
+// Insert and delete change the shot count, so the layout changes with them.
+
+// Old position of each shot in the new order; null for an inserted shot
+type ShotOrder = (number | null)[];
+
+const positions = (scene: StoryboardScene): ShotOrder =>
+  Array.from({ length: getShotCount(scene.layout) }, (_, i) => i);
+
+// Whether the scene can have `delta` shots more (or fewer) and still fit a grid
+export const canChangeShotCount = (scene: StoryboardScene, delta: number): boolean =>
+  layoutForCount(getShotCount(scene.layout) + delta, scene.layout) !== null;
+
+const rearrange = (scene: StoryboardScene, order: ShotOrder, languages: LocaleCode[]): StoryboardScene => {
+  const { result } = scene;
+  if (!result) return scene;
+  const layout = order.length === getShotCount(scene.layout) ? scene.layout : layoutForCount(order.length, scene.layout);
+  if (!layout) return scene;
+
+  const pick = <T>(items: T[], fill: () => T): T[] =>
+    order.map(old => old === null ? fill() : items[old] ?? fill());
+  const shots = order.map((old, index) => {
+    const shot = old === null ? undefined : result.shots[old];
+    return shot ? { ...shot, id: index + 1 } : { id: index + 1, description: emptyText(languages) };
+  });
+  const transitions = order.slice(1).map((to, index): TransitionResult => {
+    const from = order[index];
+    const fromShot = index + 1;
+    const toShot = index + 2;
+    const previous = from === null ? undefined : result.transitions.find(t => t.fromShot === from + 1);
+    if (!previous) return { fromShot, toShot, prompt: emptyText(languages), stale: true };
+    const samePair = from !== null && to === from + 1;
+    return samePair ? { ...previous, fromShot, toShot } : { ...previous, fromShot, toShot, stale: true };
+  });
+
+  return {
+    ...scene,
+    layout,
+    result: { ...result, shots, transitions },
+    selectedShots: pick(scene.selectedShots, () => createShotSpec()),
+    shotAssets: pick(scene.shotAssets, () => []),
+    shotHistory: pick(scene.shotHistory, () => []),
+    frames: pick(scene.frames, () => '')
+  };
+};
+
+// Moves the shot at index `from` so it ends up at index `to`
+export const moveShot = (scene: StoryboardScene, from: number, to: number, languages: LocaleCode[]): StoryboardScene => {
+  if (from === to) return scene;
+  const order = positions(scene);
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+  return rearrange(scene, order, languages);
+};
+
+// Adds an empty shot at `index`, pushing the shots from there on one place later
+export const insertShot = (scene: StoryboardScene, index: number, languages: LocaleCode[]): StoryboardScene => {
+  const order = positions(scene);
+  order.splice(index, 0, null);
+  return rearrange(scene, order, languages);
+};
+
+export const deleteShot = (scene: StoryboardScene, index: number, languages: LocaleCode[]): StoryboardScene => {
+  const order = positions(scene);
+  order.splice(index, 1);
+  return rearrange(scene, order, languages);
+};
@@ -0,0 +1,219 @@
+import { ShotPreset, ShotSpec, GridLayout, LocalizedText, ShotFraming as F, CameraAngle as A, Lens as L, CameraMovement as M } from "../types";
+import { createShotSpec, upgradeShotSpec } from "../utils/shotSpec";
+import { isValidLayout } from "../utils/grid";
+import { isRecord } from "./validation";
+
+// Named shot sequences ("coverage patterns") applied to a scene's shot plan.
+// Built-ins live here; presets saved by the user are kept in the browser and
+// can be moved between machines as a JSON file.
+
+const shot = (framing: F, angle: A, lens: L, movement: M): ShotSpec => createShotSpec({ framing, angle, lens, movement });
+
+// Names of the built-ins, shared by the versions for different layouts
+const DIALOGUE: LocalizedText = { en: 'Dialogue coverage', cn: '对话覆盖', ja: '会話カバレッジ', ko: '대화 커버리지', es: 'Cobertura de diálogo' };
+const PRODUCT_REVEAL: LocalizedText = { en: 'Product reveal', cn: '产品揭示', ja: '商品リビール', ko: '제품 공개', es: 'Revelación de producto' };
+const ACTION_ESCALATION: LocalizedText = { en: 'Action escalation', cn: '动作升级', ja: 'アクションの盛り上げ', ko: '액션 고조', es: 'Escalada de acción' };
+const ESTABLISHING_TO_DETAIL: LocalizedText = {
+  en: 'Establishing to detail',
+  cn: '从全景到细节',
+  ja: 'エスタブリッシュからディテールへ',
+  ko: '설정 숏에서 디테일로',
+  es: 'Del plano de situación al detalle'
+};
+
+export const BUILT_IN_SHOT_PRESETS: ShotPreset[] = [
+  {
+    id: 'dialogue-3x3',
+    name: DIALOGUE,
+    builtIn: true,
+    layout: '3x3',
+    shots: [
+      shot(F.Wide, A.EyeLevel, L.Standard, M.Static),
+      shot(F.Medium, A.EyeLevel, L.Normal, M.Static),
+      shot(F.MediumCloseUp, A.OverTheShoulder, L.Portrait, M.Static),
+      shot(F.MediumCloseUp, A.OverTheShoulder, L.Portrait, M.Static),
+      shot(F.CloseUp, A.EyeLevel, L.Portrait, M.Static),
+      shot(F.CloseUp, A.EyeLevel, L.Portrait, M.Static),
+      shot(F.ExtremeCloseUp, A.EyeLevel, L.Telephoto, M.DollyIn),
+      shot(F.CloseUp, A.EyeLevel, L.Portrait, M.Static),
+      shot(F.Wide, A.EyeLevel, L.Standard, M.DollyOut)
+    ]
+  },
+  {
+    id: 'dialogue-2x2',
+    name: DIALOGUE,
+    builtIn: true,
+    layout: '2x2',
+    shots: [
+      shot(F.Medium, A.EyeLevel, L.Standard, M.Static),
+      shot(F.MediumCloseUp, A.OverTheShoulder, L.Portrait, M.Static),
+      shot(F.MediumCloseUp, A.OverTheShoulder, L.Portrait, M.Static),
+      shot(F.CloseUp, A.EyeLevel, L.Portrait, M.DollyIn)
+    ]
+  },
+  {
+    id: 'product-reveal-3x3',
+    name: PRODUCT_REVEAL,
+    builtIn: true,
+    layout: '3x3',
+    shots: [
+      shot(F.ExtremeCloseUp, A.EyeLevel, L.Macro, M.Pan),
+      shot(F.ExtremeCloseUp, A.LowAngle, L.Macro, M.Tracking),
+      shot(F.CloseUp, A.HighAngle, L.Portrait, M.Tilt),
+      shot(F.CloseUp, A.EyeLevel, L.Portrait, M.DollyOut),
+      shot(F.MediumCloseUp, A.LowAngle, L.Normal, M.Crane),
+      shot(F.Medium, A.EyeLevel, L.Normal, M.Tracking),
+      shot(F.Medium, A.PointOfView, L.Standard, M.Handheld),
+      shot(F.CloseUp, A.HighAngle, L.Macro, M.Static),
+      shot(F.Full, A.EyeLevel, L.Normal, M.Static)
+    ]
+  },
+  {
+    id: 'product-reveal-1x4',
+    name: PRODUCT_REVEAL,
+    builtIn: true,
+    layout: '1x4',
+    shots: [
+      shot(F.ExtremeCloseUp, A.EyeLevel, L.Macro, M.Pan),
+      shot(F.CloseUp, A.LowAngle, L.Portrait, M.Tilt),
+      shot(F.Medium, A.EyeLevel, L.Normal, M.DollyOut),
+      shot(F.Full, A.EyeLevel, L.Normal, M.Static)
+    ]
+  },
+  {
+    id: 'action-escalation-3x3',
+    name: ACTION_ESCALATION,
+    builtIn: true,
+    layout: '3x3',
+    shots: [
+      shot(F.Wide, A.EyeLevel, L.Wide, M.Static),
+      shot(F.Full, A.LowAngle, L.Wide, M.Tracking),
+      shot(F.Medium, A.EyeLevel, L.Standard, M.Handheld),
+      shot(F.Wide, A.HighAngle, L.Wide, M.Crane),
+      shot(F.MediumCloseUp, A.Dutch, L.Standard, M.Handheld),
+      shot(F.Full, A.LowAngle, L.UltraWide, M.Tracking),
+      shot(F.CloseUp, A.Dutch, L.Portrait, M.Handheld),
+      shot(F.ExtremeCloseUp, A.EyeLevel, L.Telephoto, M.Zoom),
+      shot(F.ExtremeWide, A.BirdEye, L.UltraWide, M.Crane)
+    ]
+  },
+  {
+    id: 'establishing-to-detail-3x3',
+    name: ESTABLISHING_TO_DETAIL,
+    builtIn: true,
+    layout: '3x3',
+    shots: [
+      shot(F.ExtremeWide, A.BirdEye, L.UltraWide, M.Crane),
+      shot(F.ExtremeWide, A.HighAngle, L.Wide, M.Pan),
+      shot(F.Wide, A.EyeLevel, L.Wide, M.DollyIn),
+      shot(F.Full, A.EyeLevel, L.Standard, M.Tracking),
+      shot(F.Medium, A.EyeLevel, L.Standard, M.DollyIn),
+      shot(F.MediumCloseUp, A.EyeLevel, L.Normal, M.Static),
+      shot(F.CloseUp, A.EyeLevel, L.Portrait, M.DollyIn),
+      shot(F.CloseUp, A.HighAngle, L.Portrait, M.Static),
+      shot(F.ExtremeCloseUp, A.EyeLevel, L.Macro, M.Static)
+    ]
+  },
+  {
+    id: 'establishing-to-detail-2x2',
+    name: ESTABLISHING_TO_DETAIL,
+    builtIn: true,
+    layout: '2x2',
+    shots: [
+      shot(F.ExtremeWide, A.BirdEye, L.UltraWide, M.Crane),
+      shot(F.Wide, A.EyeLevel, L.Wide, M.DollyIn),
+      shot(F.Medium, A.EyeLevel, L.Standard, M.DollyIn),
+      shot(F.CloseUp, A.EyeLevel, L.Portrait, M.Static)
+    ]
+  }
+];
+
+const STORAGE_KEY = 'storyboard.shotPresets';
+
+// Built-ins first, then the user's presets in the order they were saved
+export const loadShotPresets = (): ShotPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : [];
+    return [...BUILT_IN_SHOT_PRESETS, ...parsePresets(stored)];
+  } catch (error) {
+    console.warn("Ignoring unreadable shot presets", error);
+    return [...BUILT_IN_SHOT_PRESETS];
+  }
+};
+
+// Only user presets are stored; built-ins always come from the code
+export const saveShotPresets = (presets: ShotPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+};
+
+export const createShotPreset = (name: string, layout: GridLayout, shots: ShotSpec[]): ShotPreset => ({
+  id: crypto.randomUUID(),
+  name: { en: name },
+  builtIn: false,
+  layout,
+  shots: shots.map(spec => ({ ...spec }))
+});
+
+// Stretches or squeezes a sequence to `count` shots while keeping its arc: the
+// first and last shots stay in place and the ones between are picked evenly,
+// so a 9-shot escalation still escalates in 4 shots, and in 12.
+export const adaptShots = (shots: ShotSpec[], count: number): ShotSpec[] => {
+  if (shots.length === 0) return Array.from({ length: count }, () => createShotSpec());
+  if (count === 1) return [{ ...shots[0] }];
+  return Array.from({ length: count }, (_, i) => ({
+    ...shots[Math.round(i * (shots.length - 1) / (count - 1))]
+  }));
+};
+
+// Presets file, see exportShotPresets
+const FILE_FORMAT = 'ai-storyboard-shot-presets';
+const FILE_VERSION = 1;
+
+// A preset from storage or a file; one without a name, a valid layout or any
+// shots is dropped
+const parsePreset = (entry: unknown, freshIds: boolean): ShotPreset | null => {
+  if (!isRecord(entry)) return null;
+  // Files and presets stored before names were localized hold a plain string
+  const name = typeof entry.name === 'string' ? entry.name : isRecord(entry.name) && typeof entry.name.en === 'string' ? entry.name.en : '';
+  if (!name.trim() || !isValidLayout(entry.layout) || !Array.isArray(entry.shots) || entry.shots.length === 0) return null;
+  return {
+    id: !freshIds && typeof entry.id === 'string' ? entry.id : crypto.randomUUID(),
+    name: { en: name.trim() },
+    builtIn: false,
+    layout: entry.layout,
+    shots: entry.shots.map(upgradeShotSpec)
+  };
+};
+
+// Presets from storage or a file, with fresh ids for imported ones
+const parsePresets = (source: unknown, freshIds = false): ShotPreset[] =>
+  (Array.isArray(source) ? source : [])
+    .map(entry => parsePreset(entry, freshIds))
+    .filter((preset): preset is ShotPreset => !!preset);
+
+export const exportShotPresets = (presets: ShotPreset[]): string => JSON.stringify({
+  format: FILE_FORMAT,
+  version: FILE_VERSION,
+  presets: presets.map(({ name, layout, shots }) => ({ name: name.en, layout, shots }))
+}, null, 2);
+
+export const parseShotPresetFile = (text: string): ShotPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== FILE_FORMAT || typeof data.version !== 'number' || !Number.isInteger(data.version)) {
+    throw new Error("The file is not a shot preset file.");
+  }
+  if (data.version > FILE_VERSION) {
+    throw new Error(`The file was made by a newer version of this app (format v${data.version}). Please update.`);
+  }
+  const presets = parsePresets(data.presets, true);
+  if (presets.length === 0) {
+    throw new Error("The file contains no usable presets.");
+  }
+  return presets;
+};
@@ -0,0 +1,122 @@
+import { ShotSpec, AspectRatio, StoryboardProvider, StoryboardRequest, StoryboardValidation, StoryboardResult, BibleAsset, GenerationProgress, LocaleCode } from "../types";
+import { validateStoryboardResult } from "./validation";
+import { getShotCount } from "../utils/grid";
+import { ProviderError } from "./errors";
+import { fillText } from "../utils/locale";
+
+// Number of follow-up requests made to fill gaps before showing a partial result
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface PipelineOptions {
+  signal?: AbortSignal;
+  // Receives the usable part of the result each time more of it arrives
+  onProgress?: (validation: StoryboardValidation, progress: GenerationProgress) => void;
+}
+
+// Where a streaming response has got to: scene first, then shots, then transitions
+export const describeProgress = (validation: StoryboardValidation): GenerationProgress => {
+  const numShots = validation.normalized.shots.length;
+  if (validation.sceneMissing) {
+    return { phase: 'scene', completed: 0, total: 1 };
+  }
+  const shotsDone = numShots - validation.missingShotIds.length;
+  if (shotsDone < numShots) {
+    return { phase: 'shots', completed: shotsDone, total: numShots };
+  }
+  const numTransitions = validation.normalized.transitions.length;
+  return { phase: 'transitions', completed: numTransitions - validation.missingTransitions.length, total: numTransitions };
+};
+
+// Re-requests only what `validation` reports as missing and merges the valid
+// pieces of the reply into the existing result. Already-valid content is never
+// replaced, and a text that only lacks some languages keeps the ones it has.
+export const repairStoryboard = async (
+  provider: StoryboardProvider,
+  validation: StoryboardValidation,
+  selectedShots: ShotSpec[],
+  aspectRatio: AspectRatio,
+  languages: LocaleCode[],
+  assets: BibleAsset[] = [],
+  script?: string,
+  signal?: AbortSignal
+): Promise<StoryboardValidation> => {
+  const { normalized, sceneMissing, missingShotIds, missingTransitions } = validation;
+  const numShots = normalized.shots.length;
+
+  const raw = await provider.repairStoryboard({
+    partial: normalized,
+    assets,
+    selectedShots,
+    aspectRatio,
+    repairScene: sceneMissing,
+    shotIds: missingShotIds,
+    transitionFromShots: missingTransitions,
+    languages,
+    script
+  }, { signal });
+  const patch = validateStoryboardResult({ scenePrompt: normalized.scenePrompt, ...raw }, numShots, languages);
+
+  const merged: StoryboardResult = {
+    scenePrompt: sceneMissing && !patch.sceneMissing
+      ? fillText(normalized.scenePrompt, patch.normalized.scenePrompt)
+      : normalized.scenePrompt,
+    shots: normalized.shots.map((shot, i) =>
+      missingShotIds.includes(shot.id) && !patch.missingShotIds.includes(shot.id)
+        // A repaired shot also takes the script details it was missing
+        ? { ...patch.normalized.shots[i], ...shot, description: fillText(shot.description, patch.normalized.shots[i].description) }
+        : shot
+    ),
+    transitions: normalized.transitions.map((transition, i) =>
+      missingTransitions.includes(transition.fromShot) && !patch.missingTransitions.includes(transition.fromShot)
+        ? { ...transition, prompt: fillText(transition.prompt, patch.normalized.transitions[i].prompt) }
+        : transition
+    ),
+    ...(normalized.sceneMarks ? { sceneMarks: normalized.sceneMarks } : {})
+  };
+
+  return validateStoryboardResult(merged, numShots, languages);
+};
+
+// Full generation: one analysis call, validation, then targeted repairs.
+// Resolves with whatever could be recovered; callers inspect `issues` for gaps.
+export const generateValidatedStoryboard = async (
+  provider: StoryboardProvider,
+  request: StoryboardRequest,
+  options: PipelineOptions = {}
+): Promise<StoryboardValidation> => {
+  const { selectedShots, layout, aspectRatio, assets, languages, script } = request;
+  const { signal, onProgress } = options;
+  const numShots = getShotCount(layout);
+
+  const raw = await provider.analyzeAndGenerate(request, {
+    signal,
+    onPartial: onProgress && (partial => {
+      if (partial === undefined) return;
+      const progress = validateStoryboardResult(partial, numShots, languages);
+      onProgress(progress, describeProgress(progress));
+    })
+  });
+  let validation = validateStoryboardResult(raw, numShots, languages);
+
+  if (validation.sceneMissing && validation.missingShotIds.length === numShots) {
+    throw new ProviderError('malformed', "Model response contained no usable storyboard.");
+  }
+
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && validation.issues.length > 0; attempt++) {
+    onProgress?.(validation, {
+      phase: 'repair',
+      completed: attempt,
+      total: MAX_REPAIR_ATTEMPTS
+    });
+    try {
+      validation = await repairStoryboard(provider, validation, selectedShots, aspectRatio, languages, assets, script, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Keep the partial result; the UI offers a manual retry
+      console.warn("Storyboard repair failed", error);
+      break;
+    }
+  }
+
+  return validation;
+};
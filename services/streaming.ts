@@ -0,0 +1,19 @@
+// Splits a streamed HTTP body into lines (SSE and NDJSON are both line based)
+export const readStreamLines = async (
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => line.trim() && onLine(line.trim()));
+  }
+  if (buffer.trim()) onLine(buffer.trim());
+};
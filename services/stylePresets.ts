@@ -0,0 +1,129 @@
+import { VisualStyle, LocaleCode, LocalizedText, LOCALE_CODES } from "../types";
+import { textIn } from "../utils/locale";
+import { isRecord } from "./validation";
+
+// Named looks for a scene: palette, lighting, film stock/lens character and era.
+// Built-ins live here; styles made by the user are kept in the browser.
+
+export const BUILT_IN_STYLES: VisualStyle[] = [
+  {
+    id: 'film-noir',
+    name: { en: 'Film noir', cn: '黑色电影' },
+    builtIn: true,
+    palette: 'black and white, deep blacks, silver highlights',
+    lighting: 'hard low-key lighting, venetian-blind shadows, single practical sources',
+    filmStock: 'high-contrast 35mm black-and-white film, 40mm spherical lens, deep focus',
+    era: '1940s'
+  },
+  {
+    id: 'anime-cel',
+    name: { en: 'Anime cel shading', cn: '日式动画赛璐璐' },
+    builtIn: true,
+    palette: 'saturated flat colors, clean sky blues, soft pastel accents',
+    lighting: 'two-tone cel shading, crisp rim light, painted light rays',
+    filmStock: 'hand-drawn cel animation, bold clean line art, painted backgrounds',
+    era: 'contemporary'
+  },
+  {
+    id: 'documentary-35mm',
+    name: { en: '35mm documentary', cn: '35毫米纪录片' },
+    builtIn: true,
+    palette: 'natural muted colors, true skin tones',
+    lighting: 'available light, window light, no added fill',
+    filmStock: 'Kodak Vision3 500T 35mm film with visible grain, 35mm prime lens, slight softness',
+    era: 'present day'
+  },
+  {
+    id: 'teal-orange',
+    name: { en: 'Blockbuster teal and orange', cn: '大片青橙色调' },
+    builtIn: true,
+    palette: 'teal shadows and orange skin tones, high saturation',
+    lighting: 'dramatic backlight, haze, strong contrast',
+    filmStock: 'digital cinema camera, anamorphic lens with horizontal flares and oval bokeh',
+    era: 'present day'
+  },
+  {
+    id: 'pastel-symmetry',
+    name: { en: 'Pastel storybook', cn: '粉彩童话' },
+    builtIn: true,
+    palette: 'soft pastel pinks, mint and mustard, coordinated production design',
+    lighting: 'even, bright, flat front lighting',
+    filmStock: '35mm film, wide spherical lens, centered symmetrical compositions',
+    era: '1960s'
+  },
+  {
+    id: 'seventies-film',
+    name: { en: '1970s film', cn: '七十年代胶片' },
+    builtIn: true,
+    palette: 'warm faded browns, yellows and olive greens',
+    lighting: 'soft tungsten light, smoky interiors',
+    filmStock: 'grainy 35mm film, vintage zoom lens with low contrast and halation',
+    era: '1970s'
+  },
+  {
+    id: 'cyberpunk-neon',
+    name: { en: 'Cyberpunk neon', cn: '赛博朋克霓虹' },
+    builtIn: true,
+    palette: 'magenta and cyan neon against deep blue-black',
+    lighting: 'neon signage, wet reflective streets, volumetric fog',
+    filmStock: 'digital cinema camera, anamorphic lens, heavy bokeh',
+    era: 'near future'
+  }
+];
+
+const STORAGE_KEY = 'storyboard.stylePresets';
+
+// Built-ins first, then the user's styles in the order they were made
+export const loadStyles = (): VisualStyle[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    return [...BUILT_IN_STYLES, ...(Array.isArray(stored) ? stored : []).filter(isCustomStyle)];
+  } catch (error) {
+    console.warn("Ignoring unreadable style presets", error);
+    return [...BUILT_IN_STYLES];
+  }
+};
+
+// Only user styles are stored; built-ins always come from the code
+export const saveStyles = (styles: VisualStyle[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(styles.filter(style => !style.builtIn)));
+};
+
+const isCustomStyle = (value: unknown): value is VisualStyle =>
+  isRecord(value) && typeof value.id === 'string' && isRecord(value.name) && typeof value.name.en === 'string'
+  && value.builtIn === false && ['palette', 'lighting', 'filmStock', 'era'].every(key => typeof value[key] === 'string');
+
+// Editable copy of `from` under a new name
+export const createStyle = (from: VisualStyle, name: string): VisualStyle => ({
+  ...from,
+  id: crypto.randomUUID(),
+  name: { en: name },
+  builtIn: false
+});
+
+// A style read from a stored scene or a project file; anything unusable is no style
+export const parseStyle = (value: unknown): VisualStyle | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  const name = value.name;
+  if (!isRecord(name) || typeof name.en !== 'string') return null;
+  const text = (field: unknown) => typeof field === 'string' ? field : '';
+  return {
+    id: value.id,
+    name: Object.fromEntries(
+      LOCALE_CODES.filter(code => typeof name[code] === 'string').map(code => [code, name[code]])
+    ) as LocalizedText,
+    builtIn: value.builtIn === true,
+    palette: text(value.palette),
+    lighting: text(value.lighting),
+    filmStock: text(value.filmStock),
+    era: text(value.era)
+  };
+};
+
+// One phrase for the image prompt, e.g. "Film noir, black and white, deep blacks, ..."
+export const describeStyleInline = (style: VisualStyle, language: LocaleCode): string =>
+  [textIn(style.name, language), style.palette, style.lighting, style.filmStock, style.era]
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(', ');
@@ -0,0 +1,64 @@
+import { UsageEntry } from "../types";
+
+// USD per million tokens, matched against the start of the model name. Rough
+// list prices for an estimate only; check the provider's billing for real costs.
+interface ModelPrice {
+  prefix: string;
+  input: number;
+  output: number;
+}
+
+// Longer prefixes first so 'gpt-4o-mini' isn't priced as 'gpt-4o'
+const PRICES: ModelPrice[] = [
+  { prefix: 'gemini-3-pro', input: 2, output: 12 },
+  { prefix: 'gemini-3-flash', input: 0.5, output: 3 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+  { prefix: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 }
+];
+
+// Adds one response to the totals of its model
+export const addUsage = (entries: UsageEntry[], usage: Omit<UsageEntry, 'requests'>): UsageEntry[] => {
+  const index = entries.findIndex(entry => entry.provider === usage.provider && entry.model === usage.model);
+  if (index === -1) return [...entries, { ...usage, requests: 1 }];
+  return entries.map((entry, i) => i !== index ? entry : {
+    ...entry,
+    requests: entry.requests + 1,
+    inputTokens: entry.inputTokens + usage.inputTokens,
+    outputTokens: entry.outputTokens + usage.outputTokens
+  });
+};
+
+// Estimated USD; local models are free, unknown hosted models null
+export const estimateCost = (entry: UsageEntry): number | null => {
+  if (entry.provider === 'ollama' || entry.provider === 'mock') return 0;
+  const price = PRICES.find(p => entry.model.startsWith(p.prefix));
+  if (!price) return null;
+  return (entry.inputTokens * price.input + entry.outputTokens * price.output) / 1_000_000;
+};
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Sum of the models with a known price
+  cost: number;
+  // Some tokens went to models without a known price
+  costIncomplete: boolean;
+}
+
+export const totalUsage = (entries: UsageEntry[]): UsageTotals =>
+  entries.reduce<UsageTotals>((totals, entry) => {
+    const cost = estimateCost(entry);
+    return {
+      requests: totals.requests + entry.requests,
+      inputTokens: totals.inputTokens + entry.inputTokens,
+      outputTokens: totals.outputTokens + entry.outputTokens,
+      cost: totals.cost + (cost ?? 0),
+      costIncomplete: totals.costIncomplete || cost === null
+    };
+  }, { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, costIncomplete: false });
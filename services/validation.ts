@@ -0,0 +1,177 @@
+import { StoryboardResult, ShotFraming, ShotFramingLabels, TransitionResult, TextMarks, ValidationIssue, StoryboardValidation, LocaleCode, LocalizedText } from "../types";
+import { DEFAULT_LANGUAGES, emptyText } from "../utils/locale";
+
+// Runtime checks for model output. Models occasionally drop shots, renumber
+// them or skip a transition; these validators report exactly what is wrong
+// and reshape whatever is usable into the layout the UI expects.
+// `languages` are the project's output languages; each text needs all of them.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateLocalized = (value: unknown, path: string, languages: LocaleCode[]): ValidationIssue[] => {
+  if (!isRecord(value)) {
+    return [{ code: 'invalid_type', path, message: `${path} must be an object with ${languages.map(code => `"${code}"`).join(', ')} text.` }];
+  }
+  return languages
+    .filter(lang => typeof value[lang] !== 'string' || !(value[lang] as string).trim())
+    .map(lang => ({ code: 'missing_text' as const, path: `${path}.${lang}`, message: `${path}.${lang} is missing or empty.` }));
+};
+
+// Whatever text is present, with the missing languages left empty. Lets the UI
+// keep showing a text that only lacks a newly added language until it's repaired.
+const partialText = (value: unknown, languages: LocaleCode[]): LocalizedText => {
+  const text = emptyText(languages);
+  if (!isRecord(value)) return text;
+  Object.entries(value).forEach(([lang, content]) => {
+    if (typeof content === 'string' && content.trim()) (text as Record<string, string>)[lang] = content;
+  });
+  return text;
+};
+
+// Script details are extras: kept when well-formed, dropped silently otherwise
+const scriptFields = (shot: Record<string, unknown>) => ({
+  ...(typeof shot.dialogue === 'string' && shot.dialogue.trim() ? { dialogue: shot.dialogue.trim() } : {}),
+  ...(typeof shot.action === 'string' && shot.action.trim() ? { action: shot.action.trim() } : {}),
+  ...(typeof shot.framing === 'string' && shot.framing in ShotFramingLabels ? { framing: shot.framing as ShotFraming } : {})
+});
+
+export const validateTransitionResult = (
+  value: unknown,
+  path: string,
+  numShots: number,
+  languages: LocaleCode[] = DEFAULT_LANGUAGES
+): ValidationIssue[] => {
+  if (!isRecord(value)) {
+    return [{ code: 'invalid_type', path, message: `${path} must be an object.` }];
+  }
+  const { fromShot, toShot } = value;
+  if (!Number.isInteger(fromShot) || !Number.isInteger(toShot)) {
+    return [{ code: 'invalid_transition', path, message: `${path} needs integer "fromShot" and "toShot".` }];
+  }
+  const from = fromShot as number;
+  if (from < 1 || from >= numShots || toShot !== from + 1) {
+    return [{
+      code: 'invalid_transition',
+      path,
+      fromShot: from,
+      message: `${path} goes from shot ${from} to ${toShot}; transitions must chain N->N+1 within 1..${numShots}.`
+    }];
+  }
+  return validateLocalized(value.prompt, `${path}.prompt`, languages).map(issue => ({ ...issue, fromShot: from }));
+};
+
+export const validateStoryboardResult = (
+  value: unknown,
+  numShots: number,
+  languages: LocaleCode[] = DEFAULT_LANGUAGES
+): StoryboardValidation => {
+  const issues: ValidationIssue[] = [];
+  const root = isRecord(value) ? value : {};
+  if (!isRecord(value)) {
+    issues.push({ code: 'invalid_type', path: '$', message: 'Response is not a JSON object.' });
+  }
+
+  // Scene prompt
+  const sceneIssues = validateLocalized(root.scenePrompt, 'scenePrompt', languages);
+  issues.push(...sceneIssues);
+  const scenePrompt = sceneIssues.length === 0
+    ? (root.scenePrompt as LocalizedText)
+    : partialText(root.scenePrompt, languages);
+
+  // Shots, slotted by id so a dropped shot doesn't shift the rest
+  const shotSlots: (StoryboardResult['shots'][number] | undefined)[] = new Array(numShots).fill(undefined);
+  const partialShots: (StoryboardResult['shots'][number] | undefined)[] = new Array(numShots).fill(undefined);
+  const rawShots = Array.isArray(root.shots) ? root.shots : [];
+  if (!Array.isArray(root.shots)) {
+    issues.push({ code: 'invalid_type', path: 'shots', message: 'shots must be an array.' });
+  } else if (rawShots.length !== numShots) {
+    issues.push({ code: 'shot_count', path: 'shots', message: `Expected ${numShots} shots, received ${rawShots.length}.` });
+  }
+  rawShots.forEach((shot, i) => {
+    const path = `shots[${i}]`;
+    if (!isRecord(shot)) {
+      issues.push({ code: 'invalid_type', path, message: `${path} must be an object.` });
+      return;
+    }
+    const id = shot.id;
+    if (!Number.isInteger(id) || (id as number) < 1 || (id as number) > numShots) {
+      issues.push({ code: 'invalid_shot_id', path: `${path}.id`, message: `${path}.id must be an integer between 1 and ${numShots}.` });
+      return;
+    }
+    const shotId = id as number;
+    if (shotSlots[shotId - 1]) {
+      issues.push({ code: 'duplicate_shot', path: `${path}.id`, shotId, message: `Shot ${shotId} appears more than once.` });
+      return;
+    }
+    const descIssues = validateLocalized(shot.description, `${path}.description`, languages).map(issue => ({ ...issue, shotId }));
+    const slot = {
+      id: shotId,
+      description: descIssues.length === 0 ? shot.description as LocalizedText : partialText(shot.description, languages),
+      ...(isRecord(shot.marks) ? { marks: shot.marks as TextMarks } : {}),
+      ...scriptFields(shot)
+    };
+    if (descIssues.length > 0) {
+      issues.push(...descIssues);
+      partialShots[shotId - 1] = slot;
+      return;
+    }
+    shotSlots[shotId - 1] = slot;
+  });
+
+  const missingShotIds: number[] = [];
+  const shots = shotSlots.map((shot, i) => {
+    if (shot) return shot;
+    missingShotIds.push(i + 1);
+    issues.push({ code: 'missing_shot', path: `shots[${i}]`, shotId: i + 1, message: `Shot ${i + 1} is missing or malformed.` });
+    return partialShots[i] || { id: i + 1, description: emptyText(languages) };
+  });
+
+  // Transitions, slotted by fromShot so the chain has no gaps
+  const transitionSlots: (TransitionResult | undefined)[] = new Array(Math.max(numShots - 1, 0)).fill(undefined);
+  const partialTransitions: (TransitionResult | undefined)[] = new Array(Math.max(numShots - 1, 0)).fill(undefined);
+  const rawTransitions = Array.isArray(root.transitions) ? root.transitions : [];
+  if (!Array.isArray(root.transitions)) {
+    issues.push({ code: 'invalid_type', path: 'transitions', message: 'transitions must be an array.' });
+  }
+  rawTransitions.forEach((transition, i) => {
+    const path = `transitions[${i}]`;
+    const transitionIssues = validateTransitionResult(transition, path, numShots, languages);
+    if (transitionIssues.length > 0) {
+      issues.push(...transitionIssues);
+      if (transitionIssues.every(issue => issue.code === 'missing_text')) {
+        const partial = transition as TransitionResult;
+        partialTransitions[partial.fromShot - 1] = { ...partial, prompt: partialText(partial.prompt, languages) };
+      }
+      return;
+    }
+    const valid = transition as TransitionResult;
+    if (transitionSlots[valid.fromShot - 1]) {
+      issues.push({ code: 'duplicate_transition', path, fromShot: valid.fromShot, message: `Transition ${valid.fromShot}->${valid.toShot} appears more than once.` });
+      return;
+    }
+    transitionSlots[valid.fromShot - 1] = valid;
+  });
+
+  const missingTransitions: number[] = [];
+  const transitions = transitionSlots.map((transition, i) => {
+    if (transition) return transition;
+    missingTransitions.push(i + 1);
+    issues.push({ code: 'missing_transition', path: `transitions[${i}]`, fromShot: i + 1, message: `Transition ${i + 1}->${i + 2} is missing or malformed.` });
+    return partialTransitions[i] || { fromShot: i + 1, toShot: i + 2, prompt: emptyText(languages) };
+  });
+
+  return {
+    // Hand-edit marks are ours, not the model's; keep them when re-validating a saved result
+    normalized: {
+      scenePrompt,
+      shots,
+      transitions,
+      ...(isRecord(root.sceneMarks) ? { sceneMarks: root.sceneMarks as TextMarks } : {})
+    },
+    issues,
+    sceneMissing: sceneIssues.length > 0,
+    missingShotIds,
+    missingTransitions
+  };
+};
@@ -1,60 +1,542 @@
+// Languages for generated text and for the interface. 'cn' is Simplified
+// Chinese; the code predates the other locales and is kept so saved data stays valid.
+export type LocaleCode = 'en' | 'cn' | 'ja' | 'ko' | 'es';
 
-export enum ShotSize {
+export const LOCALE_CODES: LocaleCode[] = ['en', 'cn', 'ja', 'ko', 'es'];
+
+export const LocaleLabels: Record<LocaleCode, { native: string; english: string }> = {
+  en: { native: "English", english: "English" },
+  cn: { native: "中文", english: "Simplified Chinese" },
+  ja: { native: "日本語", english: "Japanese" },
+  ko: { native: "한국어", english: "Korean" },
+  es: { native: "Español", english: "Spanish" }
+};
+
+// Generated text in each output language of a project. English is always
+// present: prompts sent to the model are written from it. See utils/locale.ts.
+export type LocalizedText = { en: string } & { [locale in Exclude<LocaleCode, 'en'>]?: string };
+
+// A fixed label, translated into every locale
+export type LocaleLabel = Record<LocaleCode, string>;
+
+
+export enum ShotFraming {
   ExtremeWide = "Extreme Wide Shot",
   Wide = "Wide Shot",
   Full = "Full Shot",
   Medium = "Medium Shot",
+  MediumCloseUp = "Medium Close-up",
   CloseUp = "Close-up",
-  ExtremeCloseUp = "Extreme Close-up",
+  ExtremeCloseUp = "Extreme Close-up"
+}
+
+export const ShotFramingLabels: Record<ShotFraming, LocaleLabel> = {
+  [ShotFraming.ExtremeWide]: { en: "Extreme Wide Shot", cn: "大远景", ja: "超ロングショット", ko: "익스트림 와이드 샷", es: "Plano general extremo" },
+  [ShotFraming.Wide]: { en: "Wide Shot", cn: "全景", ja: "ロングショット", ko: "와이드 샷", es: "Plano general" },
+  [ShotFraming.Full]: { en: "Full Shot", cn: "全身镜头", ja: "フルショット", ko: "풀 샷", es: "Plano entero" },
+  [ShotFraming.Medium]: { en: "Medium Shot", cn: "中景", ja: "ミディアムショット", ko: "미디엄 샷", es: "Plano medio" },
+  [ShotFraming.MediumCloseUp]: { en: "Medium Close-up", cn: "中近景", ja: "ミディアムクローズアップ", ko: "미디엄 클로즈업", es: "Plano medio corto" },
+  [ShotFraming.CloseUp]: { en: "Close-up", cn: "特写", ja: "クローズアップ", ko: "클로즈업", es: "Primer plano" },
+  [ShotFraming.ExtremeCloseUp]: { en: "Extreme Close-up", cn: "大特写", ja: "超クローズアップ", ko: "익스트림 클로즈업", es: "Primerísimo primer plano" }
+};
+
+// Camera height and viewpoint relative to the subject
+export enum CameraAngle {
+  EyeLevel = "Eye Level",
   LowAngle = "Low Angle",
   HighAngle = "High Angle",
+  BirdEye = "Bird's Eye View",
+  Dutch = "Dutch Angle",
   OverTheShoulder = "Over the Shoulder",
-  PointOfView = "POV",
-  BirdEye = "Bird's Eye View"
-}
-
-export const ShotSizeLabels: Record<ShotSize, { en: string; cn: string }> = {
-  [ShotSize.ExtremeWide]: { en: "Extreme Wide Shot", cn: "大远景" },
-  [ShotSize.Wide]: { en: "Wide Shot", cn: "全景" },
-  [ShotSize.Full]: { en: "Full Shot", cn: "全身镜头" },
-  [ShotSize.Medium]: { en: "Medium Shot", cn: "中景" },
-  [ShotSize.CloseUp]: { en: "Close-up", cn: "特写" },
-  [ShotSize.ExtremeCloseUp]: { en: "Extreme Close-up", cn: "大特写" },
-  [ShotSize.LowAngle]: { en: "Low Angle", cn: "仰拍" },
-  [ShotSize.HighAngle]: { en: "High Angle", cn: "俯拍" },
-  [ShotSize.OverTheShoulder]: { en: "Over the Shoulder", cn: "过肩镜头" },
-  [ShotSize.PointOfView]: { en: "POV", cn: "主观视角" },
-  [ShotSize.BirdEye]: { en: "Bird's Eye View", cn: "鸟瞰图" }
+  PointOfView = "POV"
+}
+
+export const CameraAngleLabels: Record<CameraAngle, LocaleLabel> = {
+  [CameraAngle.EyeLevel]: { en: "Eye Level", cn: "平视", ja: "アイレベル", ko: "아이 레벨", es: "A la altura de los ojos" },
+  [CameraAngle.LowAngle]: { en: "Low Angle", cn: "仰拍", ja: "ローアングル", ko: "로우 앵글", es: "Contrapicado" },
+  [CameraAngle.HighAngle]: { en: "High Angle", cn: "俯拍", ja: "ハイアングル", ko: "하이 앵글", es: "Picado" },
+  [CameraAngle.BirdEye]: { en: "Bird's Eye View", cn: "鸟瞰图", ja: "俯瞰", ko: "버즈 아이 뷰", es: "Cenital" },
+  [CameraAngle.Dutch]: { en: "Dutch Angle", cn: "倾斜镜头", ja: "ダッチアングル", ko: "더치 앵글", es: "Plano holandés" },
+  [CameraAngle.OverTheShoulder]: { en: "Over the Shoulder", cn: "过肩镜头", ja: "肩越しショット", ko: "오버 더 숄더", es: "Sobre el hombro" },
+  [CameraAngle.PointOfView]: { en: "POV", cn: "主观视角", ja: "主観ショット", ko: "POV", es: "Plano subjetivo" }
+};
+
+// Focal length on a full-frame camera
+export enum Lens {
+  UltraWide = "14mm",
+  Wide = "24mm",
+  Standard = "35mm",
+  Normal = "50mm",
+  Portrait = "85mm",
+  Telephoto = "135mm",
+  Macro = "100mm Macro"
+}
+
+export const LensLabels: Record<Lens, LocaleLabel> = {
+  [Lens.UltraWide]: { en: "14mm Ultra-wide", cn: "14mm 超广角", ja: "14mm 超広角", ko: "14mm 초광각", es: "14mm ultra gran angular" },
+  [Lens.Wide]: { en: "24mm Wide", cn: "24mm 广角", ja: "24mm 広角", ko: "24mm 광각", es: "24mm gran angular" },
+  [Lens.Standard]: { en: "35mm Standard", cn: "35mm 标准", ja: "35mm 標準", ko: "35mm 표준", es: "35mm estándar" },
+  [Lens.Normal]: { en: "50mm Normal", cn: "50mm 人眼视角", ja: "50mm ノーマル", ko: "50mm 표준 시야", es: "50mm normal" },
+  [Lens.Portrait]: { en: "85mm Portrait", cn: "85mm 人像", ja: "85mm ポートレート", ko: "85mm 인물", es: "85mm retrato" },
+  [Lens.Telephoto]: { en: "135mm Telephoto", cn: "135mm 长焦", ja: "135mm 望遠", ko: "135mm 망원", es: "135mm teleobjetivo" },
+  [Lens.Macro]: { en: "100mm Macro", cn: "100mm 微距", ja: "100mm マクロ", ko: "100mm 매크로", es: "100mm macro" }
+};
+
+export enum CameraMovement {
+  Static = "Static",
+  Pan = "Pan",
+  Tilt = "Tilt",
+  DollyIn = "Dolly In",
+  DollyOut = "Dolly Out",
+  Tracking = "Tracking",
+  Crane = "Crane",
+  Handheld = "Handheld",
+  Zoom = "Zoom"
+}
+
+export const CameraMovementLabels: Record<CameraMovement, LocaleLabel> = {
+  [CameraMovement.Static]: { en: "Static", cn: "固定机位", ja: "固定", ko: "고정", es: "Fijo" },
+  [CameraMovement.Pan]: { en: "Pan", cn: "摇镜", ja: "パン", ko: "팬", es: "Paneo" },
+  [CameraMovement.Tilt]: { en: "Tilt", cn: "俯仰摇", ja: "ティルト", ko: "틸트", es: "Tilt" },
+  [CameraMovement.DollyIn]: { en: "Dolly In", cn: "推镜", ja: "ドリーイン", ko: "돌리 인", es: "Travelling de acercamiento" },
+  [CameraMovement.DollyOut]: { en: "Dolly Out", cn: "拉镜", ja: "ドリーアウト", ko: "돌리 아웃", es: "Travelling de alejamiento" },
+  [CameraMovement.Tracking]: { en: "Tracking", cn: "跟拍", ja: "トラッキング", ko: "트래킹", es: "Seguimiento" },
+  [CameraMovement.Crane]: { en: "Crane", cn: "升降镜头", ja: "クレーン", ko: "크레인", es: "Grúa" },
+  [CameraMovement.Handheld]: { en: "Handheld", cn: "手持", ja: "手持ち", ko: "핸드헬드", es: "Cámara en mano" },
+  [CameraMovement.Zoom]: { en: "Zoom", cn: "变焦", ja: "ズーム", ko: "줌", es: "Zoom" }
 };
 
-export type GridLayout = '3x3' | '2x2';
+// Everything the director specifies for one shot. See utils/shotSpec.ts.
+export interface ShotSpec {
+  framing: ShotFraming;
+  angle: CameraAngle;
+  lens: Lens;
+  movement: CameraMovement;
+  // Seconds; omitted when the shot has no planned length
+  duration?: number;
+}
+
+// "<rows>x<columns>", e.g. '3x3', '2x3' or '1x5'. Use utils/grid.ts to read it.
+export type GridLayout = `${number}x${number}`;
 export type AspectRatio = '16:9' | '9:16' | '4:3' | '3:4' | '1:1';
 
+export const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '4:3', '3:4', '1:1'];
+
+// A named shot plan that can be applied to any scene. See services/shotPresets.ts.
+export interface ShotPreset {
+  id: string;
+  // Built-ins are named in every interface language; saved presets in the one they were typed in
+  name: LocalizedText;
+  // Built-ins ship with the app and can't be deleted
+  builtIn: boolean;
+  // Layout the sequence was written for; other layouts get an adapted copy
+  layout: GridLayout;
+  shots: ShotSpec[];
+}
+
+// A look applied to everything written for a scene: the analysis, shot rewrites
+// and the final image prompt. See services/stylePresets.ts.
+export interface VisualStyle {
+  id: string;
+  // Built-ins are named in English and Chinese; other languages show the English name
+  name: LocalizedText;
+  // Built-ins can be copied, but not edited or deleted
+  builtIn: boolean;
+  // The fields below are English prompt text; empty ones are left out
+  palette: string;
+  lighting: string;
+  // Film stock or sensor, and lens character
+  filmStock: string;
+  era: string;
+}
+
+// Hand-edit state of a localized text
+export interface TextMarks {
+  edited?: boolean;
+  // Language edited by hand whose translation hasn't been updated yet
+  pendingSync?: LocaleCode;
+}
+
 export interface TransitionResult {
   fromShot: number;
   toShot: number;
-  prompt: {
-    en: string;
-    cn: string;
-  };
+  prompt: LocalizedText;
+  // Set when a shot it connects changed after the prompt was written
+  stale?: boolean;
+  marks?: TextMarks;
 }
 
 export interface StoryboardResult {
-  scenePrompt: {
-    en: string;
-    cn: string;
-  };
+  scenePrompt: LocalizedText;
   shots: {
     id: number;
-    description: {
-      en: string;
-      cn: string;
-    };
+    description: LocalizedText;
+    marks?: TextMarks;
+    // Set when the scene was planned from a script: the line spoken in the
+    // shot (with its speaker), the action it covers and the framing the model
+    // suggests for that beat. Kept verbatim in the script's language.
+    dialogue?: string;
+    action?: string;
+    framing?: ShotFraming;
   }[];
   transitions: TransitionResult[];
+  sceneMarks?: TextMarks;
+}
+
+export type AssetKind = 'character' | 'outfit' | 'location' | 'prop' | 'style';
+
+export const AssetKindLabels: Record<AssetKind, LocaleLabel> = {
+  character: { en: "Character", cn: "角色", ja: "キャラクター", ko: "캐릭터", es: "Personaje" },
+  outfit: { en: "Outfit", cn: "服装", ja: "衣装", ko: "의상", es: "Vestuario" },
+  location: { en: "Location", cn: "场景", ja: "ロケーション", ko: "장소", es: "Localización" },
+  prop: { en: "Prop", cn: "道具", ja: "小道具", ko: "소품", es: "Utilería" },
+  style: { en: "Style Reference", cn: "风格参考", ja: "スタイル参照", ko: "스타일 참고", es: "Referencia de estilo" }
+};
+
+// A named entity from the character & asset bible. Bible entries live in a
+// shared library so the same character can be reused across storyboards.
+export interface BibleAsset {
+  id: string;
+  kind: AssetKind;
+  name: string;
+  // Canonical wording sent to the model verbatim, so details don't drift between shots
+  description: string;
+  images: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One scene of a sequence: its references, shot plan and generated result
+export interface StoryboardScene {
+  id: string;
+  name: string;
+  images: string[];
+  selectedShots: ShotSpec[];
+  layout: GridLayout;
+  aspectRatio: AspectRatio;
+  result: StoryboardResult | null;
+  // Provider/model that produced `result`
+  generatedBy?: GeneratorInfo;
+  // Bible entries used in this scene, and per shot which of them appear
+  assetIds: string[];
+  shotAssets: string[][];
+  // Per grid cell, every description the shot has had, oldest first
+  shotHistory: ShotVersion[][];
+  // Per shot, its panel cut from the rendered grid image as a data URL; '' when none
+  frames: string[];
+  // Look of the scene, copied from a style preset; null for none
+  style: VisualStyle | null;
+  // Scene text to plan the shots from, as prose or Fountain; '' for none
+  script: string;
+}
+
+// Where the panels sit in a rendered grid image, in pixels of that image.
+// See services/gridFrames.ts.
+export interface GridSlice {
+  // Border around the whole grid
+  margin: number;
+  // Gap between neighbouring panels
+  gutter: number;
+}
+
+export type ShotVersionSource = 'generated' | 'regenerated' | 'edited';
+
+export interface ShotVersion {
+  description: LocalizedText;
+  // Camera settings the description was written for
+  spec: ShotSpec;
+  source: ShotVersionSource;
+  createdAt: number;
+}
+
+// Video transition from the last shot of one scene to the first shot of the next
+export interface SceneTransition {
+  fromSceneId: string;
+  toSceneId: string;
+  prompt: LocalizedText;
+}
+
+// Everything needed to restore a storyboard session
+export interface StoryboardProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Ordered; a single-scene project is just a sequence of one
+  scenes: StoryboardScene[];
+  sceneTransitions: SceneTransition[];
+  // Languages every generated text is written in, English first
+  languages: LocaleCode[];
+  // Tokens spent on this project, one entry per model
+  usage: UsageEntry[];
+}
+
+// Previous scene details passed to generation so consecutive scenes stay consistent
+export interface ContinuityContext {
+  previousScenePrompt: LocalizedText;
+  previousLastShot: LocalizedText;
+}
+
+// One side of a cross-scene cut
+export interface SceneTransitionEndpoint {
+  scenePrompt: LocalizedText;
+  shot: LocalizedText;
+  spec: ShotSpec;
+}
+
+// One side of a shot-to-shot transition within a scene
+export interface TransitionShot {
+  id: number;
+  description: LocalizedText;
+  spec: ShotSpec;
+}
+
+export interface GeneratorInfo {
+  provider: ProviderId;
+  model: string;
+}
+
+// A generated storyboard kept for reuse, keyed by a hash of everything that
+// went into it. See services/resultCache.ts.
+export interface CachedResult {
+  id: string;
+  result: StoryboardResult;
+  generator: GeneratorInfo;
+  layout: GridLayout;
+  createdAt: number;
+  // Approximate bytes the entry takes up
+  size: number;
+}
+
+// Tokens reported by one model response
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Running totals for one model. See services/usage.ts.
+export interface UsageEntry {
+  provider: ProviderId;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerationProgress {
+  phase: 'scene' | 'shots' | 'transitions' | 'repair';
+  completed: number;
+  total: number;
 }
 
 export interface AnalysisStatus {
-  step: 'idle' | 'analyzing' | 'generating' | 'completed' | 'error';
+  // 'analyzing' waits for the first tokens, 'generating' is streaming them in;
+  // 'partial' means a result was produced but some shots/transitions are still missing
+  step: 'idle' | 'analyzing' | 'generating' | 'completed' | 'partial' | 'error';
+  message: string;
+  progress?: GenerationProgress;
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  // Called with the best-effort parse of the response so far while it streams
+  onPartial?: (partial: unknown) => void;
+}
+
+export type ValidationIssueCode =
+  | 'invalid_type'
+  | 'missing_text'
+  | 'shot_count'
+  | 'invalid_shot_id'
+  | 'duplicate_shot'
+  | 'missing_shot'
+  | 'invalid_transition'
+  | 'duplicate_transition'
+  | 'missing_transition';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  // JSON path of the offending value, e.g. "shots[3].description.cn"
+  path: string;
   message: string;
+  shotId?: number;
+  // For transition issues, the shot the transition starts from
+  fromShot?: number;
+}
+
+export interface StoryboardValidation {
+  // Result reshaped to the expected layout; missing entries have empty text
+  normalized: StoryboardResult;
+  issues: ValidationIssue[];
+  sceneMissing: boolean;
+  missingShotIds: number[];
+  missingTransitions: number[];
+}
+
+// Everything the analysis step needs to plan a scene
+export interface StoryboardRequest {
+  // Untagged references, sent after the bible images
+  images: string[];
+  selectedShots: ShotSpec[];
+  layout: GridLayout;
+  aspectRatio: AspectRatio;
+  // Output languages of the project, English first
+  languages: LocaleCode[];
+  continuity?: ContinuityContext;
+  assets?: BibleAsset[];
+  shotAssets?: string[][];
+  style?: VisualStyle | null;
+  // Prose or a Fountain scene; with it, references are optional
+  script?: string;
+}
+
+export interface StoryboardRepairRequest {
+  partial: StoryboardResult;
+  assets?: BibleAsset[];
+  selectedShots: ShotSpec[];
+  aspectRatio: AspectRatio;
+  languages: LocaleCode[];
+  repairScene: boolean;
+  shotIds: number[];
+  // fromShot of each transition to re-request
+  transitionFromShots: number[];
+  script?: string;
+}
+
+// What a consistency review scores each rendered shot on. See services/review.ts.
+export type ReviewAspect = 'character' | 'costume' | 'lighting' | 'framing';
+
+export const REVIEW_ASPECTS: ReviewAspect[] = ['character', 'costume', 'lighting', 'framing'];
+
+export interface ShotReview {
+  shotId: number;
+  // 1 (broken) to 10 (matches the references and the camera direction)
+  scores: Record<ReviewAspect, number>;
+  // Concrete problems seen in the rendered shot, in English
+  issues: string[];
+  // Correction to apply when the shot's description is rewritten; empty when none is needed
+  fix: string;
+}
+
+export interface ConsistencyReview {
+  shots: ShotReview[];
+  summary: string;
+  createdAt: number;
+}
+
+// A rendered storyboard sent back to the model to check it against its inputs
+export interface ConsistencyReviewRequest {
+  // The whole grid image as one data URL, or the sliced frames by shot ('' when missing)
+  rendered: { kind: 'grid'; image: string } | { kind: 'frames'; frames: string[] };
+  result: StoryboardResult;
+  images: string[];
+  assets?: BibleAsset[];
+  selectedShots: ShotSpec[];
+  layout: GridLayout;
+  aspectRatio: AspectRatio;
+}
+
+export type ProviderId = 'server' | 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface ProviderConfig {
+  // Model used for the full storyboard analysis (images + reasoning)
+  model: string;
+  // Cheaper model used for single-shot rewrites
+  fastModel: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  configs: Record<ProviderId, ProviderConfig>;
+  // A request with no response for this long is aborted and retried
+  timeoutSeconds: number;
+  // Retries of rate-limited, timed-out or otherwise transient failures
+  maxRetries: number;
+}
+
+// Why a model request failed. See services/errors.ts.
+export type ProviderErrorKind = 'auth' | 'quota' | 'safety' | 'timeout' | 'malformed' | 'network' | 'unknown';
+
+// Output syntax for one image generator. Placeholders like {{scene}} are
+// resolved by services/promptTemplates.ts.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // Built-in targets can be edited and reset, but not deleted
+  builtIn: boolean;
+  // Per output language; languages without their own template use the English one
+  template: LocalizedText;
+  // Comma-separated terms to avoid; shown separately unless the template uses {{negative}}
+  negative: string;
+  // Character limit of the target; longer prompts are trimmed
+  maxLength?: number;
+}
+
+export interface PromptTemplateSettings {
+  target: string;
+  templates: PromptTemplate[];
+}
+
+// How uploaded reference images are prepared. See services/referenceImages.ts.
+export interface ImageSettings {
+  // Longest side in pixels; larger images are downscaled
+  maxDimension: number;
+  // JPEG quality of re-encoded images, 0-1
+  quality: number;
+  // Uploads larger than this are refused before decoding
+  maxFileMb: number;
+  // References per scene, and images per bible entry
+  maxImages: number;
+}
+
+export type ImageWarningCode = 'unsupported' | 'too_large' | 'duplicate' | 'limit';
+
+// An upload that was refused, with the name of its file
+export interface ImageWarning {
+  code: ImageWarningCode;
+  file: string;
+}
+
+export interface StoryboardProvider {
+  analyzeAndGenerate(request: StoryboardRequest, options?: GenerationOptions): Promise<StoryboardResult>;
+
+  // `assets` are the bible entries that appear in this shot; `fix` is a
+  // correction from a consistency review to work into the new description;
+  // `style` is the look of the scene
+  regenerateShot(
+    scenePrompt: LocalizedText,
+    shotId: number,
+    spec: ShotSpec,
+    languages: LocaleCode[],
+    assets?: BibleAsset[],
+    fix?: string,
+    style?: VisualStyle | null
+  ): Promise<LocalizedText>;
+
+  // Prompt for the move from one shot of a scene to the next
+  regenerateTransition(
+    scenePrompt: LocalizedText,
+    from: TransitionShot,
+    to: TransitionShot,
+    languages: LocaleCode[]
+  ): Promise<LocalizedText>;
+
+  // Re-translates a hand-edited text into every other language; `from` is the one that was edited
+  translate(text: string, from: LocaleCode, languages: LocaleCode[]): Promise<LocalizedText>;
+
+  // Prompt for the cut from the last shot of one scene to the first shot of the next
+  generateSceneTransition(
+    from: SceneTransitionEndpoint,
+    to: SceneTransitionEndpoint,
+    languages: LocaleCode[]
+  ): Promise<LocalizedText>;
+
+  // Re-requests only the listed shots/transitions (and the scene prompt if flagged)
+  repairStoryboard(request: StoryboardRepairRequest, options?: GenerationOptions): Promise<Partial<StoryboardResult>>;
+
+  // Scores the rendered shots against the references; raw model output, see services/review.ts
+  reviewConsistency(request: ConsistencyReviewRequest, options?: GenerationOptions): Promise<unknown>;
 }
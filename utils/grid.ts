@@ -0,0 +1,99 @@
+import { GridLayout, ShotSpec } from "../types";
+import { createShotSpec } from "./shotSpec";
+
+// Single source of truth for grid dimensions and shot counts.
+
+export const MAX_GRID_DIMENSION = 8;
+export const DEFAULT_LAYOUT: GridLayout = '3x3';
+
+export interface GridDimensions {
+  rows: number;
+  columns: number;
+}
+
+export const LAYOUT_PRESETS: { layout: GridLayout; label: string }[] = [
+  { layout: '3x3', label: '3x3 Classic' },
+  { layout: '2x2', label: '2x2 Quad' },
+  { layout: '1x3', label: '1x3 Triptych' },
+  { layout: '2x3', label: '2x3 Sheet' },
+  { layout: '3x2', label: '3x2 Sheet' },
+  { layout: '4x4', label: '4x4 Contact Sheet' },
+  { layout: '1x4', label: '1x4 Comic Strip' },
+  { layout: '1x5', label: '1x5 Comic Strip' }
+];
+
+export const formatLayout = (rows: number, columns: number): GridLayout => `${rows}x${columns}`;
+
+export const isValidLayout = (value: unknown): value is GridLayout => {
+  if (typeof value !== 'string') return false;
+  const match = value.match(/^(\d+)x(\d+)$/);
+  if (!match) return false;
+  const rows = Number(match[1]);
+  const columns = Number(match[2]);
+  return rows >= 1 && columns >= 1 && rows <= MAX_GRID_DIMENSION && columns <= MAX_GRID_DIMENSION;
+};
+
+export const parseLayout = (layout: GridLayout): GridDimensions => {
+  const [rows, columns] = layout.split('x').map(Number);
+  return { rows: rows || 1, columns: columns || 1 };
+};
+
+export const getShotCount = (layout: GridLayout): number => {
+  const { rows, columns } = parseLayout(layout);
+  return rows * columns;
+};
+
+// Layout with exactly `count` cells, as close in shape to `current` as possible;
+// null when no grid within MAX_GRID_DIMENSION holds that many
+export const layoutForCount = (count: number, current: GridLayout): GridLayout | null => {
+  const { rows, columns } = parseLayout(current);
+  let best: GridLayout | null = null;
+  let bestDistance = Infinity;
+  for (let r = 1; r <= MAX_GRID_DIMENSION; r++) {
+    const c = count / r;
+    if (!Number.isInteger(c) || c < 1 || c > MAX_GRID_DIMENSION) continue;
+    const distance = Math.abs(r - rows) + Math.abs(c - columns);
+    if (distance < bestDistance) {
+      best = formatLayout(r, c);
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Grow (padding with `fill()`) or trim any per-shot array to match a layout
+export const resizeToLayout = <T>(items: T[], layout: GridLayout, fill: () => T): T[] => {
+  const targetCount = getShotCount(layout);
+  if (items.length === targetCount) return items;
+  if (items.length > targetCount) return items.slice(0, targetCount);
+  return [...items, ...Array.from({ length: targetCount - items.length }, fill)];
+};
+
+export const resizeShots = (shots: ShotSpec[], layout: GridLayout): ShotSpec[] =>
+  resizeToLayout(shots, layout, () => createShotSpec());
+
+// Tailwind only ships classes it can see in source, so list them statically
+const GRID_COLUMN_CLASSES: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+  6: 'grid-cols-6',
+  7: 'grid-cols-7',
+  8: 'grid-cols-8'
+};
+
+// Result cards hold paragraphs of text, so wider grids wrap after four columns
+const RESULT_GRID_CLASSES: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3',
+  4: 'grid-cols-1 md:grid-cols-2 lg:grid-cols-4'
+};
+
+export const gridColumnsClass = (columns: number): string =>
+  GRID_COLUMN_CLASSES[Math.min(Math.max(columns, 1), MAX_GRID_DIMENSION)];
+
+export const resultGridClass = (columns: number): string =>
+  RESULT_GRID_CLASSES[Math.min(Math.max(columns, 1), 4)];
@@ -0,0 +1,130 @@
+// Reads an uploaded file into a base64 data URL
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// EXIF orientation (1-8) of a JPEG, 1 when absent. Only the first 64 KB are
+// read: the APP1 segment holding EXIF sits at the start of the file.
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 64 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Start of scan: image data follows, no more metadata
+    if (marker === 0xFFDA) return 1;
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Orientations 5-8 are rotated a quarter turn, so width and height swap
+const isQuarterTurn = (orientation: number) => orientation >= 5;
+
+// Canvas transform that undoes an EXIF orientation for an image drawn at width x height
+const orientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+// Decodes without applying EXIF rotation, so orientation is handled the same
+// way in every browser by drawUpright
+export const decodeImage = (source: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(source, { imageOrientation: 'none' });
+
+// Draws an image upright, scaled so its longest side is at most maxDimension.
+// Transparent areas become white, since the result is encoded as JPEG.
+export const drawUpright = (image: ImageBitmap, orientation: number, maxDimension: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = isQuarterTurn(orientation) ? height : width;
+  canvas.height = isQuarterTurn(orientation) ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is unavailable');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.transform(...orientationTransform(orientation, width, height));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvas;
+};
+
+// Difference hash: 64 bits, one per horizontally adjacent pixel pair of a
+// 9x8 grayscale thumbnail, as 16 hex digits. Near-identical images (resized,
+// recompressed, slightly recoloured) differ in only a few bits.
+export const computeImageHash = (source: CanvasImageSource): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context is unavailable');
+  ctx.drawImage(source, 0, 0, 9, 8);
+  const { data } = ctx.getImageData(0, 0, 9, 8);
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let nibble = 0;
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+};
+
+// Number of differing bits between two hashes from computeImageHash
+export const hashDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+};
+
+export const canvasToDataUrl = (canvas: HTMLCanvasElement, quality: number): string =>
+  canvas.toDataURL('image/jpeg', quality);
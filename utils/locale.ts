@@ -0,0 +1,35 @@
+import { LocaleCode, LocalizedText, LOCALE_CODES, LocaleLabels } from "../types";
+
+// Helpers for LocalizedText and the per-project set of output languages.
+
+export const DEFAULT_LANGUAGES: LocaleCode[] = ['en', 'cn'];
+
+export const isLocaleCode = (value: unknown): value is LocaleCode =>
+  typeof value === 'string' && (LOCALE_CODES as string[]).includes(value);
+
+// Valid, unique, in catalog order, always including English
+export const normalizeLanguages = (value: unknown): LocaleCode[] => {
+  const requested = Array.isArray(value) ? value.filter(isLocaleCode) : DEFAULT_LANGUAGES;
+  return LOCALE_CODES.filter(code => code === 'en' || requested.includes(code));
+};
+
+// Text in `locale`, falling back to English when that language wasn't generated
+export const textIn = (text: LocalizedText, locale: LocaleCode): string => text[locale] || text.en;
+
+export const emptyText = (languages: LocaleCode[]): LocalizedText =>
+  Object.fromEntries(languages.map(code => [code, ''])) as LocalizedText;
+
+// "English, Simplified Chinese and Japanese", for prompts
+export const describeLanguages = (languages: LocaleCode[]): string => {
+  const names = languages.map(code => LocaleLabels[code].english);
+  return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
+// `current` with its empty languages filled in from `patch`; text already there is kept
+export const fillText = (current: LocalizedText, patch: LocalizedText): LocalizedText => {
+  const merged = { ...patch } as Record<string, string>;
+  Object.entries(current).forEach(([lang, content]) => {
+    if (typeof content === 'string' && content.trim()) merged[lang] = content;
+  });
+  return merged as LocalizedText;
+};
@@ -0,0 +1,37 @@
+// Best-effort parse of a JSON document that is still streaming in.
+// The text is cut right after the last fully closed object/array and the
+// containers still open at that point are closed, so only complete entries
+// (a whole shot, a whole transition) ever show up in the result.
+export const parsePartialJson = (text: string): unknown => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let cut = -1;
+  let stackAtCut = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      cut = i + 1;
+      stackAtCut = stack.slice().reverse().join('');
+    }
+  }
+
+  if (cut === -1) return undefined;
+  try {
+    return JSON.parse(text.slice(0, cut) + stackAtCut);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,121 @@
+// Reads scene text typed or pasted by a writer: either plain prose or a
+// Fountain screenplay scene (https://fountain.io). Only the parts that matter
+// for planning shots are kept; notes, sections, synopses and the title page
+// are dropped.
+
+export type ScriptFormat = 'fountain' | 'prose';
+
+export interface ScriptBeat {
+  kind: 'heading' | 'action' | 'dialogue' | 'transition';
+  text: string;
+  // Dialogue only: the speaker, and stage directions such as "(quietly)"
+  character?: string;
+  parenthetical?: string;
+}
+
+export interface ParsedScript {
+  format: ScriptFormat;
+  beats: ScriptBeat[];
+}
+
+const SCENE_HEADING = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const TRANSITION = /^[A-Z\s]+TO:$/;
+const TITLE_PAGE_KEY = /^(Title|Credit|Author|Authors|Source|Draft date|Date|Contact|Copyright|Notes):/i;
+
+// A character cue is an upper-case line, optionally with an extension such as
+// (V.O.) and a trailing ^ for dual dialogue, or any line forced with @
+const isCharacterCue = (line: string) => {
+  if (line.startsWith('@')) return true;
+  const name = line.replace(/\s*\(.*\)\s*\^?$/, '').replace(/\^$/, '');
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/[.!?:]$/.test(name);
+};
+
+const cleanCharacter = (line: string) => line
+  .replace(/^@/, '')
+  .replace(/\s*\^$/, '')
+  .replace(/\s*\(CONT['’]D\)/i, '')
+  .trim();
+
+const joinLines = (lines: string[]) => lines.map(line => line.trim()).filter(Boolean).join(' ');
+
+const parseFountainBlock = (lines: string[]): ScriptBeat[] => {
+  const first = lines[0].trim();
+  // Sections, synopses and page breaks only structure the document
+  if (first.startsWith('#') || first.startsWith('=')) return [];
+  if ((first.startsWith('.') && !first.startsWith('..')) || SCENE_HEADING.test(first)) {
+    const rest = joinLines(lines.slice(1));
+    return [
+      { kind: 'heading', text: first.replace(/^\./, '').trim() },
+      ...(rest ? [{ kind: 'action' as const, text: rest }] : [])
+    ];
+  }
+  if (lines.length === 1 && ((first.startsWith('>') && !first.endsWith('<')) || TRANSITION.test(first))) {
+    return [{ kind: 'transition', text: first.replace(/^>/, '').trim() }];
+  }
+  if (lines.length > 1 && !first.startsWith('!') && isCharacterCue(first)) {
+    const body = lines.slice(1).map(line => line.trim());
+    const parenthetical = body.filter(line => /^\(.*\)$/.test(line)).join(' ');
+    return [{
+      kind: 'dialogue',
+      character: cleanCharacter(first),
+      text: joinLines(body.filter(line => !/^\(.*\)$/.test(line))),
+      ...(parenthetical ? { parenthetical } : {})
+    }];
+  }
+  // Action, including forced (!) and centered (> <) lines
+  const text = joinLines(lines.map(line => line.trim().replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1')));
+  return text ? [{ kind: 'action', text }] : [];
+};
+
+// One beat per paragraph; a single paragraph is split into sentences so there
+// is more than one moment to spread over the shots
+const parseProse = (blocks: string[][]): ScriptBeat[] => {
+  const paragraphs = blocks.map(joinLines).filter(Boolean);
+  const pieces = paragraphs.length === 1
+    ? paragraphs[0].match(/[^.!?。！？]+[.!?。！？]+["”’)]*|[^.!?。！？]+$/g)?.map(piece => piece.trim()).filter(Boolean) || paragraphs
+    : paragraphs;
+  return pieces.map(text => ({ kind: 'action', text }));
+};
+
+export const parseScript = (source: string): ParsedScript => {
+  let text = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\[\[[\s\S]*?\]\]/g, '');
+  // A title page runs up to the first blank line
+  if (TITLE_PAGE_KEY.test(text.trimStart())) {
+    const end = text.trimStart().search(/\n\s*\n/);
+    text = end === -1 ? '' : text.trimStart().slice(end);
+  }
+
+  const blocks = text
+    .split(/\n\s*\n/)
+    .map(block => block.split('\n').filter(line => line.trim()))
+    .filter(block => block.length > 0);
+  const beats = blocks.flatMap(parseFountainBlock);
+  // Without a heading or dialogue there is no sign of screenplay formatting
+  if (beats.some(beat => beat.kind === 'heading' || beat.kind === 'dialogue')) {
+    return { format: 'fountain', beats };
+  }
+  return { format: 'prose', beats: parseProse(blocks) };
+};
+
+// One line per beat, as shown to the model and kept on a shot
+export const formatBeat = (beat: ScriptBeat): string => {
+  if (beat.kind !== 'dialogue') return beat.text;
+  return `${beat.character}${beat.parenthetical ? ` ${beat.parenthetical}` : ''}: ${beat.text}`;
+};
+
+// The beats each of `numShots` shots covers, in order. Extra beats are
+// grouped onto the same shot; with fewer beats than shots, a beat is held
+// over several shots (coverage).
+export const spreadBeats = (beats: ScriptBeat[], numShots: number): ScriptBeat[][] => {
+  const story = beats.filter(beat => beat.kind === 'action' || beat.kind === 'dialogue');
+  if (story.length === 0) return Array.from({ length: numShots }, () => []);
+  if (story.length <= numShots) {
+    return Array.from({ length: numShots }, (_, i) => [story[Math.floor(i * story.length / numShots)]]);
+  }
+  const shots: ScriptBeat[][] = Array.from({ length: numShots }, () => []);
+  story.forEach((beat, i) => shots[Math.floor(i * numShots / story.length)].push(beat));
+  return shots;
+};
@@ -0,0 +1,64 @@
+import {
+  ShotSpec, ShotFraming, ShotFramingLabels, CameraAngle, CameraAngleLabels,
+  Lens, LensLabels, CameraMovement, CameraMovementLabels, LocaleCode
+} from "../types";
+
+export const createShotSpec = (patch: Partial<ShotSpec> = {}): ShotSpec => ({
+  framing: ShotFraming.Medium,
+  angle: CameraAngle.EyeLevel,
+  lens: Lens.Standard,
+  movement: CameraMovement.Static,
+  ...patch
+});
+
+const isMember = <T extends string>(labels: Record<T, unknown>, value: unknown): value is T =>
+  typeof value === 'string' && value in labels;
+
+// Reads a spec from storage or a file. Older versions stored a single
+// ShotSize string that was either a framing or an angle; anything unknown
+// falls back to the defaults field by field.
+export const upgradeShotSpec = (value: unknown): ShotSpec => {
+  if (isMember(ShotFramingLabels, value)) {
+    return createShotSpec({ framing: value });
+  }
+  if (isMember(CameraAngleLabels, value)) {
+    return createShotSpec({
+      framing: value === CameraAngle.BirdEye ? ShotFraming.Wide : ShotFraming.Medium,
+      angle: value
+    });
+  }
+  const source = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ShotSpec, unknown>>;
+  const defaults = createShotSpec();
+  const duration = Number(source.duration);
+  return {
+    framing: isMember(ShotFramingLabels, source.framing) ? source.framing : defaults.framing,
+    angle: isMember(CameraAngleLabels, source.angle) ? source.angle : defaults.angle,
+    lens: isMember(LensLabels, source.lens) ? source.lens : defaults.lens,
+    movement: isMember(CameraMovementLabels, source.movement) ? source.movement : defaults.movement,
+    ...(duration > 0 ? { duration } : {})
+  };
+};
+
+// One-line summary, e.g. "Close-up, Low Angle, 85mm Portrait, Dolly In, 4s"
+const DURATION_FORMATS: Record<LocaleCode, (seconds: number) => string> = {
+  en: seconds => `${seconds}s`,
+  cn: seconds => `${seconds}秒`,
+  ja: seconds => `${seconds}秒`,
+  ko: seconds => `${seconds}초`,
+  es: seconds => `${seconds} s`
+};
+
+const SEPARATORS: Record<LocaleCode, string> = { en: ', ', cn: '，', ja: '、', ko: ', ', es: ', ' };
+
+export const describeShotSpec = (spec: ShotSpec, language: LocaleCode = 'en'): string => {
+  const parts = [
+    ShotFramingLabels[spec.framing][language],
+    CameraAngleLabels[spec.angle][language],
+    LensLabels[spec.lens][language],
+    CameraMovementLabels[spec.movement][language]
+  ];
+  if (spec.duration) {
+    parts.push(DURATION_FORMATS[language](spec.duration));
+  }
+  return parts.join(SEPARATORS[language]);
+};
@@ -0,0 +1,55 @@
+// Linear undo/redo stack. Changes that arrive in quick succession (typing,
+// dragging) are merged into one step.
+
+export interface UndoHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  updatedAt: number;
+}
+
+export const MAX_UNDO_STEPS = 50;
+const MERGE_WINDOW_MS = 1000;
+
+export const createUndoHistory = <T>(present: T): UndoHistory<T> => ({ past: [], present, future: [], updatedAt: 0 });
+
+// Objects are compared field by field, so rebuilding a wrapper doesn't count as a change
+const isSame = <T>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  const keys = Object.keys(a) as (keyof T)[];
+  return keys.length === Object.keys(b).length && keys.every(key => Object.is(a[key], b[key]));
+};
+
+export const recordUndoStep = <T>(history: UndoHistory<T>, value: T, now: number = Date.now()): UndoHistory<T> => {
+  if (isSame(history.present, value)) return history;
+  if (now - history.updatedAt < MERGE_WINDOW_MS && history.past.length > 0) {
+    return { ...history, present: value, future: [], updatedAt: now };
+  }
+  return {
+    past: [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+    present: value,
+    future: [],
+    updatedAt: now
+  };
+};
+
+export const undo = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    updatedAt: 0
+  };
+};
+
+export const redo = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    updatedAt: 0
+  };
+};
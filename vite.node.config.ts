@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node entry points: the batch CLI (cli/batch.ts), the app server
+// (server/index.ts) and the stub model server. Dependencies stay external and
+// are loaded from node_modules; API keys come from the environment at run time.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        batch: 'cli/batch.ts',
+        server: 'server/index.ts',
+        'stub-model': 'server/stubModel.ts'
+      }
+    }
+  }
+});